@@ -1,13 +1,30 @@
 import React from 'react';
 import { GameCanvas } from './GameCanvas';
 import { GameUI } from './GameUI';
+import { LevelEditor } from './LevelEditor';
+import { SharedReplayView } from './SharedReplayView';
+import { OpponentCanvas } from './OpponentCanvas';
 import { useGameState, useControls } from '../hooks/useGameState';
+import { useProfile } from '../hooks/useProfile';
+import { useLevelEditor } from '../hooks/useLevelEditor';
+import { useReplayPlayer } from '../hooks/useReplayPlayer';
+import { useSharedReplay } from '../hooks/useSharedReplay';
+import { useGhost } from '../hooks/useGhost';
+import { useVersus } from '../hooks/useVersus';
+import { useGamepad } from '../hooks/useGamepad';
+import { usePowerUps, useObstacles } from '../hooks/usePowerUps';
 
 export const BounceGame: React.FC = () => {
-  const { gameData, dispatch } = useGameState();
+  const { gameData, dispatch, retrySync } = useGameState();
+  useProfile(gameData, dispatch);
+  const levelEditor = useLevelEditor(gameData, dispatch);
+  const replayPlayer = useReplayPlayer(gameData.replay, gameData);
+  const sharedReplay = useSharedReplay(dispatch);
+  const ghost = useGhost(gameData, dispatch);
+  const versus = useVersus(gameData, dispatch);
   const {
     isTouchDevice,
-    trajectoryPoints,
+    trajectory,
     handleMouseDown,
     handleMouseMove,
     handleMouseUp,
@@ -15,28 +32,61 @@ export const BounceGame: React.FC = () => {
     handleTouchMove,
     handleTouchEnd,
   } = useControls(gameData, dispatch);
+  useGamepad(gameData, dispatch);
+  usePowerUps(gameData, dispatch);
+  useObstacles(gameData, dispatch);
+
+  const canvas = (
+    <GameCanvas
+      gameData={gameData}
+      replay={gameData.replay ? replayPlayer : null}
+      ghost={ghost.ghostWorld}
+      trajectory={trajectory}
+      onMouseDown={handleMouseDown}
+      onMouseMove={handleMouseMove}
+      onMouseUp={handleMouseUp}
+      onTouchStart={handleTouchStart}
+      onTouchMove={handleTouchMove}
+      onTouchEnd={handleTouchEnd}
+    />
+  );
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-gray-900 via-gray-800 to-gray-900 flex flex-col items-center justify-center p-4">
       <div className="w-full max-w-6xl">
-        {/* Game UI */}
-        <GameUI gameData={gameData} dispatch={dispatch} isTouchDevice={isTouchDevice} />
-
-        {/* Game Canvas Container */}
-        <div className="mt-8 flex justify-center">
-          <div className="relative">
-            <GameCanvas
+        {gameData.gameState === 'EDITOR' ? (
+          <LevelEditor gameData={gameData} dispatch={dispatch} editor={levelEditor} />
+        ) : gameData.sharedReplay ? (
+          <SharedReplayView sharedReplay={gameData.sharedReplay} player={replayPlayer} dispatch={dispatch}>
+            {canvas}
+          </SharedReplayView>
+        ) : (
+          <>
+            {/* Game UI */}
+            <GameUI
               gameData={gameData}
-              trajectoryPoints={trajectoryPoints}
-              onMouseDown={handleMouseDown}
-              onMouseMove={handleMouseMove}
-              onMouseUp={handleMouseUp}
-              onTouchStart={handleTouchStart}
-              onTouchMove={handleTouchMove}
-              onTouchEnd={handleTouchEnd}
+              dispatch={dispatch}
+              isTouchDevice={isTouchDevice}
+              canEditLevels={levelEditor.canEdit}
+              sharedReplay={sharedReplay}
+              ghost={ghost}
+              versus={versus}
+              onRetrySync={retrySync}
             />
-          </div>
-        </div>
+
+            {/* Game Canvas Container, split with the opponent's field in versus matches */}
+            <div className="mt-8 flex justify-center items-start space-x-6">
+              <div className="relative">{canvas}</div>
+              {gameData.versus && (
+                <OpponentCanvas
+                  field={versus.opponentField}
+                  config={gameData.config}
+                  label={gameData.versus.practice ? '🤖 Practice bot' : `u/${gameData.versus.opponent}`}
+                />
+              )}
+            </div>
+          </>
+        )}
 
         {/* Game Info Footer */}
         <div className="mt-8 text-center space-y-2">
@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import type { DailyChallenge } from '../../shared/game/dailyChallenge';
+import type { DailyChallengeArchive } from '../../shared/types/api';
+import { getChallengeEndTime, isChallengeOpen } from '../../shared/game/dailyChallenge';
+import { fetchDailyArchive } from '../utils/gameApi';
+
+type DailyChallengePanelProps = {
+  challenge: DailyChallenge;
+};
+
+const SHOWN_WINNERS = 3;
+
+const formatTimeLeft = (ms: number): string => {
+  const minutes = Math.max(0, Math.floor(ms / 60000));
+  const hours = Math.floor(minutes / 60);
+  return hours > 0 ? `${hours}h ${minutes % 60}m` : `${minutes}m`;
+};
+
+const ArchivedDay: React.FC<{ archive: DailyChallengeArchive }> = ({ archive }) => (
+  <div className="bg-black bg-opacity-30 rounded-lg px-3 py-2 text-left">
+    <div className="flex justify-between text-white font-medium">
+      <span>{archive.date}</span>
+      <span className="text-gray-400">{archive.players} players</span>
+    </div>
+    {archive.entries.length === 0 && <p className="text-gray-400">No scores</p>}
+    {archive.entries.slice(0, SHOWN_WINNERS).map(entry => (
+      <div key={entry.username} className="flex justify-between text-gray-300">
+        <span>
+          #{entry.rank} u/{entry.username}
+        </span>
+        <span className="text-yellow-400">{entry.score.toLocaleString()}</span>
+      </div>
+    ))}
+  </div>
+);
+
+export const DailyChallengePanel: React.FC<DailyChallengePanelProps> = ({ challenge }) => {
+  const [archive, setArchive] = useState<DailyChallengeArchive[] | null>(null);
+  const [showArchive, setShowArchive] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const now = Date.now();
+  const open = isChallengeOpen(challenge, now);
+
+  const handleToggleArchive = async () => {
+    setShowArchive(current => !current);
+    if (archive) return;
+
+    try {
+      const response = await fetchDailyArchive();
+      setArchive(response.challenges);
+      setError(null);
+    } catch (loadError) {
+      console.error('Failed to load past challenges:', loadError);
+      setError(loadError instanceof Error ? loadError.message : 'Failed to load past challenges');
+    }
+  };
+
+  return (
+    <div className="bg-black bg-opacity-30 rounded-xl p-4 space-y-3 text-sm">
+      <div className="text-lg font-bold text-white">📅 Daily Challenge · {challenge.date}</div>
+      <p className={open ? 'text-green-300' : 'text-yellow-300'}>
+        {open
+          ? `Everyone plays the same levels today. Ends in ${formatTimeLeft(getChallengeEndTime(challenge.date) - now)}.`
+          : "This challenge has ended. New runs only count on this post's leaderboard."}
+      </p>
+      <button
+        onClick={() => void handleToggleArchive()}
+        className="px-4 py-2 bg-gray-600 text-white font-medium rounded-lg hover:bg-gray-500 transition-all duration-300"
+      >
+        {showArchive ? 'Hide Past Challenges' : '🗓️ Past Challenges'}
+      </button>
+      {showArchive && (
+        <div className="space-y-2 text-xs">
+          {error && <p className="text-red-300">{error}</p>}
+          {!error && !archive && <p className="text-gray-400">Loading...</p>}
+          {archive?.length === 0 && <p className="text-gray-400">No past challenges yet</p>}
+          {archive?.map(day => <ArchivedDay key={day.date} archive={day} />)}
+        </div>
+      )}
+    </div>
+  );
+};
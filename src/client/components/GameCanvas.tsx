@@ -1,5 +1,9 @@
-import React, { useRef, useEffect } from 'react';
+import React, { useRef, useEffect, useMemo } from 'react';
 import type { GameData, BallPosition } from '../types/game';
+import type { PhysicsWorld } from '../../shared/game/world';
+import type { ReplayPlayer } from '../hooks/useReplayPlayer';
+import type { TrajectoryPreview } from '../../shared/game/trajectory';
+import { ReplayControls } from './ReplayControls';
 import {
   drawGradientBall,
   drawGradientPlatform,
@@ -12,10 +16,14 @@ import {
   updateBallTrail,
 } from '../utils/visualEffects';
 import { getPowerUpIcon, getPowerUpColor, getObstacleColor } from '../utils/powerUps';
+import { SHIELD_BOUNCES, getMagneticRange } from '../../shared/game/powerUps';
+import { DEFAULT_WIND_FORCE, getObstacleRadius } from '../../shared/game/obstacles';
 
 type GameCanvasProps = {
   gameData: GameData;
-  trajectoryPoints: BallPosition[];
+  replay: ReplayPlayer | null; // Set while a replay is being watched
+  ghost: PhysicsWorld | null; // A recorded run being raced, drawn translucent
+  trajectory: TrajectoryPreview | null; // null when the difficulty hides the preview
   onMouseDown: (event: React.MouseEvent<HTMLCanvasElement>) => void;
   onMouseMove: (event: React.MouseEvent<HTMLCanvasElement>) => void;
   onMouseUp: (event: React.MouseEvent<HTMLCanvasElement>) => void;
@@ -24,9 +32,53 @@ type GameCanvasProps = {
   onTouchEnd: (event: React.TouchEvent<HTMLCanvasElement>) => void;
 };
 
+const GHOST_ALPHA = 0.35;
+
+// Three seconds at 60 steps per second
+const PICKUP_WARNING_TICKS = 180;
+
+const drawTrajectoryMarker = (ctx: CanvasRenderingContext2D, position: BallPosition, color: string) => {
+  ctx.strokeStyle = color;
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  ctx.arc(position.x, position.y, 6, 0, Math.PI * 2);
+  ctx.stroke();
+};
+
+const drawPaddleLabel = (ctx: CanvasRenderingContext2D, label: string, x: number, y: number) => {
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.8)';
+  ctx.font = 'bold 12px Arial';
+  ctx.textAlign = 'center';
+  ctx.fillText(label, x, y + 22);
+};
+
+// During playback the canvas draws the replay's world in place of the live game
+const getReplayGameData = (gameData: GameData, world: PhysicsWorld): GameData => ({
+  ...gameData,
+  ballPhysics: world.ballPhysics,
+  platform: world.platform,
+  partnerPlatform: world.partnerPlatform,
+  obstacles: world.obstacles,
+  collisionState: world.collisionState,
+  currentLevel: world.currentLevel,
+  config: world.config,
+  scoreData: world.scoreData,
+  visualEffects: [],
+  ballTrails: {},
+  powerUps: world.pickups,
+  activePowerUps: world.activePowerUps,
+  multiBalls: world.extraBalls,
+  ballCombos: world.ballCombos,
+  shieldBounces: world.shieldBounces,
+  magneticRange: getMagneticRange(world.activePowerUps),
+  worldTick: world.tick,
+});
+
 export const GameCanvas: React.FC<GameCanvasProps> = ({
-  gameData,
-  trajectoryPoints,
+  gameData: liveGameData,
+  replay,
+  ghost,
+  trajectory,
   onMouseDown,
   onMouseMove,
   onMouseUp,
@@ -36,6 +88,13 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const particlesRef = useRef<any[]>([]);
+  const replayWorld = replay?.world ?? null;
+  const watchingReplay = replayWorld !== null;
+
+  const gameData = useMemo(
+    () => (replayWorld ? getReplayGameData(liveGameData, replayWorld) : liveGameData),
+    [liveGameData, replayWorld]
+  );
 
   useEffect(() => {
     const canvas = canvasRef.current;
@@ -44,7 +103,7 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
-    const { config, ballPhysics, platform, collisionState, scoreData, currentLevel, aimData, controlState, visualEffects, ballTrail, screenShake, powerUps, obstacles, multiBalls } = gameData;
+    const { config, ballPhysics, platform, partnerPlatform, collisionState, currentLevel, aimData, controlState, visualEffects, ballTrails, screenShake, powerUps, obstacles, multiBalls, ballCombos, shieldBounces, magneticRange, worldTick } = gameData;
 
     // Get screen shake offset
     const shakeOffset = getScreenShakeOffset(screenShake);
@@ -57,13 +116,14 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({
     ctx.clearRect(0, 0, config.canvasWidth, config.canvasHeight);
 
     // Draw background
-    drawBackground(ctx, config.canvasWidth, config.canvasHeight);
+    drawBackground(ctx, config.canvasWidth, config.canvasHeight, currentLevel.background);
 
     // Draw walls
     drawWalls(ctx, config.canvasWidth, config.canvasHeight);
 
-    // Draw ball trail
-    if (ballTrail.length > 1) {
+    // Draw each ball's trail
+    Object.values(ballTrails).forEach(ballTrail => {
+      if (ballTrail.length < 2) return;
       ctx.strokeStyle = 'rgba(255, 107, 107, 0.3)';
       ctx.lineWidth = 3;
       ctx.lineCap = 'round';
@@ -75,6 +135,21 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({
         ctx.lineTo(ballTrail[i]!.x, ballTrail[i]!.y);
       }
       ctx.stroke();
+    });
+
+    // Draw the ghost while it is on the same level as the player
+    if (ghost && !watchingReplay && ghost.phase !== 'over' && ghost.currentLevel.level === currentLevel.level) {
+      ctx.save();
+      ctx.globalAlpha = GHOST_ALPHA;
+      drawGradientPlatform(ctx, ghost.platform.x, ghost.platform.y, ghost.platform.width, ghost.platform.height, false);
+      drawGradientBall(
+        ctx,
+        ghost.ballPhysics.position.x,
+        ghost.ballPhysics.position.y,
+        ghost.ballPhysics.radius,
+        ghost.ballPhysics.velocity
+      );
+      ctx.restore();
     }
 
     // Check if ball is near platform for proximity effect
@@ -84,6 +159,21 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({
     // Draw platform
     drawGradientPlatform(ctx, platform.x, platform.y, platform.width, platform.height, isNearPlatform);
 
+    // In co-op the second player's paddle shares the canvas, and both are labelled
+    if (partnerPlatform) {
+      const isNearPartner = Math.abs(ballPhysics.position.x - partnerPlatform.x) < 50;
+      drawGradientPlatform(
+        ctx,
+        partnerPlatform.x,
+        partnerPlatform.y,
+        partnerPlatform.width,
+        partnerPlatform.height,
+        isNearPartner
+      );
+      drawPaddleLabel(ctx, 'P1', platform.x, platform.y);
+      drawPaddleLabel(ctx, 'P2', partnerPlatform.x, partnerPlatform.y);
+    }
+
     // Draw ball
     drawGradientBall(ctx, ballPhysics.position.x, ballPhysics.position.y, ballPhysics.radius, ballPhysics.velocity);
 
@@ -133,6 +223,64 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({
         ctx.font = '16px Arial';
         ctx.textAlign = 'center';
         ctx.fillText('⚡', obstacle.x, obstacle.y + 5);
+      } else if (obstacle.type === 'portal') {
+        // Draw portal as a glowing ring that spins
+        const spin = Date.now() * 0.005;
+        ctx.save();
+        ctx.shadowColor = color;
+        ctx.shadowBlur = 15;
+        ctx.strokeStyle = color;
+        ctx.lineWidth = 4;
+        ctx.beginPath();
+        ctx.ellipse(obstacle.x, obstacle.y, obstacle.width / 2, obstacle.height / 2, 0, 0, Math.PI * 2);
+        ctx.stroke();
+        ctx.lineWidth = 2;
+        ctx.beginPath();
+        ctx.ellipse(obstacle.x, obstacle.y, obstacle.width / 4, obstacle.height / 4, 0, spin, spin + Math.PI * 1.5);
+        ctx.stroke();
+        ctx.restore();
+      } else if (obstacle.type === 'bumper') {
+        // Draw bumper as a ringed disc
+        const radius = getObstacleRadius(obstacle);
+        ctx.fillStyle = color;
+        ctx.beginPath();
+        ctx.arc(obstacle.x, obstacle.y, radius, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.strokeStyle = 'rgba(255, 255, 255, 0.8)';
+        ctx.lineWidth = 3;
+        ctx.beginPath();
+        ctx.arc(obstacle.x, obstacle.y, radius * 0.6, 0, Math.PI * 2);
+        ctx.stroke();
+      } else if (obstacle.type === 'wind-zone') {
+        // Draw wind zone with arrows drifting the way it blows
+        const direction = Math.sign(obstacle.force ?? DEFAULT_WIND_FORCE) || 1;
+        const left = obstacle.x - obstacle.width / 2;
+        const drift = ((Date.now() * 0.05) % 30) * direction;
+        ctx.fillStyle = 'rgba(135, 206, 235, 0.2)';
+        ctx.fillRect(left, obstacle.y - obstacle.height / 2, obstacle.width, obstacle.height);
+
+        ctx.save();
+        ctx.beginPath();
+        ctx.rect(left, obstacle.y - obstacle.height / 2, obstacle.width, obstacle.height);
+        ctx.clip();
+        ctx.fillStyle = color;
+        ctx.font = '16px Arial';
+        ctx.textAlign = 'center';
+        for (let x = left - 30; x < left + obstacle.width + 30; x += 30) {
+          ctx.fillText(direction > 0 ? '›' : '‹', x + drift, obstacle.y + 5);
+        }
+        ctx.restore();
+      } else if (obstacle.type === 'gravity-well') {
+        // Draw gravity well as a disc that darkens towards its centre
+        const radius = getObstacleRadius(obstacle);
+        const gradient = ctx.createRadialGradient(obstacle.x, obstacle.y, 0, obstacle.x, obstacle.y, radius);
+        gradient.addColorStop(0, 'rgba(0, 0, 0, 0.9)');
+        gradient.addColorStop(0.3, color);
+        gradient.addColorStop(1, 'rgba(75, 0, 130, 0)');
+        ctx.fillStyle = gradient;
+        ctx.beginPath();
+        ctx.arc(obstacle.x, obstacle.y, radius, 0, Math.PI * 2);
+        ctx.fill();
       } else {
         // Regular obstacle
         ctx.fillStyle = color;
@@ -147,47 +295,68 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({
 
     // Draw power-ups
     powerUps.forEach(powerUp => {
-      if (powerUp.collected) return;
-      
-      const color = getPowerUpColor(powerUp.type);
-      const icon = getPowerUpIcon(powerUp.type);
-      
+      const { x, y } = powerUp.position;
+      const color = getPowerUpColor(powerUp.kind);
+      const icon = getPowerUpIcon(powerUp.kind);
+
       // Power-up glow effect
-      const glow = Math.sin(Date.now() * 0.005) * 0.3 + 0.7;
       ctx.save();
       ctx.shadowColor = color;
       ctx.shadowBlur = 15;
       ctx.fillStyle = color;
       ctx.beginPath();
-      ctx.arc(powerUp.x, powerUp.y, 15, 0, Math.PI * 2);
+      ctx.arc(x, y, powerUp.radius, 0, Math.PI * 2);
       ctx.fill();
       ctx.restore();
-      
+
       // Power-up icon
       ctx.fillStyle = 'rgba(255, 255, 255, 0.9)';
       ctx.font = '20px Arial';
       ctx.textAlign = 'center';
-      ctx.fillText(icon, powerUp.x, powerUp.y + 6);
-      
-      // Collection indicator
-      const timeLeft = powerUp.duration - (Date.now() - powerUp.startTime);
-      if (timeLeft < 3000) { // Last 3 seconds
+      ctx.fillText(icon, x, y + 6);
+
+      // Ringed in red for its last 3 seconds on the field
+      if (powerUp.expiresAt - worldTick < PICKUP_WARNING_TICKS) {
         ctx.strokeStyle = 'rgba(255, 0, 0, 0.8)';
         ctx.lineWidth = 2;
         ctx.beginPath();
-        ctx.arc(powerUp.x, powerUp.y, 15, 0, Math.PI * 2);
+        ctx.arc(x, y, powerUp.radius, 0, Math.PI * 2);
         ctx.stroke();
       }
     });
 
-    // Draw combo indicator
-    if (scoreData.consecutiveBounces > 1) {
-      const comboAlpha = Math.min(0.8, scoreData.consecutiveBounces / 10);
+    // Draw the shield along the floor while it still has hits left
+    if (shieldBounces > 0) {
+      ctx.strokeStyle = `rgba(150, 206, 180, ${0.3 + (shieldBounces / SHIELD_BOUNCES) * 0.6})`;
+      ctx.lineWidth = 4;
+      ctx.beginPath();
+      ctx.moveTo(0, config.canvasHeight - 2);
+      ctx.lineTo(config.canvasWidth, config.canvasHeight - 2);
+      ctx.stroke();
+    }
+
+    // Outline the magnetic paddle's pull
+    if (magneticRange > 0) {
+      ctx.save();
+      ctx.strokeStyle = 'rgba(255, 159, 243, 0.4)';
+      ctx.lineWidth = 1;
+      ctx.setLineDash([4, 4]);
+      ctx.beginPath();
+      ctx.arc(platform.x, platform.y, magneticRange, Math.PI, Math.PI * 2);
+      ctx.stroke();
+      ctx.restore();
+    }
+
+    // Draw combo indicators; each ball glows with its own combo
+    [ballPhysics, ...multiBalls].forEach(ball => {
+      const combo = ballCombos[ball.id] ?? 0;
+      if (combo <= 1) return;
+      const comboAlpha = Math.min(0.8, combo / 10);
       ctx.fillStyle = `rgba(255, 0, 255, ${comboAlpha})`;
       ctx.beginPath();
-      ctx.arc(ballPhysics.position.x, ballPhysics.position.y, ballPhysics.radius + 8, 0, Math.PI * 2);
+      ctx.arc(ball.position.x, ball.position.y, ball.radius + 8, 0, Math.PI * 2);
       ctx.fill();
-    }
+    });
 
     // Draw level-specific visual effects
     if (currentLevel.level >= 3) {
@@ -229,19 +398,30 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({
       ctx.fill();
       ctx.restore();
 
-      // Trajectory preview (dotted line)
-      ctx.strokeStyle = 'rgba(255, 255, 255, 0.6)';
-      ctx.lineWidth = 2;
-      ctx.setLineDash([8, 8]);
-      ctx.beginPath();
-      if (trajectoryPoints.length > 0) {
-        ctx.moveTo(trajectoryPoints[0]!.x, trajectoryPoints[0]!.y);
-        for (let i = 1; i < trajectoryPoints.length; i++) {
-          ctx.lineTo(trajectoryPoints[i]!.x, trajectoryPoints[i]!.y);
+      // Trajectory preview (dotted line) with its predicted bounces and landing
+      if (trajectory) {
+        const { points, teleports, contacts, landing } = trajectory;
+        ctx.strokeStyle = 'rgba(255, 255, 255, 0.6)';
+        ctx.lineWidth = 2;
+        ctx.setLineDash([8, 8]);
+        ctx.beginPath();
+        if (points.length > 0) {
+          ctx.moveTo(points[0]!.x, points[0]!.y);
+          for (let i = 1; i < points.length; i++) {
+            // The path jumps where the ball goes through a portal
+            if (teleports.includes(i)) {
+              ctx.moveTo(points[i]!.x, points[i]!.y);
+            } else {
+              ctx.lineTo(points[i]!.x, points[i]!.y);
+            }
+          }
         }
+        ctx.stroke();
+        ctx.setLineDash([]); // Reset line dash
+
+        contacts.forEach(contact => drawTrajectoryMarker(ctx, contact.position, 'rgba(255, 215, 0, 0.9)'));
+        if (landing) drawTrajectoryMarker(ctx, landing, 'rgba(0, 255, 127, 0.9)');
       }
-      ctx.stroke();
-      ctx.setLineDash([]); // Reset line dash
 
       // Power meter with gradient
       const power = aimData.power;
@@ -300,7 +480,7 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({
     // Restore transform
     ctx.restore();
 
-  }, [gameData, trajectoryPoints]);
+  }, [gameData, trajectory, ghost, watchingReplay]);
 
   return (
     <div className="relative">
@@ -308,12 +488,7 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({
         ref={canvasRef}
         width={gameData.config.canvasWidth}
         height={gameData.config.canvasHeight}
-        onMouseDown={onMouseDown}
-        onMouseMove={onMouseMove}
-        onMouseUp={onMouseUp}
-        onTouchStart={onTouchStart}
-        onTouchMove={onTouchMove}
-        onTouchEnd={onTouchEnd}
+        {...(!watchingReplay && { onMouseDown, onMouseMove, onMouseUp, onTouchStart, onTouchMove, onTouchEnd })}
         className="border-2 border-gray-600 rounded-xl cursor-pointer shadow-2xl bg-gray-800"
         style={{ 
           touchAction: 'none',
@@ -326,7 +501,9 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({
       <div className="absolute top-4 left-4 right-4 flex justify-between items-center pointer-events-none">
         {/* Level indicator */}
         <div className="bg-black bg-opacity-50 text-white px-3 py-1 rounded-full text-sm font-bold">
-          Level {gameData.scoreData.level}
+          {watchingReplay && '🎬 Replay · '}
+          {gameData.config.mode === 'endless' ? 'Wave' : 'Level'} {gameData.scoreData.level}
+          {watchingReplay && ` · ${gameData.scoreData.score.toLocaleString()}`}
         </div>
         
         {/* Lives indicator */}
@@ -348,6 +525,9 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({
           </button>
         )}
       </div>
+
+      {replay?.error && <p className="mt-3 text-center text-sm text-red-300">{replay.error}</p>}
+      {replay && watchingReplay && <ReplayControls player={replay} />}
     </div>
   );
 };
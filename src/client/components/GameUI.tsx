@@ -1,16 +1,97 @@
-import React from 'react';
-import type { GameData, GameAction } from '../types/game';
+import React, { useEffect, useState } from 'react';
+import type { GameData, GameAction, GameMode, SyncStatus } from '../types/game';
 import { calculateLevelScore } from '../utils/gameLogic';
-import { getPowerUpIcon, getPowerUpDescription } from '../utils/powerUps';
+import { getPowerUpIcon, getPowerUpDescription, isNegativePowerUp } from '../utils/powerUps';
+import { LeaderboardPanel } from './LeaderboardPanel';
+import { LevelPackPicker } from './LevelPackPicker';
+import { DailyChallengePanel } from './DailyChallengePanel';
+import { VersusPanel } from './VersusPanel';
+import { PaddleScores } from './PaddleScores';
+import { KeyBindingsPanel } from './KeyBindingsPanel';
+import type { SharedReplayState } from '../hooks/useSharedReplay';
+import type { GhostRace } from '../hooks/useGhost';
+import type { VersusState } from '../hooks/useVersus';
+import type { VersusResult } from '../../shared/game/versus';
+import { getReplayLink } from '../hooks/useSharedReplay';
+import { isRankedRun } from '../utils/gameApi';
+import { createReplay } from '../../shared/game/replay';
+import { getKeyLabel } from '../../shared/game/keyBindings';
+import { FRAME_MS } from '../../shared/game/simulation';
+import { countBricksLeft } from '../../shared/game/brickBreaker';
 
 type GameUIProps = {
   gameData: GameData;
   dispatch: (action: GameAction) => void;
   isTouchDevice: boolean;
+  canEditLevels: boolean;
+  sharedReplay: SharedReplayState;
+  ghost: GhostRace;
+  versus: VersusState;
+  onRetrySync: () => void;
 };
 
-export const GameUI: React.FC<GameUIProps> = ({ gameData, dispatch, isTouchDevice }) => {
-  const { gameState, scoreData, ballPhysics, currentLevel, aimData, controlState, powerUps, activePowerUps, achievements, audioSettings } = gameData;
+const SYNC_STATUS_LABELS: Record<SyncStatus, { label: string; className: string }> = {
+  idle: { label: 'Not synced', className: 'bg-gray-600 text-gray-200' },
+  syncing: { label: '🔄 Syncing...', className: 'bg-blue-700 text-blue-100' },
+  synced: { label: '☁️ Saved', className: 'bg-green-700 text-green-100' },
+  offline: { label: '📴 Offline', className: 'bg-yellow-700 text-yellow-100' },
+  error: { label: '⚠️ Sync failed', className: 'bg-red-700 text-red-100' },
+};
+
+const GAME_MODES: { mode: GameMode; label: string }[] = [
+  { mode: 'campaign', label: '🗺️ Campaign' },
+  { mode: 'endless', label: '♾️ Endless' },
+  { mode: 'bricks', label: '🧱 Bricks' },
+];
+
+const VERSUS_RESULT_LABELS: Record<VersusResult, { label: string; className: string }> = {
+  won: { label: '🏆 You won!', className: 'text-green-400' },
+  lost: { label: '😞 You lost', className: 'text-red-300' },
+  draw: { label: '🤝 Draw', className: 'text-yellow-400' },
+};
+
+// Whole seconds of play until a power-up's effect ends
+const getSecondsLeft = (expiresAt: number, tick: number): number => Math.ceil(((expiresAt - tick) * FRAME_MS) / 1000);
+
+const getKeyLabels = ({ keyBindings }: GameData) => ({
+  p1: `${getKeyLabel(keyBindings.moveLeft)}/${getKeyLabel(keyBindings.moveRight)}`,
+  p2: `${getKeyLabel(keyBindings.partnerLeft)}/${getKeyLabel(keyBindings.partnerRight)}`,
+  pause: getKeyLabel(keyBindings.pause),
+  aim: `${getKeyLabel(keyBindings.aimLeft)}/${getKeyLabel(keyBindings.aimRight)}`,
+  power: `${getKeyLabel(keyBindings.powerUp)}/${getKeyLabel(keyBindings.powerDown)}`,
+  launch: getKeyLabel(keyBindings.launch),
+});
+
+export const GameUI: React.FC<GameUIProps> = ({
+  gameData,
+  dispatch,
+  isTouchDevice,
+  canEditLevels,
+  sharedReplay,
+  ghost,
+  versus,
+  onRetrySync,
+}) => {
+  const { gameState, gameMode, playTesting, levelPack, scoreData, ballPhysics, currentLevel, aimData, controlState, activePowerUps, shieldBounces, worldTick, achievements, audioSettings, syncStatus } = gameData;
+
+  const endless = gameMode === 'endless';
+  // Brick levels are won by clearing the bricks, so progress counts bricks rather than bounces
+  const brickLevel = currentLevel.winCondition?.type === 'bricks';
+  const bricksTotal = brickLevel ? countBricksLeft(currentLevel.obstacles ?? []) : 0;
+  const bricksBroken = bricksTotal - countBricksLeft(gameData.obstacles);
+  const versusMatch = gameData.versus;
+  const levelLabel = endless ? 'Wave' : 'Level';
+  const [linkCopied, setLinkCopied] = useState(false);
+  const [replayId, setReplayId] = useState('');
+  const [showKeyBindings, setShowKeyBindings] = useState(false);
+  const keys = getKeyLabels(gameData);
+  const { resetShare } = sharedReplay;
+
+  // Each run is shared on its own
+  useEffect(() => {
+    setLinkCopied(false);
+    resetShare();
+  }, [gameData.runLog, resetShare]);
 
   const handleStartGame = () => {
     dispatch({ type: 'START_GAME' });
@@ -32,6 +113,58 @@ export const GameUI: React.FC<GameUIProps> = ({ gameData, dispatch, isTouchDevic
     dispatch({ type: 'RESET_GAME' });
   };
 
+  // Play tests restart on the draft being tested rather than the post's levels
+  const handlePlayAgain = () => {
+    if (playTesting && levelPack) {
+      dispatch({ type: 'PLAY_TEST_LEVEL', payload: levelPack });
+    } else {
+      dispatch({ type: 'RESET_GAME' });
+    }
+  };
+
+  const handleToggleCoop = () => {
+    dispatch({ type: 'SET_COOP', payload: !gameData.coop });
+  };
+
+  const handleOpenEditor = () => {
+    dispatch({ type: 'OPEN_EDITOR' });
+  };
+
+  const getRunReplay = () =>
+    gameData.runLog && createReplay(gameData.runLog, gameMode, levelPack?.id ?? null, scoreData.score);
+
+  const handleToggleReplay = () => {
+    const replay = getRunReplay();
+    if (gameData.replay) {
+      dispatch({ type: 'CLOSE_REPLAY' });
+    } else if (replay) {
+      dispatch({ type: 'WATCH_REPLAY', payload: replay });
+    }
+  };
+
+  // Stores the replay on the server and copies a link to it for pasting into a comment
+  const handleShareReplay = async () => {
+    const replay = getRunReplay();
+    const id = replay && (await sharedReplay.shareReplay(replay));
+    if (!id) return;
+
+    try {
+      await navigator.clipboard.writeText(getReplayLink(id));
+      setLinkCopied(true);
+    } catch (error) {
+      console.error('Failed to copy replay link:', error);
+    }
+  };
+
+  const handleOpenReplay = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (replayId.trim()) void sharedReplay.openReplay(replayId.trim());
+  };
+
+  const handleSelectMode = (mode: GameMode) => {
+    dispatch({ type: 'SET_GAME_MODE', payload: mode });
+  };
+
   const handleLaunchBall = () => {
     dispatch({ type: 'LAUNCH_BALL', payload: { angle: aimData.angle, power: aimData.power } });
   };
@@ -74,7 +207,7 @@ export const GameUI: React.FC<GameUIProps> = ({ gameData, dispatch, isTouchDevic
             <div className="text-2xl font-bold text-yellow-400">{scoreData.highScore.toLocaleString()}</div>
           </div>
           <div className="text-center">
-            <div className="text-sm text-gray-300 font-medium">Level</div>
+            <div className="text-sm text-gray-300 font-medium">{levelLabel}</div>
             <div className="text-2xl font-bold text-green-400">{scoreData.level}</div>
           </div>
           <div className="text-center">
@@ -82,6 +215,19 @@ export const GameUI: React.FC<GameUIProps> = ({ gameData, dispatch, isTouchDevic
             <div className="text-2xl font-bold text-red-400">{scoreData.lives}</div>
           </div>
         </div>
+        <div className="mt-3 flex justify-center items-center space-x-2 text-xs">
+          <span className={`px-3 py-1 rounded-full font-medium ${SYNC_STATUS_LABELS[syncStatus].className}`}>
+            {SYNC_STATUS_LABELS[syncStatus].label}
+          </span>
+          {(syncStatus === 'error' || syncStatus === 'offline') && (
+            <button
+              onClick={onRetrySync}
+              className="px-3 py-1 rounded-full font-medium bg-gray-600 text-white hover:bg-gray-500 transition-all duration-300"
+            >
+              Retry
+            </button>
+          )}
+        </div>
       </div>
 
       {/* Stats Bar */}
@@ -108,21 +254,58 @@ export const GameUI: React.FC<GameUIProps> = ({ gameData, dispatch, isTouchDevic
         </div>
       </div>
 
+      {/* Ghost Race */}
+      {gameData.ghost && ghost.scoreDelta !== null && gameState !== 'MENU' && (
+        <div className="w-full max-w-4xl flex justify-between items-center bg-black bg-opacity-30 rounded-xl px-4 py-2 text-sm">
+          <span className="text-gray-300">
+            👻 Racing u/{gameData.ghost.username} ({gameData.ghost.score.toLocaleString()})
+          </span>
+          <span className={`font-bold ${ghost.scoreDelta >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+            {ghost.scoreDelta >= 0
+              ? `+${ghost.scoreDelta.toLocaleString()} ahead`
+              : `${Math.abs(ghost.scoreDelta).toLocaleString()} behind`}
+          </span>
+        </div>
+      )}
+
+      {/* Versus Match */}
+      {versusMatch && gameState !== 'MENU' && (
+        <div className="w-full max-w-4xl flex justify-between items-center bg-black bg-opacity-30 rounded-xl px-4 py-2 text-sm">
+          <span className="text-gray-300">
+            ⚔️ {versusMatch.practice ? '🤖 Practice bot' : `u/${versusMatch.opponent}`}
+            {versus.opponentLeft && <span className="text-red-300"> left the match</span>}
+          </span>
+          <span className="text-gray-300">
+            Attacks sent <span className="font-bold text-green-400">{versus.attacks.sent}</span> · received{' '}
+            <span className="font-bold text-red-400">{versus.attacks.received}</span>
+          </span>
+        </div>
+      )}
+
+      {/* Co-op Paddles */}
+      {scoreData.paddles && gameState !== 'MENU' && gameState !== 'GAME_OVER' && (
+        <PaddleScores paddles={scoreData.paddles} keyLabels={[keys.p1, keys.p2]} />
+      )}
+
       {/* Level Progress */}
       <div className="w-full max-w-4xl">
         <div className="text-center text-sm text-gray-300 mb-3 font-medium">
-          Target: {currentLevel.targetBounces} bounces
+          {endless && 'Survive until the timer runs out'}
+          {!endless && brickLevel && `Bricks left: ${bricksTotal - bricksBroken}`}
+          {!endless && !brickLevel && `Target: ${currentLevel.targetBounces} bounces`}
         </div>
         <div className="w-full bg-gray-700 rounded-full h-3 shadow-inner">
           <div
             className="bg-gradient-to-r from-green-500 to-green-400 h-3 rounded-full transition-all duration-500 shadow-lg"
             style={{
-              width: `${Math.min(100, (scoreData.bounceCount / currentLevel.targetBounces) * 100)}%`
+              width: brickLevel
+                ? `${bricksTotal > 0 ? (bricksBroken / bricksTotal) * 100 : 100}%`
+                : `${Math.min(100, (scoreData.bounceCount / currentLevel.targetBounces) * 100)}%`
             }}
           />
         </div>
         <div className="text-center text-xs text-gray-400 mt-1">
-          {scoreData.bounceCount} / {currentLevel.targetBounces}
+          {brickLevel ? `${bricksBroken} / ${bricksTotal}` : `${scoreData.bounceCount} / ${currentLevel.targetBounces}`}
         </div>
       </div>
 
@@ -132,11 +315,14 @@ export const GameUI: React.FC<GameUIProps> = ({ gameData, dispatch, isTouchDevic
           <div className="text-center text-sm text-gray-300 font-medium mb-2">Active Power-ups</div>
           <div className="flex justify-center space-x-4">
             {activePowerUps.map(powerUp => (
-              <div key={powerUp.id} className="flex flex-col items-center">
-                <div className="text-2xl">{getPowerUpIcon(powerUp.type)}</div>
-                <div className="text-xs text-gray-300">{getPowerUpDescription(powerUp.type)}</div>
+              <div key={powerUp.kind} className="flex flex-col items-center">
+                <div className="text-2xl">{getPowerUpIcon(powerUp.kind)}</div>
+                <div className={`text-xs ${isNegativePowerUp(powerUp.kind) ? 'text-red-300' : 'text-gray-300'}`}>
+                  {getPowerUpDescription(powerUp.kind)}
+                </div>
                 <div className="text-xs text-yellow-400">
-                  {Math.ceil((powerUp.duration - (Date.now() - powerUp.startTime)) / 1000)}s
+                  {getSecondsLeft(powerUp.expiresAt, worldTick)}s
+                  {powerUp.kind === 'shield' && ` · ${shieldBounces} hits`}
                 </div>
               </div>
             ))}
@@ -169,17 +355,117 @@ export const GameUI: React.FC<GameUIProps> = ({ gameData, dispatch, isTouchDevic
             Bounce Original
           </h1>
           <p className="text-gray-300 text-lg">A physics-based ball bouncing adventure</p>
+          <div className="flex justify-center space-x-2">
+            {GAME_MODES.map(({ mode, label }) => (
+              <button
+                key={mode}
+                onClick={() => handleSelectMode(mode)}
+                className={`px-5 py-2 rounded-full font-medium transition-all duration-300 ${
+                  gameMode === mode ? 'bg-white text-gray-900' : 'bg-black bg-opacity-30 text-gray-200 hover:bg-opacity-50'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          {endless && (
+            <p className="text-sm text-gray-300">Survive wave after wave as the obstacles pile up and the ball speeds up.</p>
+          )}
+          <button
+            onClick={handleToggleCoop}
+            className={`px-5 py-2 rounded-full font-medium transition-all duration-300 ${
+              gameData.coop ? 'bg-white text-gray-900' : 'bg-black bg-opacity-30 text-gray-200 hover:bg-opacity-50'
+            }`}
+          >
+            👥 Co-op {gameData.coop ? 'On' : 'Off'}
+          </button>
+          {gameData.coop && (
+            <p className="text-sm text-gray-300">
+              Two players on one keyboard: P1 moves the left paddle with {keys.p1}, P2 the right paddle with {keys.p2}.
+              The lives are shared.
+            </p>
+          )}
           <button
             onClick={handleStartGame}
             className="px-12 py-4 bg-gradient-to-r from-blue-600 to-purple-600 text-white font-bold rounded-xl shadow-lg hover:from-blue-700 hover:to-purple-700 transition-all duration-300 transform hover:scale-105"
           >
             🎮 Start Game
           </button>
+          {gameData.dailyChallenge && <DailyChallengePanel challenge={gameData.dailyChallenge} />}
+          <LevelPackPicker gameData={gameData} dispatch={dispatch} />
+          {canEditLevels && (
+            <button
+              onClick={handleOpenEditor}
+              className="px-6 py-2 bg-gray-600 text-white font-medium rounded-lg hover:bg-gray-500 transition-all duration-300"
+            >
+              🛠️ Level Editor
+            </button>
+          )}
+          <form onSubmit={handleOpenReplay} className="flex justify-center space-x-2">
+            <input
+              value={replayId}
+              onChange={event => setReplayId(event.target.value)}
+              placeholder="Replay id"
+              className="px-3 py-2 rounded-lg bg-black bg-opacity-30 text-white text-sm font-mono"
+              aria-label="Replay id"
+            />
+            <button
+              type="submit"
+              disabled={sharedReplay.loading}
+              className="px-4 py-2 bg-gray-600 text-white font-medium rounded-lg hover:bg-gray-500 transition-all duration-300"
+            >
+              {sharedReplay.loading ? 'Loading...' : '🎬 Watch Replay'}
+            </button>
+            {!endless && (
+              <button
+                type="button"
+                onClick={() => void ghost.raceReplay(replayId.trim())}
+                disabled={ghost.loading || !replayId.trim()}
+                className="px-4 py-2 bg-gray-600 text-white font-medium rounded-lg hover:bg-gray-500 transition-all duration-300"
+              >
+                👻 Race
+              </button>
+            )}
+          </form>
+          {sharedReplay.error && <p className="text-sm text-red-300">{sharedReplay.error}</p>}
+          {gameData.ghost ? (
+            <div className="text-sm text-gray-300 space-x-2">
+              <span>
+                👻 Racing u/{gameData.ghost.username}'s {gameData.ghost.score.toLocaleString()} point run
+              </span>
+              <button onClick={ghost.stopRacing} className="text-red-300 hover:text-red-200 font-medium">
+                Stop racing
+              </button>
+            </div>
+          ) : (
+            !endless &&
+            ghost.canRaceTopRun && (
+              <button
+                onClick={() => void ghost.raceTopRun()}
+                disabled={ghost.loading}
+                className="px-6 py-2 bg-gray-600 text-white font-medium rounded-lg hover:bg-gray-500 transition-all duration-300"
+              >
+                {ghost.loading ? 'Loading...' : '👻 Race the Top Run'}
+              </button>
+            )
+          )}
+          {ghost.error && <p className="text-sm text-red-300">{ghost.error}</p>}
+          <VersusPanel versus={versus} />
           <div className="text-sm text-gray-400 space-y-1">
             <p>🖱️ Mouse: Drag to aim, move to control platform</p>
             <p>📱 Touch: Drag to aim, tap zones to move platform</p>
-            <p>⌨️ Keyboard: A/D or Arrow keys to move, Spacebar to pause</p>
+            <p>
+              ⌨️ Keyboard: {keys.p1} or {keys.p2} to move, {keys.pause} to pause
+            </p>
+            <p>🎮 Gamepad: Left stick to move, right stick and trigger to aim, A to launch, Start to pause</p>
           </div>
+          <button
+            onClick={() => setShowKeyBindings(show => !show)}
+            className="px-6 py-2 bg-gray-600 text-white font-medium rounded-lg hover:bg-gray-500 transition-all duration-300"
+          >
+            ⌨️ {showKeyBindings ? 'Hide Key Bindings' : 'Key Bindings'}
+          </button>
+          {showKeyBindings && <KeyBindingsPanel gameData={gameData} dispatch={dispatch} />}
         </div>
       )}
 
@@ -196,6 +482,9 @@ export const GameUI: React.FC<GameUIProps> = ({ gameData, dispatch, isTouchDevic
             </div>
           </div>
           <p className="text-sm text-gray-300">Release to launch the ball</p>
+          <p className="text-sm text-gray-300">
+            ⌨️ {keys.aim} to aim, {keys.power} for power (hold Shift for bigger steps), {keys.launch} to launch
+          </p>
         </div>
       )}
 
@@ -215,6 +504,14 @@ export const GameUI: React.FC<GameUIProps> = ({ gameData, dispatch, isTouchDevic
             >
               🔄 Reset Game
             </button>
+            {playTesting && (
+              <button
+                onClick={handleOpenEditor}
+                className="px-8 py-3 bg-gradient-to-r from-gray-600 to-gray-500 text-white font-bold rounded-lg shadow-lg hover:from-gray-700 hover:to-gray-600 transition-all duration-300 transform hover:scale-105"
+              >
+                🛠️ Back to Editor
+              </button>
+            )}
           </div>
         </div>
       )}
@@ -222,36 +519,95 @@ export const GameUI: React.FC<GameUIProps> = ({ gameData, dispatch, isTouchDevic
       {gameState === 'GAME_OVER' && (
         <div className="text-center space-y-6 bg-gradient-to-br from-red-800 to-red-700 rounded-2xl p-8 shadow-2xl">
           <h2 className="text-4xl font-bold text-white">💀 GAME OVER!</h2>
+          {versusMatch &&
+            (versus.result ? (
+              <p className={`text-3xl font-extrabold ${VERSUS_RESULT_LABELS[versus.result].className}`}>
+                {VERSUS_RESULT_LABELS[versus.result].label}
+              </p>
+            ) : (
+              <p className="text-lg text-gray-200">⏳ Waiting for {versusMatch.opponent} to finish...</p>
+            ))}
+          {versusMatch && versus.opponentFinalScore !== null && (
+            <p className="text-xl text-white">
+              {versusMatch.opponent}'s score:{' '}
+              <span className="font-bold text-yellow-400">{versus.opponentFinalScore.toLocaleString()}</span>
+            </p>
+          )}
           <div className="space-y-4">
             <p className="text-2xl text-white">Final Score: <span className="font-bold text-yellow-400">{scoreData.score.toLocaleString()}</span></p>
+            {endless && <p className="text-xl text-white">Waves survived: {scoreData.level - 1}</p>}
+            {scoreData.paddles && <PaddleScores paddles={scoreData.paddles} keyLabels={[keys.p1, keys.p2]} />}
             <p className="text-xl text-yellow-400">High Score: {scoreData.highScore.toLocaleString()}</p>
             {scoreData.score === scoreData.highScore && (
               <p className="text-lg text-green-400 font-bold">🎉 New High Score!</p>
             )}
           </div>
+          {!versusMatch && <LeaderboardPanel gameData={gameData} />}
           <div className="space-y-4">
             <button
-              onClick={handleResetGame}
+              onClick={handlePlayAgain}
               className="px-8 py-3 bg-gradient-to-r from-blue-600 to-blue-500 text-white font-bold rounded-lg shadow-lg hover:from-blue-700 hover:to-blue-600 transition-all duration-300 transform hover:scale-105"
             >
-              🎮 Play Again
+              {versusMatch ? '🏠 Leave Match' : '🎮 Play Again'}
             </button>
             <button
               className="px-8 py-3 bg-gradient-to-r from-purple-600 to-purple-500 text-white font-bold rounded-lg shadow-lg hover:from-purple-700 hover:to-purple-600 transition-all duration-300 transform hover:scale-105"
             >
               📤 Share Score
             </button>
+            {gameData.runLog && (
+              <>
+                <button
+                  onClick={handleToggleReplay}
+                  className="px-8 py-3 bg-gradient-to-r from-teal-600 to-teal-500 text-white font-bold rounded-lg shadow-lg hover:from-teal-700 hover:to-teal-600 transition-all duration-300 transform hover:scale-105"
+                >
+                  {gameData.replay ? '⏹️ Close Replay' : '🎬 Watch Replay'}
+                </button>
+                {isRankedRun(gameData) && !sharedReplay.sharedId && (
+                  <button
+                    onClick={() => void handleShareReplay()}
+                    disabled={sharedReplay.sharing}
+                    className="px-8 py-3 bg-gradient-to-r from-gray-600 to-gray-500 text-white font-bold rounded-lg shadow-lg hover:from-gray-700 hover:to-gray-600 transition-all duration-300 transform hover:scale-105"
+                  >
+                    {sharedReplay.sharing ? 'Sharing...' : '🔗 Share Replay'}
+                  </button>
+                )}
+              </>
+            )}
+            {sharedReplay.sharedId && (
+              <p className="text-sm text-green-300">
+                Replay id <span className="font-mono font-bold">{sharedReplay.sharedId}</span>
+                {linkCopied && ' · link copied to the clipboard'}
+              </p>
+            )}
+            {sharedReplay.error && <p className="text-sm text-red-300">{sharedReplay.error}</p>}
+            {playTesting && (
+              <button
+                onClick={handleOpenEditor}
+                className="px-8 py-3 bg-gradient-to-r from-gray-600 to-gray-500 text-white font-bold rounded-lg shadow-lg hover:from-gray-700 hover:to-gray-600 transition-all duration-300 transform hover:scale-105"
+              >
+                🛠️ Back to Editor
+              </button>
+            )}
           </div>
         </div>
       )}
 
       {gameState === 'LEVEL_COMPLETE' && (
         <div className="text-center space-y-6 bg-gradient-to-br from-purple-800 to-purple-700 rounded-2xl p-8 shadow-2xl">
-          <h2 className="text-4xl font-bold text-white">🎉 LEVEL COMPLETE!</h2>
+          <h2 className="text-4xl font-bold text-white">
+            {endless ? `🎉 WAVE ${scoreData.level} SURVIVED!` : '🎉 LEVEL COMPLETE!'}
+          </h2>
           <div className="space-y-4">
             <p className="text-xl text-white">
-              Level Score: <span className="font-bold text-green-400">
-                {calculateLevelScore(scoreData.bounceCount, currentLevel.targetBounces, scoreData.timeElapsed, currentLevel.timeLimit)}
+              {levelLabel} Score: <span className="font-bold text-green-400">
+                {calculateLevelScore(
+                  scoreData.bounceCount,
+                  currentLevel.targetBounces,
+                  scoreData.timeElapsed,
+                  currentLevel.timeLimit,
+                  brickLevel || undefined
+                )}
               </span>
             </p>
             <p className="text-lg text-white">Total Score: <span className="font-bold text-yellow-400">{scoreData.score.toLocaleString()}</span></p>
@@ -260,7 +616,7 @@ export const GameUI: React.FC<GameUIProps> = ({ gameData, dispatch, isTouchDevic
             onClick={handleEnterAiming}
             className="px-8 py-3 bg-gradient-to-r from-purple-600 to-purple-500 text-white font-bold rounded-lg shadow-lg hover:from-purple-700 hover:to-purple-600 transition-all duration-300 transform hover:scale-105"
           >
-            🚀 Next Level
+            🚀 Next {levelLabel}
           </button>
         </div>
       )}
@@ -269,7 +625,7 @@ export const GameUI: React.FC<GameUIProps> = ({ gameData, dispatch, isTouchDevic
       <div className="mt-6 text-center text-xs text-gray-500 bg-gray-800 rounded-lg p-3">
         <p>Current Input: <span className="font-bold text-gray-300">{controlState.inputType}</span></p>
         <p>Device: <span className="font-bold text-gray-300">{isTouchDevice ? 'Touch' : 'Mouse/Keyboard'}</span></p>
-        <p className="mt-2">Level {gameData.scoreData.level} | Platform: {gameData.currentLevel.platformWidth}px | Gravity: {gameData.currentLevel.gravity}</p>
+        <p className="mt-2">{levelLabel} {gameData.scoreData.level} | Platform: {gameData.currentLevel.platformWidth}px | Gravity: {gameData.currentLevel.gravity}</p>
       </div>
     </div>
   );
@@ -0,0 +1,85 @@
+import React, { useEffect, useState } from 'react';
+import type { GameAction, GameData } from '../types/game';
+import type { KeyAction } from '../../shared/game/keyBindings';
+import {
+  DEFAULT_KEY_BINDINGS,
+  KEY_ACTIONS,
+  KEY_ACTION_LABELS,
+  findBindingConflict,
+  getKeyActionContext,
+  getKeyLabel,
+} from '../../shared/game/keyBindings';
+
+type KeyBindingsPanelProps = {
+  gameData: GameData;
+  dispatch: (action: GameAction) => void;
+};
+
+// Lists each action's key; picking one waits for the next key press to rebind it.
+// Bindings are saved with the player profile.
+export const KeyBindingsPanel: React.FC<KeyBindingsPanelProps> = ({ gameData, dispatch }) => {
+  const { keyBindings } = gameData;
+  const [listening, setListening] = useState<KeyAction | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Captured ahead of the game's own key handlers so the press only rebinds
+  useEffect(() => {
+    if (!listening) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      event.preventDefault();
+      event.stopImmediatePropagation();
+      setListening(null);
+      if (event.code === 'Escape') return;
+
+      const conflict = findBindingConflict(keyBindings, listening, event.code);
+      if (conflict) {
+        setError(`${getKeyLabel(event.code)} is already used for ${KEY_ACTION_LABELS[conflict].toLowerCase()}`);
+        return;
+      }
+
+      setError(null);
+      dispatch({ type: 'SET_KEY_BINDINGS', payload: { ...keyBindings, [listening]: event.code } });
+    };
+
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [listening, keyBindings, dispatch]);
+
+  const handleReset = () => {
+    setListening(null);
+    setError(null);
+    dispatch({ type: 'SET_KEY_BINDINGS', payload: { ...DEFAULT_KEY_BINDINGS } });
+  };
+
+  return (
+    <div className="bg-black bg-opacity-30 rounded-xl p-4 space-y-2 text-sm">
+      <div className="text-lg font-bold text-white">⌨️ Key Bindings</div>
+      {KEY_ACTIONS.map(action => (
+        <div key={action} className="flex justify-between items-center text-gray-300">
+          <span>
+            {KEY_ACTION_LABELS[action]}{' '}
+            <span className="text-xs text-gray-500">({getKeyActionContext(action)})</span>
+          </span>
+          <button
+            onClick={() => {
+              setError(null);
+              setListening(action);
+            }}
+            className={`min-w-[6rem] px-3 py-1 rounded-lg font-mono font-bold transition-all duration-300 ${
+              listening === action ? 'bg-yellow-500 text-gray-900' : 'bg-gray-600 text-white hover:bg-gray-500'
+            }`}
+          >
+            {listening === action ? 'Press a key' : getKeyLabel(keyBindings[action])}
+          </button>
+        </div>
+      ))}
+      <p className="text-xs text-gray-400">Hold Shift with the aim and power keys for bigger steps</p>
+      {listening && <p className="text-xs text-gray-400">Press Escape to keep the current key</p>}
+      {error && <p className="text-red-300">{error}</p>}
+      <button onClick={handleReset} className="text-gray-300 hover:text-white font-medium">
+        Reset to defaults
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,159 @@
+import React from 'react';
+import type { GameData } from '../types/game';
+import type { LeaderboardEntry, LeaderboardScope } from '../../shared/types/api';
+import { useLeaderboard, LEADERBOARD_PAGE_SIZE } from '../hooks/useLeaderboard';
+
+type LeaderboardPanelProps = {
+  gameData: GameData;
+};
+
+const SCOPE_LABELS: Record<LeaderboardScope, string> = {
+  daily: 'Today',
+  post: 'This Post',
+  subreddit: 'Subreddit',
+  endless: 'Endless',
+  bricks: 'Bricks',
+};
+
+const getRankBadge = (rank: number): string => {
+  if (rank === 1) return '🥇';
+  if (rank === 2) return '🥈';
+  if (rank === 3) return '🥉';
+  return `#${rank}`;
+};
+
+const LeaderboardRow: React.FC<{ entry: LeaderboardEntry; isMe: boolean; levelPrefix: string }> = ({
+  entry,
+  isMe,
+  levelPrefix,
+}) => (
+  <div
+    className={`grid grid-cols-5 gap-2 px-3 py-2 rounded-lg text-sm ${
+      isMe ? 'bg-yellow-600 bg-opacity-40 font-bold' : 'bg-black bg-opacity-30'
+    }`}
+  >
+    <div className="text-left">{getRankBadge(entry.rank)}</div>
+    <div className="col-span-2 text-left truncate text-white">u/{entry.username}</div>
+    <div className="text-right text-yellow-400">{entry.score.toLocaleString()}</div>
+    <div className="text-right text-gray-300">
+      {levelPrefix}
+      {entry.level} · {entry.difficulty}
+    </div>
+  </div>
+);
+
+export const LeaderboardPanel: React.FC<LeaderboardPanelProps> = ({ gameData }) => {
+  const {
+    scope,
+    view,
+    offset,
+    entries,
+    total,
+    myEntry,
+    submission,
+    loading,
+    error,
+    selectScope,
+    setView,
+    nextPage,
+    previousPage,
+    reload,
+  } = useLeaderboard(gameData);
+
+  // Endless and brick-breaker runs are only ranked against runs of their own
+  // mode, and the daily board only exists on daily challenge posts
+  const { gameMode } = gameData;
+  const scopes = (Object.keys(SCOPE_LABELS) as LeaderboardScope[]).filter(option => {
+    if (gameMode !== 'campaign') return option === gameMode;
+    return option !== 'endless' && option !== 'bricks' && (option !== 'daily' || gameData.dailyChallenge);
+  });
+
+  const tabClassName = (active: boolean) =>
+    `px-4 py-1 rounded-full text-sm font-medium transition-all duration-300 ${
+      active ? 'bg-white text-gray-900' : 'bg-black bg-opacity-30 text-gray-200 hover:bg-opacity-50'
+    }`;
+
+  return (
+    <div className="w-full max-w-md mx-auto bg-gradient-to-br from-gray-800 to-gray-700 rounded-xl p-4 shadow-lg space-y-3">
+      <div className="text-lg font-bold text-white">🏆 Leaderboard</div>
+
+      {submission?.isPersonalBest && (
+        <p className="text-sm text-green-400 font-bold">🎉 New personal best recorded!</p>
+      )}
+      {submission?.dailyRank && (
+        <p className="text-sm text-blue-300 font-bold">📅 Today's rank: {getRankBadge(submission.dailyRank)}</p>
+      )}
+      {submission?.endlessRank && (
+        <p className="text-sm text-purple-300 font-bold">♾️ Endless rank: {getRankBadge(submission.endlessRank)}</p>
+      )}
+      {submission?.bricksRank && (
+        <p className="text-sm text-orange-300 font-bold">🧱 Bricks rank: {getRankBadge(submission.bricksRank)}</p>
+      )}
+
+      <div className="flex justify-center space-x-2">
+        {scopes.map(option => (
+          <button key={option} onClick={() => selectScope(option)} className={tabClassName(scope === option)}>
+            {SCOPE_LABELS[option]}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex justify-center space-x-2">
+        <button onClick={() => setView('top')} className={tabClassName(view === 'top')}>
+          Top
+        </button>
+        <button onClick={() => setView('around')} className={tabClassName(view === 'around')} disabled={!myEntry}>
+          Around Me
+        </button>
+      </div>
+
+      {error && (
+        <div className="text-sm text-red-300">
+          {error}{' '}
+          <button onClick={() => void reload()} className="underline hover:text-white">
+            Retry
+          </button>
+        </div>
+      )}
+
+      <div className="space-y-1 min-h-[4rem]">
+        {loading && entries.length === 0 && <p className="text-sm text-gray-400">Loading...</p>}
+        {!loading && entries.length === 0 && !error && (
+          <p className="text-sm text-gray-400">No scores yet. Be the first!</p>
+        )}
+        {entries.map(entry => (
+          <LeaderboardRow
+            key={entry.username}
+            entry={entry}
+            isMe={entry.username === myEntry?.username}
+            levelPrefix={scope === 'endless' ? 'W' : 'L'}
+          />
+        ))}
+      </div>
+
+      {view === 'top' && total > LEADERBOARD_PAGE_SIZE && (
+        <div className="flex justify-between items-center text-sm text-gray-300">
+          <button onClick={previousPage} disabled={offset === 0} className="px-3 py-1 rounded disabled:opacity-40">
+            ◀ Prev
+          </button>
+          <span>
+            {offset + 1}-{Math.min(offset + LEADERBOARD_PAGE_SIZE, total)} of {total}
+          </span>
+          <button
+            onClick={nextPage}
+            disabled={offset + LEADERBOARD_PAGE_SIZE >= total}
+            className="px-3 py-1 rounded disabled:opacity-40"
+          >
+            Next ▶
+          </button>
+        </div>
+      )}
+
+      <div className="text-sm text-gray-300 border-t border-gray-600 pt-2">
+        {myEntry
+          ? `Your rank: ${getRankBadge(myEntry.rank)} of ${total} · best ${myEntry.score.toLocaleString()}`
+          : 'You are not ranked here yet'}
+      </div>
+    </div>
+  );
+};
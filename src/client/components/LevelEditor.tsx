@@ -0,0 +1,298 @@
+import React, { useRef, useEffect, useState } from 'react';
+import type { GameData, GameAction, ObstacleType, WinCondition } from '../types/game';
+import type { LevelEditor as LevelEditorState, LevelTuningField } from '../hooks/useLevelEditor';
+import { OBSTACLE_TYPES, formatLevelPackError } from '../../shared/game/levelPack';
+import { drawBackground, drawGradientPlatform } from '../utils/visualEffects';
+import { getObstacleColor } from '../utils/powerUps';
+import { getObstacleRadius, isRoundObstacle } from '../../shared/game/obstacles';
+import { RESIZE_HANDLE_SIZE, findObstacleAt, isOnResizeHandle, resizeObstacleTo } from '../utils/levelEditor';
+
+type LevelEditorProps = {
+  gameData: GameData;
+  dispatch: (action: GameAction) => void;
+  editor: LevelEditorState;
+};
+
+type DragState = {
+  index: number;
+  mode: 'move' | 'resize';
+  offsetX: number;
+  offsetY: number;
+};
+
+const TUNING_FIELDS: { field: LevelTuningField; label: string; step: number }[] = [
+  { field: 'ballSpeed', label: 'Ball Speed', step: 0.5 },
+  { field: 'platformWidth', label: 'Platform Width', step: 5 },
+  { field: 'platformSpeed', label: 'Platform Speed', step: 0.5 },
+  { field: 'gravity', label: 'Gravity', step: 0.1 },
+  { field: 'bounceCoefficient', label: 'Bounciness', step: 0.05 },
+  { field: 'targetBounces', label: 'Target Bounces', step: 1 },
+  { field: 'timeLimit', label: 'Time Limit (s)', step: 5 },
+];
+
+const OBSTACLE_LABELS: Record<ObstacleType, string> = {
+  'static-block': '🧱 Block',
+  'moving-barrier': '↔️ Barrier',
+  'breakable-brick': '🟧 Brick',
+  'speed-boost': '⚡ Boost',
+  'portal': '🌀 Portals',
+  'bumper': '🔴 Bumper',
+  'wind-zone': '💨 Wind',
+  'gravity-well': '🕳️ Gravity Well',
+};
+
+const DEFAULT_SCORE_TARGET = 1000;
+
+export const LevelEditor: React.FC<LevelEditorProps> = ({ gameData, dispatch, editor }) => {
+  const { config } = gameData;
+  const { draft, selectedIndex, levels, saving, errors, message } = editor;
+  const obstacles = draft.level.obstacles ?? [];
+  const winCondition: WinCondition = draft.level.winCondition ?? { type: 'bounces' };
+
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+  const [openLevelId, setOpenLevelId] = useState('');
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    drawBackground(ctx, config.canvasWidth, config.canvasHeight, draft.level.background);
+
+    (draft.level.obstacles ?? []).forEach((obstacle, index) => {
+      const left = obstacle.x - obstacle.width / 2;
+      const top = obstacle.y - obstacle.height / 2;
+
+      ctx.fillStyle = getObstacleColor(obstacle.type);
+      if (isRoundObstacle(obstacle)) {
+        ctx.beginPath();
+        ctx.arc(obstacle.x, obstacle.y, getObstacleRadius(obstacle), 0, Math.PI * 2);
+        ctx.fill();
+      } else {
+        ctx.fillRect(left, top, obstacle.width, obstacle.height);
+      }
+
+      if (index === selectedIndex) {
+        ctx.strokeStyle = '#ffffff';
+        ctx.lineWidth = 2;
+        ctx.setLineDash([6, 4]);
+        ctx.strokeRect(left, top, obstacle.width, obstacle.height);
+        ctx.setLineDash([]);
+
+        // Resize handle on the bottom-right corner
+        ctx.fillStyle = '#ffffff';
+        ctx.fillRect(
+          left + obstacle.width - RESIZE_HANDLE_SIZE / 2,
+          top + obstacle.height - RESIZE_HANDLE_SIZE / 2,
+          RESIZE_HANDLE_SIZE,
+          RESIZE_HANDLE_SIZE
+        );
+      }
+    });
+
+    // Platform at its starting position, for judging reachability
+    drawGradientPlatform(
+      ctx,
+      config.canvasWidth / 2,
+      config.canvasHeight - config.platformY,
+      draft.level.platformWidth,
+      config.platformHeight,
+      false
+    );
+  }, [config, draft, selectedIndex]);
+
+  // The canvas is scaled down on small screens, so convert to playfield coordinates
+  const getCanvasPoint = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    const canvas = event.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: ((event.clientX - rect.left) * canvas.width) / rect.width,
+      y: ((event.clientY - rect.top) * canvas.height) / rect.height,
+    };
+  };
+
+  const handleMouseDown = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    const { x, y } = getCanvasPoint(event);
+    const selected = selectedIndex !== null ? obstacles[selectedIndex] : undefined;
+
+    if (selected && selectedIndex !== null && isOnResizeHandle(selected, x, y)) {
+      dragRef.current = { index: selectedIndex, mode: 'resize', offsetX: 0, offsetY: 0 };
+      return;
+    }
+
+    const index = findObstacleAt(obstacles, x, y);
+    editor.selectObstacle(index);
+    if (index === null) return;
+
+    const obstacle = obstacles[index]!;
+    dragRef.current = { index, mode: 'move', offsetX: x - obstacle.x, offsetY: y - obstacle.y };
+  };
+
+  const handleMouseMove = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+
+    const obstacle = obstacles[drag.index];
+    if (!obstacle) return;
+
+    const { x, y } = getCanvasPoint(event);
+    editor.updateObstacle(
+      drag.index,
+      drag.mode === 'resize'
+        ? resizeObstacleTo(obstacle, x, y)
+        : { ...obstacle, x: x - drag.offsetX, y: y - drag.offsetY }
+    );
+  };
+
+  const handleMouseUp = () => {
+    dragRef.current = null;
+  };
+
+  const handleWinConditionChange = (type: WinCondition['type']) => {
+    editor.updateLevel({
+      winCondition: type === 'score' ? { type, points: DEFAULT_SCORE_TARGET } : { type },
+    });
+  };
+
+  const handleOpenLevel = () => {
+    if (openLevelId) void editor.openLevel(openLevelId);
+  };
+
+  const inputClassName = 'w-full px-2 py-1 bg-gray-900 text-white rounded border border-gray-600';
+  const buttonClassName =
+    'px-3 py-2 bg-gray-600 text-white text-sm font-medium rounded-lg hover:bg-gray-500 transition-all duration-300 disabled:opacity-50';
+
+  return (
+    <div className="bg-gradient-to-br from-gray-800 to-gray-700 rounded-2xl p-6 shadow-2xl space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h2 className="text-3xl font-bold text-white">🛠️ Level Editor</h2>
+        <div className="flex flex-wrap gap-2">
+          <select
+            value={openLevelId}
+            onChange={event => setOpenLevelId(event.target.value)}
+            className="px-2 py-2 bg-gray-900 text-white text-sm rounded-lg border border-gray-600"
+          >
+            <option value="">Saved levels…</option>
+            {levels.map(level => (
+              <option key={level.id} value={level.id}>
+                {level.name} ({level.author})
+              </option>
+            ))}
+          </select>
+          <button onClick={handleOpenLevel} disabled={!openLevelId} className={buttonClassName}>
+            📂 Load
+          </button>
+          <button onClick={editor.newLevel} className={buttonClassName}>
+            📄 New
+          </button>
+          <button onClick={() => void editor.save()} disabled={saving} className={buttonClassName}>
+            {saving ? '💾 Saving...' : '💾 Save'}
+          </button>
+          <button
+            onClick={editor.playTest}
+            className="px-3 py-2 bg-gradient-to-r from-blue-600 to-purple-600 text-white text-sm font-bold rounded-lg hover:from-blue-700 hover:to-purple-700 transition-all duration-300"
+          >
+            ▶️ Play Test
+          </button>
+          <button onClick={() => dispatch({ type: 'CLOSE_EDITOR' })} className={buttonClassName}>
+            ✖️ Close
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {OBSTACLE_TYPES.map(type => (
+          <button key={type} onClick={() => editor.addObstacle(type)} className={buttonClassName}>
+            {OBSTACLE_LABELS[type]}
+          </button>
+        ))}
+        <button
+          onClick={editor.removeSelected}
+          disabled={selectedIndex === null}
+          className="px-3 py-2 bg-red-700 text-white text-sm font-medium rounded-lg hover:bg-red-600 transition-all duration-300 disabled:opacity-50"
+        >
+          🗑️ Delete
+        </button>
+      </div>
+
+      <div className="flex flex-col lg:flex-row gap-4">
+        <canvas
+          ref={canvasRef}
+          width={config.canvasWidth}
+          height={config.canvasHeight}
+          onMouseDown={handleMouseDown}
+          onMouseMove={handleMouseMove}
+          onMouseUp={handleMouseUp}
+          onMouseLeave={handleMouseUp}
+          className="border-2 border-gray-600 rounded-xl cursor-crosshair shadow-2xl bg-gray-800"
+          style={{ maxWidth: '100%', height: 'auto' }}
+        />
+
+        <div className="flex-1 space-y-3 text-sm text-gray-300">
+          <label className="block">
+            Name
+            <input
+              type="text"
+              value={draft.name}
+              onChange={event => editor.setName(event.target.value)}
+              className={inputClassName}
+            />
+          </label>
+          {TUNING_FIELDS.map(({ field, label, step }) => (
+            <label key={field} className="block">
+              {label}
+              <input
+                type="number"
+                step={step}
+                value={draft.level[field]}
+                onChange={event => editor.setTuning(field, Number(event.target.value))}
+                className={inputClassName}
+              />
+            </label>
+          ))}
+          <label className="block">
+            Win Condition
+            <select
+              value={winCondition.type}
+              onChange={event => handleWinConditionChange(event.target.value as WinCondition['type'])}
+              className={inputClassName}
+            >
+              <option value="bounces">Reach target bounces</option>
+              <option value="score">Reach a score</option>
+              <option value="survive">Survive the time limit</option>
+              <option value="bricks">Break every brick</option>
+            </select>
+          </label>
+          {winCondition.type === 'score' && (
+            <label className="block">
+              Points
+              <input
+                type="number"
+                step={100}
+                value={winCondition.points}
+                onChange={event => editor.updateLevel({ winCondition: { type: 'score', points: Number(event.target.value) } })}
+                className={inputClassName}
+              />
+            </label>
+          )}
+        </div>
+      </div>
+
+      <p className="text-xs text-gray-400">
+        Click an obstacle to select it, drag to move it and drag its corner handle to resize it.
+      </p>
+      {message && <p className="text-sm text-blue-300">{message}</p>}
+      {errors.length > 0 && (
+        <div className="text-left text-xs text-red-300 space-y-1">
+          <p className="font-bold">Fix these before saving or play testing:</p>
+          {errors.map(error => (
+            <p key={`${error.path}:${error.message}`}>• {formatLevelPackError(error)}</p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
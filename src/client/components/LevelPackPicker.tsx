@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import type { GameData, GameAction } from '../types/game';
+import type { LevelPackError } from '../../shared/game/levelPack';
+import { formatLevelPackError, parseLevelPack } from '../../shared/game/levelPack';
+import { isRankedRun } from '../utils/gameApi';
+
+type LevelPackPickerProps = {
+  gameData: GameData;
+  dispatch: (action: GameAction) => void;
+};
+
+const MAX_SHOWN_ERRORS = 8;
+
+export const LevelPackPicker: React.FC<LevelPackPickerProps> = ({ gameData, dispatch }) => {
+  const { levelPack, postLevelPack, config } = gameData;
+  const [errors, setErrors] = useState<LevelPackError[]>([]);
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const input = event.currentTarget;
+    const file = input.files?.[0];
+    if (!file) return;
+
+    const result = parseLevelPack(await file.text(), config);
+    input.value = ''; // Allow picking the same file again after fixing it
+
+    if (!result.ok) {
+      setErrors(result.errors);
+      return;
+    }
+
+    setErrors([]);
+    dispatch({ type: 'LOAD_LEVEL_PACK', payload: result.pack });
+  };
+
+  const handleUsePostLevels = () => {
+    setErrors([]);
+    dispatch({ type: 'LOAD_LEVEL_PACK', payload: postLevelPack });
+  };
+
+  return (
+    <div className="bg-black bg-opacity-30 rounded-xl p-4 space-y-3 text-sm">
+      <div className="text-gray-300">
+        Levels:{' '}
+        <span className="font-bold text-white">
+          {levelPack ? `${levelPack.name} (${levelPack.levels.length})` : 'Built-in'}
+        </span>
+        {levelPack?.author && <span className="text-gray-400"> by {levelPack.author}</span>}
+      </div>
+      <div className="flex justify-center space-x-3">
+        <label className="px-4 py-2 bg-gray-600 text-white font-medium rounded-lg cursor-pointer hover:bg-gray-500 transition-all duration-300">
+          📂 Load Level Pack
+          <input type="file" accept=".json,application/json" className="hidden" onChange={handleFileChange} />
+        </label>
+        {levelPack !== postLevelPack && (
+          <button
+            onClick={handleUsePostLevels}
+            className="px-4 py-2 bg-gray-600 text-white font-medium rounded-lg hover:bg-gray-500 transition-all duration-300"
+          >
+            {postLevelPack ? "Use This Post's Levels" : 'Use Built-in Levels'}
+          </button>
+        )}
+      </div>
+      {!isRankedRun(gameData) && (
+        <p className="text-xs text-yellow-300">Scores on these levels are not posted to the leaderboard</p>
+      )}
+      {errors.length > 0 && (
+        <div className="text-left text-xs text-red-300 space-y-1">
+          <p className="font-bold">This level pack could not be loaded:</p>
+          {errors.slice(0, MAX_SHOWN_ERRORS).map(error => (
+            <p key={`${error.path}:${error.message}`}>• {formatLevelPackError(error)}</p>
+          ))}
+          {errors.length > MAX_SHOWN_ERRORS && <p>…and {errors.length - MAX_SHOWN_ERRORS} more</p>}
+        </div>
+      )}
+    </div>
+  );
+};
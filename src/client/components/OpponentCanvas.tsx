@@ -0,0 +1,72 @@
+import React, { useRef, useEffect } from 'react';
+import type { GameConfig } from '../types/game';
+import type { VersusField } from '../../shared/game/versus';
+import { drawBackground, drawGradientBall, drawGradientPlatform, drawWalls } from '../utils/visualEffects';
+import { getObstacleColor } from '../utils/powerUps';
+import { getObstacleRadius, isRoundObstacle } from '../../shared/game/obstacles';
+
+type OpponentCanvasProps = {
+  field: VersusField | null; // null until the first snapshot arrives
+  config: GameConfig;
+  label: string;
+};
+
+// The opponent's field is drawn at a smaller scale beside the player's own
+const OPPONENT_SCALE = 0.5;
+
+export const OpponentCanvas: React.FC<OpponentCanvasProps> = ({ field, config, label }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+
+    ctx.save();
+    ctx.scale(OPPONENT_SCALE, OPPONENT_SCALE);
+    drawBackground(ctx, config.canvasWidth, config.canvasHeight);
+    drawWalls(ctx, config.canvasWidth, config.canvasHeight);
+
+    if (field) {
+      field.obstacles.forEach(obstacle => {
+        ctx.fillStyle = getObstacleColor(obstacle.type);
+        if (isRoundObstacle(obstacle)) {
+          ctx.beginPath();
+          ctx.arc(obstacle.x, obstacle.y, getObstacleRadius(obstacle), 0, Math.PI * 2);
+          ctx.fill();
+        } else {
+          const { x, y, width, height } = obstacle;
+          ctx.fillRect(x - width / 2, y - height / 2, width, height);
+        }
+      });
+
+      const { platform, ball } = field;
+      drawGradientPlatform(ctx, platform.x, platform.y, platform.width, platform.height);
+      drawGradientBall(ctx, ball.x, ball.y, field.ballRadius, { vx: 0, vy: 0 });
+    }
+    ctx.restore();
+  }, [field, config]);
+
+  return (
+    <div className="flex flex-col items-center space-y-2">
+      <div className="text-sm font-bold text-white">{label}</div>
+      <canvas
+        ref={canvasRef}
+        width={config.canvasWidth * OPPONENT_SCALE}
+        height={config.canvasHeight * OPPONENT_SCALE}
+        className="border-2 border-red-500 rounded-lg shadow-2xl"
+      />
+      <div className="grid grid-cols-3 gap-3 text-xs text-gray-300 text-center">
+        <div>
+          Score <span className="block text-sm font-bold text-white">{field ? field.score.toLocaleString() : '–'}</span>
+        </div>
+        <div>
+          Level <span className="block text-sm font-bold text-green-400">{field?.level ?? '–'}</span>
+        </div>
+        <div>
+          Lives <span className="block text-sm font-bold text-red-400">{field?.lives ?? '–'}</span>
+        </div>
+      </div>
+      {!field && <div className="text-xs text-gray-400">Waiting for the opponent...</div>}
+    </div>
+  );
+};
@@ -0,0 +1,34 @@
+import React from 'react';
+import type { PaddleScore } from '../types/game';
+
+type PaddleScoresProps = {
+  paddles: PaddleScore[];
+  keyLabels: string[]; // the keys that move each paddle
+};
+
+const PADDLE_COLORS = ['text-blue-400', 'text-pink-400'];
+
+// What each co-op player has contributed to the shared score
+export const PaddleScores: React.FC<PaddleScoresProps> = ({ paddles, keyLabels }) => (
+  <div className="w-full max-w-4xl grid grid-cols-2 gap-3">
+    {paddles.map((paddle, index) => (
+      <div key={index} className="bg-black bg-opacity-30 rounded-xl px-4 py-2 text-sm text-gray-300">
+        <div className={`font-bold ${PADDLE_COLORS[index] ?? 'text-white'}`}>
+          P{index + 1}
+          {keyLabels[index] && ` · ${keyLabels[index]}`}
+        </div>
+        <div className="flex justify-between">
+          <span>
+            Score <span className="font-bold text-yellow-400">{paddle.score.toLocaleString()}</span>
+          </span>
+          <span>
+            Bounces <span className="font-bold text-white">{paddle.bounces}</span>
+          </span>
+          <span>
+            Best combo <span className="font-bold text-green-400">{paddle.bestCombo}</span>
+          </span>
+        </div>
+      </div>
+    ))}
+  </div>
+);
@@ -0,0 +1,47 @@
+import React from 'react';
+import type { ReplayPlayer } from '../hooks/useReplayPlayer';
+import { REPLAY_SPEEDS } from '../hooks/useReplayPlayer';
+import { STEP_MS } from '../../shared/game/world';
+
+type ReplayControlsProps = {
+  player: ReplayPlayer;
+};
+
+const formatTicks = (ticks: number): string => {
+  const seconds = Math.floor((ticks * STEP_MS) / 1000);
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+};
+
+export const ReplayControls: React.FC<ReplayControlsProps> = ({ player }) => {
+  const { tick, length, playing, speed, togglePlaying, seek, setSpeed } = player;
+
+  const buttonClassName = (active: boolean) =>
+    `px-3 py-1 rounded-full text-sm font-medium transition-all duration-300 ${
+      active ? 'bg-white text-gray-900' : 'bg-black bg-opacity-30 text-gray-200 hover:bg-opacity-50'
+    }`;
+
+  return (
+    <div className="mt-3 bg-gray-800 rounded-xl p-3 shadow-lg flex items-center space-x-3">
+      <button onClick={togglePlaying} className={buttonClassName(false)} aria-label={playing ? 'Pause' : 'Play'}>
+        {playing ? '⏸️' : '▶️'}
+      </button>
+      <input
+        type="range"
+        min={0}
+        max={length}
+        value={tick}
+        onChange={event => seek(Number(event.target.value))}
+        className="flex-1"
+        aria-label="Replay position"
+      />
+      <span className="text-xs text-gray-300 font-mono">
+        {formatTicks(tick)} / {formatTicks(length)}
+      </span>
+      {REPLAY_SPEEDS.map(option => (
+        <button key={option} onClick={() => setSpeed(option)} className={buttonClassName(speed === option)}>
+          {option}x
+        </button>
+      ))}
+    </div>
+  );
+};
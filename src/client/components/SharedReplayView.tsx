@@ -0,0 +1,66 @@
+import React from 'react';
+import type { GameAction, GameMode, SharedReplay } from '../types/game';
+import type { ReplayPlayer } from '../hooks/useReplayPlayer';
+
+type SharedReplayViewProps = {
+  sharedReplay: SharedReplay;
+  player: ReplayPlayer;
+  dispatch: (action: GameAction) => void;
+  children: React.ReactNode; // the canvas playing the replay
+};
+
+const REPLAY_MODE_LABELS: Record<GameMode, string> = {
+  campaign: 'Campaign',
+  endless: 'Endless mode',
+  bricks: 'Brick-breaker mode',
+};
+
+// Read-only view of a replay opened from a share link. The result shown is the
+// one the server replayed when the replay was shared.
+export const SharedReplayView: React.FC<SharedReplayViewProps> = ({ sharedReplay, player, dispatch, children }) => {
+  const { username, scoreData, replay } = sharedReplay;
+  const finished = player.world !== null && player.tick >= player.length;
+  const levelLabel = replay.mode === 'endless' ? 'Wave' : 'Level';
+
+  return (
+    <div className="flex flex-col items-center space-y-4">
+      <div className="w-full max-w-4xl flex justify-between items-center bg-gradient-to-r from-gray-800 to-gray-700 rounded-xl p-4 shadow-lg">
+        <div className="text-left">
+          <div className="text-lg font-bold text-white">🎬 u/{username}'s run</div>
+          <div className="text-sm text-gray-300">
+            {REPLAY_MODE_LABELS[replay.mode]} · {scoreData.score.toLocaleString()} points
+          </div>
+        </div>
+        <button
+          onClick={() => dispatch({ type: 'CLOSE_REPLAY' })}
+          className="px-6 py-2 bg-gray-600 text-white font-medium rounded-lg hover:bg-gray-500 transition-all duration-300"
+        >
+          ✖️ Close Replay
+        </button>
+      </div>
+
+      <div className="relative">
+        {children}
+        {finished && (
+          <div className="absolute inset-x-0 top-1/4 flex justify-center pointer-events-none">
+            <div className="bg-black bg-opacity-75 rounded-2xl px-8 py-6 text-center space-y-2 shadow-2xl">
+              <div className="text-2xl font-bold text-white">🏁 Final Score</div>
+              <div className="text-4xl font-extrabold text-yellow-400">{scoreData.score.toLocaleString()}</div>
+              <div className="grid grid-cols-3 gap-4 text-sm text-gray-300">
+                <div>
+                  {levelLabel} <span className="block text-lg font-bold text-green-400">{scoreData.level}</span>
+                </div>
+                <div>
+                  Bounces <span className="block text-lg font-bold text-blue-400">{scoreData.bounceCount}</span>
+                </div>
+                <div>
+                  Combos <span className="block text-lg font-bold text-pink-400">{scoreData.comboCount}</span>
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
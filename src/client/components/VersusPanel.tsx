@@ -0,0 +1,46 @@
+import React from 'react';
+import type { VersusState } from '../hooks/useVersus';
+import { VERSUS_COMBO_STEP } from '../../shared/game/versus';
+
+type VersusPanelProps = {
+  versus: VersusState;
+};
+
+// Menu entry for versus mode: find an opponent on this post or practice against a bot
+export const VersusPanel: React.FC<VersusPanelProps> = ({ versus }) => {
+  const { searching, error, findMatch, cancelSearch, practice } = versus;
+
+  return (
+    <div className="bg-black bg-opacity-30 rounded-xl p-4 space-y-3">
+      <div className="text-lg font-bold text-white">⚔️ Versus</div>
+      <p className="text-sm text-gray-300">
+        Race another player on this post. Every {VERSUS_COMBO_STEP} platform bounces in a row drops an obstacle or
+        speeds up the ball on their side.
+      </p>
+      {searching ? (
+        <div className="flex justify-center items-center space-x-3">
+          <span className="text-sm text-gray-200">🔍 Waiting for an opponent...</span>
+          <button onClick={cancelSearch} className="text-red-300 hover:text-red-200 font-medium text-sm">
+            Cancel
+          </button>
+        </div>
+      ) : (
+        <div className="flex justify-center space-x-2">
+          <button
+            onClick={() => void findMatch()}
+            className="px-6 py-2 bg-gradient-to-r from-red-600 to-orange-600 text-white font-bold rounded-lg hover:from-red-700 hover:to-orange-700 transition-all duration-300"
+          >
+            ⚔️ Find Opponent
+          </button>
+          <button
+            onClick={practice}
+            className="px-6 py-2 bg-gray-600 text-white font-medium rounded-lg hover:bg-gray-500 transition-all duration-300"
+          >
+            🤖 Practice
+          </button>
+        </div>
+      )}
+      {error && <p className="text-sm text-red-300">{error}</p>}
+    </div>
+  );
+};
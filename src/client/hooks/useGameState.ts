@@ -1,4 +1,4 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import type {
   GameData,
   GameAction,
@@ -10,7 +10,9 @@ import type {
   ScoreData,
   AimData,
   ControlState,
-  GameState
+  GameState,
+  GameMode,
+  VersusMatch,
 } from '../types/game';
 import {
   createDefaultGameConfig,
@@ -21,7 +23,7 @@ import {
   createInitialAimData,
   createInitialControlState,
   createInitialVisualEffects,
-  createInitialBallTrail,
+  createInitialBallTrails,
   createInitialScreenShake,
   createInitialPowerUps,
   createInitialActivePowerUps,
@@ -29,27 +31,61 @@ import {
   createInitialAchievements,
   createInitialDifficultyMode,
   createInitialAudioSettings,
+  createInitialKeyBindings,
   createInitialSoundEffects,
   createInitialMultiBalls,
+  createInitialBallCombos,
   createInitialShieldBounces,
   createInitialMagneticRange,
-  updateBallPhysics,
-  launchBall,
-  checkWallCollision,
-  checkCeilingCollision,
-  checkPlatformCollision,
-  checkFloorCollision,
-  updatePlatformPosition,
-  calculateBounceScore,
-  updateScoreData,
+  createInitialSyncStatus,
+  createInitialProfile,
   resetCombo,
-  loseLife,
-  nextLevel,
   updateHighScore,
   calculateAimAngle,
   calculateAimPower,
-  calculateTrajectoryPoints,
+  calculateTrajectoryPreview,
+  getAimLineEnd,
+  clamp,
 } from '../utils/gameLogic';
+import {
+  fetchGameInit,
+  postGameAction,
+  submitHighScore,
+  getSyncAction,
+  createGameActionRequest,
+  getSyncErrorStatus,
+  isRankedRun,
+} from '../utils/gameApi';
+import type { GameActionRequest } from '../../shared/types/api';
+import { createAchievements } from '../utils/powerUps';
+import { applyProfileAchievements, recordProfileRun } from '../utils/profile';
+import {
+  createRunRecorder,
+  createRunSeed,
+  recordRunStep,
+  recordRunLaunch,
+  recordRunCommands,
+  encodeRunLog,
+} from '../../shared/game/runLog';
+import type { LoadedLevelPack } from '../../shared/game/levelPack';
+import type { DailyChallenge } from '../../shared/game/dailyChallenge';
+import { createPackGameConfig, formatLevelPackError, loadLevelPack } from '../../shared/game/levelPack';
+import type { PhysicsWorld, WorldCommand, WorldEvent } from '../../shared/game/world';
+import { createEndlessGameConfig } from '../../shared/game/endless';
+import { createBrickBreakerGameConfig } from '../../shared/game/brickBreaker';
+import { createCoopGameConfig } from '../../shared/game/coop';
+import { getMagneticRange } from '../../shared/game/powerUps';
+import type { KeyAction } from '../../shared/game/keyBindings';
+import type { PaddleInput } from '../utils/paddleInput';
+import { createPaddleInput, sampleWorldInput } from '../utils/paddleInput';
+import { updateBallTrails } from '../utils/visualEffects';
+import { getBoundAction } from '../../shared/game/keyBindings';
+import {
+  createPhysicsWorld,
+  launchWorldBall,
+  stepWorld,
+  advanceClock,
+} from '../../shared/game/world';
 
 const createInitialGameData = (): GameData => {
   const config = createDefaultGameConfig();
@@ -60,6 +96,7 @@ const createInitialGameData = (): GameData => {
     scoreData: createInitialScoreData(),
     ballPhysics: createInitialBallPhysics(config, levelConfig),
     platform: createInitialPlatform(config, levelConfig),
+    partnerPlatform: null,
     config,
     collisionState: createInitialCollisionState(),
     currentLevel: levelConfig,
@@ -68,7 +105,7 @@ const createInitialGameData = (): GameData => {
     aimData: createInitialAimData(config),
     controlState: createInitialControlState(),
     visualEffects: createInitialVisualEffects(),
-    ballTrail: createInitialBallTrail(),
+    ballTrails: createInitialBallTrails(),
     screenShake: createInitialScreenShake(),
     powerUps: createInitialPowerUps(),
     activePowerUps: createInitialActivePowerUps(),
@@ -76,44 +113,246 @@ const createInitialGameData = (): GameData => {
     achievements: createInitialAchievements(),
     difficultyMode: createInitialDifficultyMode(),
     audioSettings: createInitialAudioSettings(),
+    keyBindings: createInitialKeyBindings(),
     soundEffects: createInitialSoundEffects(),
     multiBalls: createInitialMultiBalls(),
+    ballCombos: createInitialBallCombos(),
     shieldBounces: createInitialShieldBounces(),
     magneticRange: createInitialMagneticRange(),
+    syncStatus: createInitialSyncStatus(),
+    profile: createInitialProfile(),
+    levelPack: null,
+    postLevelPack: null,
+    playTesting: false,
+    dailyChallenge: null,
+    gameMode: 'campaign',
+    coop: false,
+    modeHighScores: { campaign: 0, endless: 0, bricks: 0 },
+    worldEvents: [],
+    runLog: null,
+    replay: null,
+    sharedReplay: null,
+    ghost: null,
+    worldTick: 0,
+    versus: null,
   };
 };
 
+// Game config for a level pack, or for the built-in levels when there is none
+const createLevelsConfig = (pack: LoadedLevelPack | null): GameConfig =>
+  pack ? createPackGameConfig(createDefaultGameConfig(), pack) : createDefaultGameConfig();
+
+// The levels a run in the given mode plays, from the levels picked for the campaign
+const createModeConfig = (mode: GameMode, config: GameConfig): GameConfig => {
+  if (mode === 'endless') return createEndlessGameConfig(config);
+  if (mode === 'bricks') return createBrickBreakerGameConfig(config);
+  return config;
+};
+
+// Copies the simulated state into the fields the components render. High
+// scores are tracked per mode outside the simulation, so they come from state.
+const projectWorld = (prev: GameData, world: PhysicsWorld) => ({
+  ballPhysics: world.ballPhysics,
+  platform: world.platform,
+  partnerPlatform: world.partnerPlatform,
+  obstacles: world.obstacles,
+  collisionState: world.collisionState,
+  currentLevel: world.currentLevel,
+  config: world.config,
+  scoreData: { ...world.scoreData, highScore: prev.modeHighScores[world.config.mode ?? 'campaign'] },
+  powerUps: world.pickups,
+  activePowerUps: world.activePowerUps,
+  multiBalls: world.extraBalls,
+  ballCombos: world.ballCombos,
+  shieldBounces: world.shieldBounces,
+  magneticRange: getMagneticRange(world.activePowerUps),
+  worldTick: world.tick,
+});
+
 export const useGameState = () => {
   const [gameData, setGameData] = useState<GameData>(createInitialGameData());
   const animationFrameRef = useRef<number>();
   const lastTimeRef = useRef<number>(0);
   const levelStartTimeRef = useRef<number>(0);
+  const pendingSyncActionsRef = useRef<GameActionRequest['action'][]>([]);
+  const syncQueueRef = useRef<GameActionRequest[]>([]);
+  const isSyncingRef = useRef(false);
+  const runRecorderRef = useRef(createRunRecorder(createRunSeed()));
+  const gameConfigRef = useRef(createDefaultGameConfig());
+  const postLevelPackRef = useRef<LoadedLevelPack | null>(null);
+  const dailyChallengeRef = useRef<DailyChallenge | null>(null);
+  const gameModeRef = useRef<GameMode>('campaign');
+  const versusRef = useRef<VersusMatch | null>(null);
+  const coopRef = useRef(false);
+  const worldRef = useRef(createPhysicsWorld(gameConfigRef.current, runRecorderRef.current.seed));
+  const accumulatorRef = useRef(0);
+  const paddleInputsRef = useRef<PaddleInput[]>([createPaddleInput(), createPaddleInput()]);
+  const paddleVelocitiesRef = useRef<number[]>([0, 0]);
+  // Commands wait here for the world's next step, which records and applies them
+  const pendingCommandsRef = useRef<WorldCommand[]>([]);
+  const submittedRunLogRef = useRef<GameData['runLog']>(null);
+
+  // Ends the run, freezes its input log for score submission and adds it to the profile stats
+  const finishRun = (
+    prev: GameData
+  ): Pick<GameData, 'gameState' | 'scoreData' | 'modeHighScores' | 'runLog' | 'profile'> => {
+    const scoreData = updateHighScore(prev.scoreData);
+
+    return {
+      gameState: 'GAME_OVER' as GameState,
+      scoreData,
+      modeHighScores: { ...prev.modeHighScores, [prev.gameMode]: scoreData.highScore },
+      runLog: encodeRunLog(runRecorderRef.current),
+      // Play tests, other modes' runs, co-op runs and versus matches do not count towards the campaign's lifetime stats
+      profile: prev.profile && !prev.playTesting && !prev.coop && !prev.versus && prev.gameMode === 'campaign'
+        ? recordProfileRun(prev.profile, prev.scoreData, prev.difficultyMode)
+        : prev.profile,
+    };
+  };
+
+  // Starts a fresh run, recorded from tick 0, on the given levels. Daily
+  // challenge runs all share the day's seed so everyone gets the same spawns,
+  // and both players of a versus match share the match's.
+  // In endless and brick-breaker modes the levels are kept for later and the
+  // mode's own waves or brick levels are played instead.
+  const resetWorld = (config: GameConfig) => {
+    gameConfigRef.current = config;
+    runRecorderRef.current = createRunRecorder(
+      versusRef.current?.seed ?? dailyChallengeRef.current?.seed ?? createRunSeed()
+    );
+    const modeConfig = createModeConfig(gameModeRef.current, config);
+    worldRef.current = createPhysicsWorld(
+      coopRef.current ? createCoopGameConfig(modeConfig) : modeConfig,
+      runRecorderRef.current.seed
+    );
+    paddleVelocitiesRef.current = [0, 0];
+    pendingCommandsRef.current = [];
+  };
+
+  const applyAction = useCallback((action: GameAction) => {
+    // Inputs that drive the simulation are applied to the world here, outside
+    // the state updater; the reducer below only projects the resulting world.
+    switch (action.type) {
+      case 'SET_DAILY_CHALLENGE':
+        dailyChallengeRef.current = action.payload;
+        break;
+      case 'BIND_POST_LEVEL_PACK':
+        postLevelPackRef.current = action.payload;
+        resetWorld(createLevelsConfig(action.payload));
+        break;
+      case 'LOAD_LEVEL_PACK':
+      case 'PLAY_TEST_LEVEL':
+        // Levels are played in the campaign, so loading some leaves endless mode
+        gameModeRef.current = 'campaign';
+        resetWorld(createLevelsConfig(action.payload));
+        break;
+      case 'SET_GAME_MODE':
+        gameModeRef.current = action.payload;
+        resetWorld(gameConfigRef.current);
+        break;
+      case 'SET_COOP':
+        coopRef.current = action.payload;
+        resetWorld(gameConfigRef.current);
+        break;
+      case 'CLOSE_EDITOR':
+        // Back to the levels this post is played on
+        resetWorld(createLevelsConfig(postLevelPackRef.current));
+        break;
+      case 'START_VERSUS':
+        // Matches are played on the post's levels
+        versusRef.current = action.payload;
+        gameModeRef.current = 'campaign';
+        coopRef.current = false; // each versus player has a device to themselves
+        resetWorld(createLevelsConfig(postLevelPackRef.current));
+        break;
+      case 'VERSUS_ATTACK':
+        pendingCommandsRef.current.push({ type: 'versusAttack', attack: action.payload });
+        break;
+      case 'REMOVE_MULTI_BALL':
+        pendingCommandsRef.current.push({ type: 'removeBall', ballId: action.payload });
+        break;
+      case 'SPAWN_OBSTACLE':
+        pendingCommandsRef.current.push({ type: 'addObstacle', obstacle: action.payload });
+        break;
+      case 'UPDATE_OBSTACLE':
+        pendingCommandsRef.current.push({ type: 'updateObstacle', obstacle: action.payload });
+        break;
+      case 'REMOVE_OBSTACLE':
+        pendingCommandsRef.current.push({ type: 'removeObstacle', obstacleId: action.payload });
+        break;
+      case 'START_GAME':
+      case 'RESET_GAME':
+        versusRef.current = null;
+        resetWorld(gameConfigRef.current);
+        break;
+      case 'LAUNCH_BALL': {
+        const world = worldRef.current;
+        if (world.phase !== 'aiming') return;
+        recordRunLaunch(runRecorderRef.current, world.tick, action.payload);
+        worldRef.current = launchWorldBall(world, action.payload);
+        paddleVelocitiesRef.current = [0, 0];
+        break;
+      }
+      case 'UPDATE_PADDLE_INPUT': {
+        // Sampled by the next world step, which moves the rendered platform
+        const input = paddleInputsRef.current[action.payload.paddle];
+        if (input) Object.assign(input, action.payload.input);
+        return;
+      }
+    }
 
-  const dispatch = useCallback((action: GameAction) => {
     setGameData(prev => {
       switch (action.type) {
-        case 'START_GAME':
-          const config = createDefaultGameConfig();
-          const levelConfig = config.levels[0];
+        case 'START_GAME': {
+          const world = worldRef.current;
+          levelStartTimeRef.current = Date.now();
+
+          return {
+            ...prev,
+            ...projectWorld(prev, world),
+            gameState: 'AIMING' as GameState,
+            levelStartTime: levelStartTimeRef.current,
+            lastBounceTime: 0,
+            aimData: createInitialAimData(world.config),
+            controlState: createInitialControlState(),
+            visualEffects: createInitialVisualEffects(),
+            ballTrails: createInitialBallTrails(),
+            screenShake: createInitialScreenShake(),
+            worldEvents: [],
+            runLog: null,
+            replay: null,
+            sharedReplay: null,
+            versus: null,
+          };
+        }
+
+        case 'START_VERSUS': {
+          const world = worldRef.current;
           levelStartTimeRef.current = Date.now();
 
           return {
             ...prev,
+            ...projectWorld(prev, world),
             gameState: 'AIMING' as GameState,
-            scoreData: createInitialScoreData(),
-            ballPhysics: createInitialBallPhysics(config, levelConfig),
-            platform: createInitialPlatform(config, levelConfig),
-            config,
-            collisionState: createInitialCollisionState(),
-            currentLevel: levelConfig,
+            levelPack: prev.postLevelPack,
+            gameMode: 'campaign',
+            coop: false,
+            ghost: null,
+            playTesting: false,
+            versus: action.payload,
             levelStartTime: levelStartTimeRef.current,
             lastBounceTime: 0,
-            aimData: createInitialAimData(config),
+            aimData: createInitialAimData(world.config),
             controlState: createInitialControlState(),
             visualEffects: createInitialVisualEffects(),
-            ballTrail: createInitialBallTrail(),
+            ballTrails: createInitialBallTrails(),
             screenShake: createInitialScreenShake(),
+            worldEvents: [],
+            runLog: null,
+            replay: null,
+            sharedReplay: null,
           };
+        }
 
         case 'ENTER_AIMING':
           return { ...prev, gameState: 'AIMING' as GameState };
@@ -122,8 +361,8 @@ export const useGameState = () => {
           levelStartTimeRef.current = Date.now();
           return {
             ...prev,
+            ...projectWorld(prev, worldRef.current),
             gameState: 'PLAYING' as GameState,
-            ballPhysics: launchBall(prev.ballPhysics, action.payload.angle, action.payload.power, prev.config),
             levelStartTime: levelStartTimeRef.current,
           };
 
@@ -133,110 +372,169 @@ export const useGameState = () => {
         case 'RESUME_GAME':
           return { ...prev, gameState: 'PLAYING' as GameState };
 
-        case 'RESET_GAME':
-          const resetConfig = createDefaultGameConfig();
-          const resetLevelConfig = resetConfig.levels[0];
+        case 'RESET_GAME': {
+          const world = worldRef.current;
 
           return {
             ...prev,
+            ...projectWorld(prev, world),
             gameState: 'MENU' as GameState,
-            scoreData: createInitialScoreData(),
-            ballPhysics: createInitialBallPhysics(resetConfig, resetLevelConfig),
-            platform: createInitialPlatform(resetConfig, resetLevelConfig),
-            config: resetConfig,
-            collisionState: createInitialCollisionState(),
-            currentLevel: resetLevelConfig,
             levelStartTime: 0,
             lastBounceTime: 0,
-            aimData: createInitialAimData(resetConfig),
+            aimData: createInitialAimData(world.config),
             controlState: createInitialControlState(),
             visualEffects: createInitialVisualEffects(),
-            ballTrail: createInitialBallTrail(),
+            ballTrails: createInitialBallTrails(),
             screenShake: createInitialScreenShake(),
+            worldEvents: [],
+            runLog: null,
+            replay: null,
+            sharedReplay: null,
+            versus: null,
           };
+        }
 
-        case 'UPDATE_BALL_PHYSICS':
-          return { ...prev, ballPhysics: action.payload };
-
-        case 'UPDATE_PLATFORM_POSITION':
+        case 'LOAD_LEVEL_PACK':
           return {
             ...prev,
-            platform: updatePlatformPosition(prev.platform, action.payload, prev.config),
+            ...projectWorld(prev, worldRef.current),
+            levelPack: action.payload,
+            gameMode: 'campaign',
+            ghost: null, // ghosts only race on the levels they were recorded on
           };
 
-        case 'UPDATE_SCORE':
+        case 'SET_GAME_MODE':
           return {
             ...prev,
-            scoreData: { ...prev.scoreData, ...action.payload },
+            ...projectWorld(prev, worldRef.current),
+            gameMode: action.payload,
+            ghost: null,
           };
 
-        case 'SET_GAME_STATE':
-          return { ...prev, gameState: action.payload };
+        case 'SET_COOP':
+          return { ...prev, ...projectWorld(prev, worldRef.current), coop: action.payload };
 
-        case 'SET_COLLISION_STATE':
-          return { ...prev, collisionState: action.payload };
-
-        case 'BALL_BOUNCE':
-          const bounceScore = calculateBounceScore(
-            action.payload.surface,
-            action.payload.hitPosition || 0,
-            prev.scoreData.multiplier
-          );
+        case 'SET_GHOST':
+          return { ...prev, ghost: action.payload };
 
-          const newScoreData = updateScoreData(
-            prev.scoreData,
-            bounceScore,
-            action.payload.surface,
-            action.payload.hitPosition || 0
-          );
+        case 'LOAD_HIGH_SCORES':
+          return {
+            ...prev,
+            modeHighScores: action.payload,
+            scoreData: { ...prev.scoreData, highScore: action.payload[prev.gameMode] },
+          };
 
+        case 'BIND_POST_LEVEL_PACK':
           return {
             ...prev,
-            scoreData: newScoreData,
-            lastBounceTime: Date.now(),
+            ...projectWorld(prev, worldRef.current),
+            levelPack: action.payload,
+            postLevelPack: action.payload,
           };
 
-        case 'LOSE_LIFE':
-          const updatedScoreData = loseLife(prev.scoreData);
-          const newGameState = updatedScoreData.lives <= 0 ? 'GAME_OVER' as GameState : 'AIMING' as GameState;
+        case 'SET_DAILY_CHALLENGE':
+          return { ...prev, dailyChallenge: action.payload };
 
+        case 'WATCH_REPLAY':
+          return { ...prev, replay: action.payload, sharedReplay: null };
+
+        case 'WATCH_SHARED_REPLAY':
+          return { ...prev, replay: action.payload.replay, sharedReplay: action.payload };
+
+        case 'CLOSE_REPLAY':
+          return { ...prev, replay: null, sharedReplay: null };
+
+        case 'OPEN_EDITOR':
+          return { ...prev, gameState: 'EDITOR' as GameState, playTesting: false };
+
+        case 'CLOSE_EDITOR':
           return {
             ...prev,
-            scoreData: updatedScoreData,
-            gameState: newGameState,
-            ballPhysics: createInitialBallPhysics(prev.config, prev.currentLevel),
+            ...projectWorld(prev, worldRef.current),
+            gameState: 'MENU' as GameState,
+            levelPack: prev.postLevelPack,
+            playTesting: false,
           };
 
-        case 'NEXT_LEVEL':
-          const nextLevelConfig = prev.config.levels.find(level => level.level === prev.scoreData.level + 1);
-          if (!nextLevelConfig) {
-            return {
-              ...prev,
-              gameState: 'GAME_OVER' as GameState,
-              scoreData: updateHighScore(prev.scoreData),
-            };
-          }
-
-          const nextScoreData = nextLevel(prev.scoreData);
+        case 'PLAY_TEST_LEVEL': {
+          const world = worldRef.current;
           levelStartTimeRef.current = Date.now();
 
           return {
             ...prev,
+            ...projectWorld(prev, world),
             gameState: 'AIMING' as GameState,
-            scoreData: nextScoreData,
-            ballPhysics: createInitialBallPhysics(prev.config, nextLevelConfig),
-            platform: createInitialPlatform(prev.config, nextLevelConfig),
-            currentLevel: nextLevelConfig,
+            levelPack: action.payload,
+            gameMode: 'campaign',
+            ghost: null,
+            playTesting: true,
             levelStartTime: levelStartTimeRef.current,
             lastBounceTime: 0,
-            aimData: createInitialAimData(prev.config),
+            aimData: createInitialAimData(world.config),
+            controlState: createInitialControlState(),
+            visualEffects: createInitialVisualEffects(),
+            ballTrails: createInitialBallTrails(),
+            screenShake: createInitialScreenShake(),
+            worldEvents: [],
+            runLog: null,
+          };
+        }
+
+        case 'UPDATE_BALL_PHYSICS':
+          return { ...prev, ballPhysics: action.payload };
+
+        case 'UPDATE_SCORE':
+          return {
+            ...prev,
+            scoreData: { ...prev.scoreData, ...action.payload },
           };
 
+        case 'SET_GAME_STATE':
+          return { ...prev, gameState: action.payload };
+
+        case 'SET_COLLISION_STATE':
+          return { ...prev, collisionState: action.payload };
+
+        case 'WORLD_UPDATED': {
+          const { world, events } = action.payload;
+          const next: GameData = {
+            ...prev,
+            ...projectWorld(prev, world),
+            // Trails only follow balls in flight, so a new launch starts without one
+            ballTrails:
+              world.phase === 'playing'
+                ? updateBallTrails(prev.ballTrails, [world.ballPhysics, ...world.extraBalls])
+                : createInitialBallTrails(),
+            worldEvents: events,
+            lastBounceTime: events.some(event => event.type === 'bounce') ? Date.now() : prev.lastBounceTime,
+          };
+
+          if (world.phase === 'over') {
+            return { ...next, ...finishRun(next) };
+          }
+
+          if (world.phase === 'aiming') {
+            if (!events.some(event => event.type === 'levelComplete')) {
+              return { ...next, gameState: 'AIMING' as GameState };
+            }
+
+            levelStartTimeRef.current = Date.now();
+            return {
+              ...next,
+              gameState: 'AIMING' as GameState,
+              levelStartTime: levelStartTimeRef.current,
+              lastBounceTime: 0,
+              aimData: createInitialAimData(world.config),
+            };
+          }
+
+          return next;
+        }
+
         case 'GAME_OVER':
           return {
             ...prev,
-            gameState: 'GAME_OVER' as GameState,
-            scoreData: updateHighScore(prev.scoreData),
+            ...finishRun(prev),
           };
 
         case 'UPDATE_TIME':
@@ -278,12 +576,6 @@ export const useGameState = () => {
             visualEffects: prev.visualEffects.filter(effect => effect.id !== action.payload),
           };
 
-        case 'UPDATE_BALL_TRAIL':
-          return {
-            ...prev,
-            ballTrail: action.payload,
-          };
-
         case 'SCREEN_SHAKE':
           return {
             ...prev,
@@ -294,103 +586,213 @@ export const useGameState = () => {
             },
           };
 
+        case 'SET_SYNC_STATUS':
+          return { ...prev, syncStatus: action.payload };
+
+        case 'LOAD_PROFILE':
+          return {
+            ...prev,
+            profile: action.payload,
+            achievements: applyProfileAchievements(createAchievements(), action.payload.achievements),
+            difficultyMode: action.payload.settings.difficulty,
+            audioSettings: { ...action.payload.settings.audio },
+            keyBindings: { ...action.payload.settings.keyBindings },
+          };
+
+        case 'SET_DIFFICULTY_MODE':
+          return { ...prev, difficultyMode: action.payload };
+
+        case 'UPDATE_AUDIO_SETTINGS':
+          return {
+            ...prev,
+            audioSettings: { ...prev.audioSettings, ...action.payload },
+          };
+
+        case 'SET_KEY_BINDINGS':
+          return { ...prev, keyBindings: action.payload };
+
+        case 'UNLOCK_ACHIEVEMENT':
+          return {
+            ...prev,
+            achievements: prev.achievements.map(achievement =>
+              achievement.id === action.payload && !achievement.unlocked
+                ? { ...achievement, unlocked: true, unlockedAt: Date.now() }
+                : achievement
+            ),
+          };
+
+        case 'UPDATE_ACHIEVEMENT_PROGRESS':
+          return {
+            ...prev,
+            achievements: prev.achievements.map(achievement =>
+              achievement.id === action.payload.id
+                ? { ...achievement, progress: Math.max(achievement.progress, action.payload.progress) }
+                : achievement
+            ),
+          };
+
         default:
           return prev;
       }
     });
   }, []);
 
-  const gameLoop = useCallback((currentTime: number) => {
-    if (gameData.gameState !== 'PLAYING') return;
-
-    const deltaTime = (currentTime - lastTimeRef.current) / 16.67;
-    lastTimeRef.current = currentTime;
+  const dispatch = useCallback((action: GameAction) => {
+    applyAction(action);
 
-    if (deltaTime < 0.1) {
-      animationFrameRef.current = requestAnimationFrame(gameLoop);
-      return;
+    const syncAction = getSyncAction(action);
+    if (syncAction) {
+      pendingSyncActionsRef.current.push(syncAction);
+    }
+  }, [applyAction]);
+
+  // Send queued server actions one at a time so they arrive in dispatch order.
+  // Failed requests stay queued and are retried on reconnect or manual retry.
+  const flushSyncQueue = useCallback(async () => {
+    if (isSyncingRef.current) return;
+    isSyncingRef.current = true;
+
+    while (syncQueueRef.current.length > 0) {
+      applyAction({ type: 'SET_SYNC_STATUS', payload: 'syncing' });
+      try {
+        await postGameAction(syncQueueRef.current[0]!);
+        syncQueueRef.current.shift();
+      } catch (error) {
+        console.error('Game sync failed:', error);
+        applyAction({ type: 'SET_SYNC_STATUS', payload: getSyncErrorStatus() });
+        isSyncingRef.current = false;
+        return;
+      }
     }
 
-    setGameData(prev => {
-      if (prev.gameState !== 'PLAYING') return prev;
+    applyAction({ type: 'SET_SYNC_STATUS', payload: 'synced' });
+    isSyncingRef.current = false;
+  }, [applyAction]);
 
-      const currentTime = Date.now();
-      const timeElapsed = (currentTime - prev.levelStartTime) / 1000;
+  const retrySync = useCallback(() => {
+    void flushSyncQueue();
+  }, [flushSyncQueue]);
 
-      if (timeElapsed >= prev.currentLevel.timeLimit) {
-        dispatch({ type: 'LOSE_LIFE' });
-        return prev;
+  // Load persisted game data from the server on mount
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadGameData = async () => {
+      applyAction({ type: 'SET_SYNC_STATUS', payload: 'syncing' });
+      try {
+        const response = await fetchGameInit();
+        if (cancelled) return;
+
+        applyAction({
+          type: 'LOAD_HIGH_SCORES',
+          payload: {
+            campaign: response.campaignHighScore,
+            endless: response.endlessHighScore,
+            bricks: response.bricksHighScore,
+          },
+        });
+        // Before the levels are bound, so the first run already uses the day's seed
+        if (response.dailyChallenge) {
+          applyAction({ type: 'SET_DAILY_CHALLENGE', payload: response.dailyChallenge });
+        }
+        if (response.levelPack) {
+          const result = loadLevelPack(response.levelPack, createDefaultGameConfig());
+          if (result.ok) {
+            applyAction({ type: 'BIND_POST_LEVEL_PACK', payload: result.pack });
+          } else {
+            console.error('Post level pack is invalid:', result.errors.map(formatLevelPackError));
+          }
+        }
+        applyAction({ type: 'SET_SYNC_STATUS', payload: 'synced' });
+      } catch (error) {
+        if (cancelled) return;
+        console.error('Failed to load game data:', error);
+        applyAction({ type: 'SET_SYNC_STATUS', payload: getSyncErrorStatus() });
       }
+    };
 
-      let newBallPhysics = updateBallPhysics(prev.ballPhysics, deltaTime);
-      let newCollisionState = { ...prev.collisionState };
-
-      const platformCollision = checkPlatformCollision(newBallPhysics, prev.platform);
-      if (platformCollision.hit) {
-        newBallPhysics = {
-          ...newBallPhysics,
-          velocity: platformCollision.newVelocity,
-        };
-        newCollisionState.platform = true;
-        newCollisionState.hitPosition = platformCollision.hitPosition;
-        dispatch({ type: 'BALL_BOUNCE', payload: { surface: 'platform', hitPosition: platformCollision.hitPosition } });
-      } else {
-        newCollisionState.platform = false;
-      }
+    void loadGameData();
 
-      const wallCollision = checkWallCollision(newBallPhysics, prev.config);
-      if (wallCollision.hit) {
-        newBallPhysics = {
-          ...newBallPhysics,
-          velocity: wallCollision.newVelocity,
-        };
-        newCollisionState.wall = true;
-        dispatch({ type: 'BALL_BOUNCE', payload: { surface: 'wall' } });
-        dispatch({ type: 'RESET_COMBO' });
-      } else {
-        newCollisionState.wall = false;
-      }
+    return () => {
+      cancelled = true;
+    };
+  }, [applyAction]);
 
-      const ceilingCollision = checkCeilingCollision(newBallPhysics);
-      if (ceilingCollision.hit) {
-        newBallPhysics = {
-          ...newBallPhysics,
-          velocity: ceilingCollision.newVelocity,
-        };
-        newCollisionState.ceiling = true;
-        dispatch({ type: 'BALL_BOUNCE', payload: { surface: 'ceiling' } });
-        dispatch({ type: 'RESET_COMBO' });
-      } else {
-        newCollisionState.ceiling = false;
-      }
+  // Build requests from the state the dispatched actions produced, then send them
+  useEffect(() => {
+    if (pendingSyncActionsRef.current.length === 0) return;
 
-      if (checkFloorCollision(newBallPhysics, prev.config)) {
-        dispatch({ type: 'LOSE_LIFE' });
-        newCollisionState.floor = true;
-        return prev;
-      } else {
-        newCollisionState.floor = false;
-      }
+    const requests = pendingSyncActionsRef.current.map(syncAction =>
+      createGameActionRequest(syncAction, gameData.scoreData)
+    );
+    pendingSyncActionsRef.current = [];
+    syncQueueRef.current.push(...requests);
 
-      if (prev.scoreData.bounceCount >= prev.currentLevel.targetBounces) {
-        dispatch({ type: 'NEXT_LEVEL' });
-        return prev;
+    void flushSyncQueue();
+  }, [gameData, flushSyncQueue]);
+
+  // Submit the finished run so the server can replay it before storing the score
+  useEffect(() => {
+    const { runLog, scoreData } = gameData;
+    if (gameData.gameState !== 'GAME_OVER' || !runLog || submittedRunLogRef.current === runLog) return;
+    if (!isRankedRun(gameData)) return;
+    submittedRunLogRef.current = runLog;
+
+    const submitRun = async () => {
+      try {
+        await submitHighScore({ score: scoreData.score, runLog, mode: gameData.gameMode });
+      } catch (error) {
+        console.error('Failed to submit high score:', error);
       }
+    };
 
-      return {
-        ...prev,
-        ballPhysics: newBallPhysics,
-        collisionState: newCollisionState,
-        scoreData: { ...prev.scoreData, timeElapsed },
-      };
-    });
+    void submitRun();
+  }, [gameData]);
+
+  // Flush anything queued while offline once the connection returns
+  useEffect(() => {
+    const handleOnline = () => {
+      void flushSyncQueue();
+    };
+
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+  }, [flushSyncQueue]);
+
+  // Runs as many fixed steps as the elapsed time covers, sampling the paddle
+  // inputs before each one, then publishes the resulting world and its events
+  // in a single update.
+  const gameLoop = useCallback((currentTime: number) => {
+    const { steps, accumulatorMs } = advanceClock(accumulatorRef.current, currentTime - lastTimeRef.current);
+    lastTimeRef.current = currentTime;
+    accumulatorRef.current = accumulatorMs;
+
+    let world = worldRef.current;
+    const events: WorldEvent[] = [];
+    for (let step = 0; step < steps && world.phase === 'playing'; step++) {
+      const commands = pendingCommandsRef.current.splice(0);
+      const input = { ...sampleWorldInput(world, paddleInputsRef.current, paddleVelocitiesRef.current), commands };
+      recordRunStep(runRecorderRef.current, world.tick, input.platformX, input.partnerPlatformX);
+      recordRunCommands(runRecorderRef.current, world.tick, commands);
+      const result = stepWorld(world, input);
+      world = result.world;
+      events.push(...result.events);
+    }
+
+    if (world !== worldRef.current) {
+      worldRef.current = world;
+      dispatch({ type: 'WORLD_UPDATED', payload: { world, events } });
+    }
 
-    animationFrameRef.current = requestAnimationFrame(gameLoop);
-  }, [gameData.gameState, dispatch]);
+    if (world.phase === 'playing') {
+      animationFrameRef.current = requestAnimationFrame(gameLoop);
+    }
+  }, [dispatch]);
 
   useEffect(() => {
     if (gameData.gameState === 'PLAYING') {
       lastTimeRef.current = performance.now();
+      accumulatorRef.current = 0;
       animationFrameRef.current = requestAnimationFrame(gameLoop);
     } else {
       if (animationFrameRef.current) {
@@ -405,18 +807,49 @@ export const useGameState = () => {
     };
   }, [gameData.gameState, gameLoop]);
 
-  return { gameData, dispatch };
+  return { gameData, dispatch, retrySync };
+};
+
+type PaddleKey = { paddle: number; side: 'left' | 'right' };
+
+// In co-op the partner keys move the second paddle; with one paddle either pair moves it
+const getPaddleKey = (action: KeyAction, coop: boolean): PaddleKey | null => {
+  switch (action) {
+    case 'moveLeft':
+      return { paddle: 0, side: 'left' };
+    case 'moveRight':
+      return { paddle: 0, side: 'right' };
+    case 'partnerLeft':
+      return { paddle: coop ? 1 : 0, side: 'left' };
+    case 'partnerRight':
+      return { paddle: coop ? 1 : 0, side: 'right' };
+    default:
+      return null;
+  }
+};
+
+// How far one press of an aim key moves the angle (degrees) or power (%).
+// Holding Shift takes the coarse step.
+const AIM_STEPS = {
+  fine: { angle: 1, power: 2 },
+  coarse: { angle: 10, power: 10 },
+};
+
+// The aim after one press of an aiming key other than launch
+const stepKeyboardAim = (aimData: AimData, action: KeyAction, coarse: boolean): Pick<AimData, 'angle' | 'power'> => {
+  const step = AIM_STEPS[coarse ? 'coarse' : 'fine'];
+  const turn = action === 'aimLeft' ? step.angle : action === 'aimRight' ? -step.angle : 0;
+  const charge = action === 'powerUp' ? step.power : action === 'powerDown' ? -step.power : 0;
+  return {
+    angle: clamp(aimData.angle + turn, 0, 180),
+    power: clamp(aimData.power + charge, 0, 100),
+  };
 };
 
 export const useControls = (gameData: GameData, dispatch: (action: GameAction) => void) => {
   const [isTouchDevice, setIsTouchDevice] = useState(false);
   const [touchDeadzone, setTouchDeadzone] = useState(50);
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const keyboardRef = useRef<{ left: boolean; right: boolean; space: boolean }>({
-    left: false,
-    right: false,
-    space: false,
-  });
 
   // Detect touch device
   useEffect(() => {
@@ -432,41 +865,65 @@ export const useControls = (gameData: GameData, dispatch: (action: GameAction) =
 
   // Keyboard controls
   useEffect(() => {
+    const keyBindings = gameData.keyBindings;
+    const aimData = gameData.aimData;
+
     const handleKeyDown = (event: KeyboardEvent) => {
-      switch (event.code) {
-        case 'ArrowLeft':
-        case 'KeyA':
-          keyboardRef.current.left = true;
-          dispatch({ type: 'UPDATE_CONTROL_STATE', payload: { inputType: 'keyboard', keyboardLeft: true } });
-          break;
-        case 'ArrowRight':
-        case 'KeyD':
-          keyboardRef.current.right = true;
-          dispatch({ type: 'UPDATE_CONTROL_STATE', payload: { inputType: 'keyboard', keyboardRight: true } });
-          break;
-        case 'Space':
-          event.preventDefault();
-          if (gameData.gameState === 'PLAYING') {
-            dispatch({ type: 'PAUSE_GAME' });
-          } else if (gameData.gameState === 'PAUSED') {
-            dispatch({ type: 'RESUME_GAME' });
-          }
-          break;
+      if (gameData.gameState === 'AIMING') {
+        const action = getBoundAction(keyBindings, event.code, 'aiming');
+        if (!action) return;
+        event.preventDefault();
+
+        if (action === 'launch') {
+          dispatch({ type: 'LAUNCH_BALL', payload: { angle: aimData.angle, power: aimData.power } });
+          dispatch({ type: 'UPDATE_CONTROL_STATE', payload: { isDragging: false } });
+        } else {
+          // Showing the aim line also shows the trajectory preview, which follows the aim
+          const { angle, power } = stepKeyboardAim(aimData, action, event.shiftKey);
+          dispatch({ type: 'UPDATE_AIM_DATA', payload: { angle, power, ...getAimLineEnd(aimData, angle, power) } });
+          dispatch({ type: 'UPDATE_CONTROL_STATE', payload: { inputType: 'keyboard', isDragging: true } });
+        }
+        return;
+      }
+
+      const action = getBoundAction(keyBindings, event.code, 'playing');
+      const paddleKey = action && getPaddleKey(action, gameData.coop);
+      if (paddleKey) {
+        const { paddle, side } = paddleKey;
+        dispatch({ type: 'UPDATE_PADDLE_INPUT', payload: { paddle, input: { [side]: true } } });
+        dispatch({
+          type: 'UPDATE_CONTROL_STATE',
+          payload: {
+            inputType: 'keyboard',
+            ...(paddle === 0 && side === 'left' && { keyboardLeft: true }),
+            ...(paddle === 0 && side === 'right' && { keyboardRight: true }),
+          },
+        });
+        return;
+      }
+
+      if (action === 'pause') {
+        event.preventDefault();
+        if (gameData.gameState === 'PLAYING') {
+          dispatch({ type: 'PAUSE_GAME' });
+        } else if (gameData.gameState === 'PAUSED') {
+          dispatch({ type: 'RESUME_GAME' });
+        }
       }
     };
 
     const handleKeyUp = (event: KeyboardEvent) => {
-      switch (event.code) {
-        case 'ArrowLeft':
-        case 'KeyA':
-          keyboardRef.current.left = false;
-          dispatch({ type: 'UPDATE_CONTROL_STATE', payload: { keyboardLeft: false } });
-          break;
-        case 'ArrowRight':
-        case 'KeyD':
-          keyboardRef.current.right = false;
-          dispatch({ type: 'UPDATE_CONTROL_STATE', payload: { keyboardRight: false } });
-          break;
+      const action = getBoundAction(keyBindings, event.code, 'playing');
+      const paddleKey = action && getPaddleKey(action, gameData.coop);
+      if (!paddleKey) return;
+
+      const { paddle, side } = paddleKey;
+      dispatch({ type: 'UPDATE_PADDLE_INPUT', payload: { paddle, input: { [side]: false } } });
+      if (paddle === 0) {
+        dispatch({
+          type: 'UPDATE_CONTROL_STATE',
+          payload: side === 'left' ? { keyboardLeft: false } : { keyboardRight: false },
+        });
       }
     };
 
@@ -477,30 +934,7 @@ export const useControls = (gameData: GameData, dispatch: (action: GameAction) =
       window.removeEventListener('keydown', handleKeyDown);
       window.removeEventListener('keyup', handleKeyUp);
     };
-  }, [dispatch, gameData.gameState]);
-
-  // Handle keyboard platform movement
-  useEffect(() => {
-    if (gameData.gameState !== 'PLAYING') return;
-
-    const movePlatform = () => {
-      let targetX = gameData.platform.x;
-
-      if (keyboardRef.current.left) {
-        targetX -= gameData.currentLevel.platformSpeed;
-      }
-      if (keyboardRef.current.right) {
-        targetX += gameData.currentLevel.platformSpeed;
-      }
-
-      if (targetX !== gameData.platform.x) {
-        dispatch({ type: 'UPDATE_PLATFORM_POSITION', payload: targetX });
-      }
-    };
-
-    const interval = setInterval(movePlatform, 16); // ~60fps
-    return () => clearInterval(interval);
-  }, [gameData.gameState, gameData.platform.x, gameData.currentLevel.platformSpeed, dispatch]);
+  }, [dispatch, gameData.gameState, gameData.coop, gameData.keyBindings, gameData.aimData]);
 
   // Mouse controls for aiming
   const handleMouseDown = useCallback((event: React.MouseEvent<HTMLCanvasElement>) => {
@@ -568,7 +1002,7 @@ export const useControls = (gameData: GameData, dispatch: (action: GameAction) =
       const rect = canvas.getBoundingClientRect();
       const mouseX = event.clientX - rect.left;
 
-      dispatch({ type: 'UPDATE_PLATFORM_POSITION', payload: mouseX });
+      dispatch({ type: 'UPDATE_PADDLE_INPUT', payload: { paddle: 0, input: { pointerX: mouseX } } });
     }
   }, [dispatch, gameData]);
 
@@ -623,13 +1057,15 @@ export const useControls = (gameData: GameData, dispatch: (action: GameAction) =
       const screenWidth = rect.width;
       if (touchX < screenWidth / 3) {
         // Left side
-        dispatch({ type: 'UPDATE_CONTROL_STATE', payload: { keyboardLeft: true } });
+        dispatch({ type: 'UPDATE_PADDLE_INPUT', payload: { paddle: 0, input: { touch: -1 } } });
+        dispatch({ type: 'UPDATE_CONTROL_STATE', payload: { inputType: 'touch', keyboardLeft: true } });
       } else if (touchX > (screenWidth * 2) / 3) {
         // Right side
-        dispatch({ type: 'UPDATE_CONTROL_STATE', payload: { keyboardRight: true } });
+        dispatch({ type: 'UPDATE_PADDLE_INPUT', payload: { paddle: 0, input: { touch: 1 } } });
+        dispatch({ type: 'UPDATE_CONTROL_STATE', payload: { inputType: 'touch', keyboardRight: true } });
       } else {
         // Center - direct platform control
-        dispatch({ type: 'UPDATE_PLATFORM_POSITION', payload: touchX });
+        dispatch({ type: 'UPDATE_PADDLE_INPUT', payload: { paddle: 0, input: { pointerX: touchX } } });
       }
     }
   }, [dispatch, gameData.gameState]);
@@ -681,7 +1117,8 @@ export const useControls = (gameData: GameData, dispatch: (action: GameAction) =
       const touch = event.touches[0];
       const touchX = touch.clientX - rect.left;
 
-      dispatch({ type: 'UPDATE_PLATFORM_POSITION', payload: touchX });
+      // Dragging takes over from a held side
+      dispatch({ type: 'UPDATE_PADDLE_INPUT', payload: { paddle: 0, input: { touch: 0, pointerX: touchX } } });
     }
   }, [dispatch, gameData]);
 
@@ -704,6 +1141,7 @@ export const useControls = (gameData: GameData, dispatch: (action: GameAction) =
         }
       });
     } else if (gameData.gameState === 'PLAYING') {
+      dispatch({ type: 'UPDATE_PADDLE_INPUT', payload: { paddle: 0, input: { touch: 0 } } });
       dispatch({
         type: 'UPDATE_CONTROL_STATE',
         payload: {
@@ -714,20 +1152,19 @@ export const useControls = (gameData: GameData, dispatch: (action: GameAction) =
     }
   }, [dispatch, gameData]);
 
-  // Calculate trajectory points for preview
-  const trajectoryPoints = calculateTrajectoryPoints(
-    gameData.aimData.startX,
-    gameData.aimData.startY,
-    gameData.aimData.angle,
-    gameData.aimData.power,
-    gameData.config
+  // Preview of the launch being aimed, only simulated while aiming
+  const aiming = gameData.gameState === 'AIMING';
+  const { ballPhysics, aimData, config, obstacles, difficultyMode } = gameData;
+  const trajectory = useMemo(
+    () => (aiming ? calculateTrajectoryPreview({ ballPhysics, aimData, config, obstacles, difficultyMode }) : null),
+    [aiming, ballPhysics, aimData, config, obstacles, difficultyMode]
   );
 
   return {
     canvasRef,
     isTouchDevice,
     touchDeadzone,
-    trajectoryPoints,
+    trajectory,
     handleMouseDown,
     handleMouseMove,
     handleMouseUp,
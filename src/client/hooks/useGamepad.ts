@@ -0,0 +1,148 @@
+import { useEffect, useRef } from 'react';
+import type { GameAction, GameData } from '../types/game';
+import type { GamepadInput } from '../utils/gamepad';
+import { getRumbleSound, isGamepadActive, readGamepad } from '../utils/gamepad';
+import { getAimLineEnd } from '../utils/gameLogic';
+import { getVibrationPattern, triggerGamepadRumble } from '../utils/audioManager';
+
+// Polls connected gamepads every frame. The left stick or D-pad moves the
+// paddle, up to a speed proportional to the push, the right stick aims, the
+// deepest pull of the right trigger sets the power, A launches and Start
+// pauses. In co-op the second gamepad moves the second paddle.
+export const useGamepad = (gameData: GameData, dispatch: (action: GameAction) => void) => {
+  const { gameState, controlState, scoreData } = gameData;
+  const gameDataRef = useRef(gameData);
+  // Keyed by gamepad.index, which stays the same while a gamepad is connected
+  const previousInputsRef = useRef(new Map<number, GamepadInput>());
+  const paddlesRef = useRef(new Map<number, number>());
+  // Peak of the trigger pull in progress, null while it is released
+  const triggerPullRef = useRef<number | null>(null);
+  const rumbleSnapshotRef = useRef({ ...scoreData, gameState });
+
+  useEffect(() => {
+    gameDataRef.current = gameData;
+  }, [gameData]);
+
+  useEffect(() => {
+    if (!('getGamepads' in navigator)) return;
+
+    let frame: number | null = null;
+
+    const handleInput = (input: GamepadInput, previous: GamepadInput | null, paddle: number) => {
+      const current = gameDataRef.current;
+      const pressed = (button: 'launch' | 'pause') => input[button] && !previous?.[button];
+
+      if (current.controlState.inputType !== 'gamepad' && isGamepadActive(input)) {
+        dispatch({ type: 'UPDATE_CONTROL_STATE', payload: { inputType: 'gamepad' } });
+      }
+
+      if (pressed('pause')) {
+        if (current.gameState === 'PLAYING') {
+          dispatch({ type: 'PAUSE_GAME' });
+        } else if (current.gameState === 'PAUSED') {
+          dispatch({ type: 'RESUME_GAME' });
+        }
+      }
+
+      // Sampled by the world's next step along with the other inputs
+      if (input.move !== (previous?.move ?? 0)) {
+        dispatch({ type: 'UPDATE_PADDLE_INPUT', payload: { paddle, input: { gamepad: input.move } } });
+      }
+
+      // Only the first gamepad aims, as the ball belongs to both co-op players
+      if (current.gameState !== 'AIMING' || paddle !== 0) return;
+
+      if (input.trigger > 0) {
+        triggerPullRef.current = Math.max(triggerPullRef.current ?? 0, input.trigger);
+      } else {
+        triggerPullRef.current = null;
+      }
+
+      const { aimData } = current;
+      const angle = input.aimAngle ?? aimData.angle;
+      const power = triggerPullRef.current !== null ? Math.round(triggerPullRef.current * 100) : aimData.power;
+      if (angle !== aimData.angle || power !== aimData.power) {
+        dispatch({ type: 'UPDATE_AIM_DATA', payload: { angle, power, ...getAimLineEnd(aimData, angle, power) } });
+        if (!current.controlState.isDragging) {
+          dispatch({ type: 'UPDATE_CONTROL_STATE', payload: { isDragging: true } });
+        }
+      }
+
+      if (pressed('launch')) {
+        dispatch({ type: 'LAUNCH_BALL', payload: { angle, power } });
+        dispatch({ type: 'UPDATE_CONTROL_STATE', payload: { isDragging: false } });
+      }
+    };
+
+    // A gamepad keeps its paddle until it is disconnected; a new one takes the first free paddle
+    const getPaddle = (index: number, paddles: number): number | null => {
+      const assigned = paddlesRef.current.get(index);
+      if (assigned !== undefined) return assigned < paddles ? assigned : null;
+
+      const taken = new Set(paddlesRef.current.values());
+      for (let paddle = 0; paddle < paddles; paddle++) {
+        if (!taken.has(paddle)) {
+          paddlesRef.current.set(index, paddle);
+          return paddle;
+        }
+      }
+      return null;
+    };
+
+    const poll = () => {
+      const gamepads = navigator.getGamepads().filter((gamepad): gamepad is Gamepad => gamepad !== null);
+      const paddles = gameDataRef.current.coop ? 2 : 1;
+
+      for (const gamepad of gamepads) {
+        const paddle = getPaddle(gamepad.index, paddles);
+        if (paddle === null) continue;
+
+        const input = readGamepad(gamepad);
+        handleInput(input, previousInputsRef.current.get(gamepad.index) ?? null, paddle);
+        previousInputsRef.current.set(gamepad.index, input);
+      }
+
+      frame = requestAnimationFrame(poll);
+    };
+
+    // Browsers only report gamepads once one of their buttons has been pressed
+    const startPolling = () => {
+      if (frame === null) frame = requestAnimationFrame(poll);
+    };
+    const stopPolling = (event: GamepadEvent) => {
+      // A gamepad unplugged mid-push would otherwise keep its paddle moving
+      const { index } = event.gamepad;
+      const paddle = paddlesRef.current.get(index);
+      if (paddle !== undefined) {
+        dispatch({ type: 'UPDATE_PADDLE_INPUT', payload: { paddle, input: { gamepad: 0 } } });
+      }
+      paddlesRef.current.delete(index);
+      previousInputsRef.current.delete(index);
+      if (frame !== null && navigator.getGamepads().every(gamepad => gamepad === null)) {
+        cancelAnimationFrame(frame);
+        frame = null;
+      }
+    };
+
+    if (navigator.getGamepads().some(gamepad => gamepad !== null)) startPolling();
+    window.addEventListener('gamepadconnected', startPolling);
+    window.addEventListener('gamepaddisconnected', stopPolling);
+
+    return () => {
+      window.removeEventListener('gamepadconnected', startPolling);
+      window.removeEventListener('gamepaddisconnected', stopPolling);
+      if (frame !== null) cancelAnimationFrame(frame);
+    };
+  }, [dispatch]);
+
+  // Rumble on the run's bounces, lost lives and level changes while playing with a gamepad
+  useEffect(() => {
+    const snapshot = { ...scoreData, gameState };
+    const sound = getRumbleSound(rumbleSnapshotRef.current, snapshot);
+    rumbleSnapshotRef.current = snapshot;
+
+    if (sound && controlState.inputType === 'gamepad') {
+      triggerGamepadRumble(getVibrationPattern(sound));
+    }
+  }, [scoreData, gameState, controlState.inputType]);
+};
@@ -0,0 +1,88 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import type { GameAction, GameData } from '../types/game';
+import type { PhysicsWorld } from '../../shared/game/world';
+import type { ReplayTimeline } from '../../shared/game/replay';
+import { createReplayTimeline, parseReplay, seekReplay } from '../../shared/game/replay';
+import { MAX_RUN_TICKS } from '../../shared/game/runLog';
+import { getReplayGameConfig } from '../utils/replay';
+import { fetchGhost, fetchReplay } from '../utils/gameApi';
+
+// Races a recorded run against the live one. The ghost's world is stepped to
+// the live run's tick, so both have been in play for the same time.
+export const useGhost = (gameData: GameData, dispatch: (action: GameAction) => void) => {
+  const { ghost, worldTick, levelPack, postLevelPack } = gameData;
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const cacheRef = useRef<{ timeline: ReplayTimeline; world: PhysicsWorld } | null>(null);
+
+  const timeline = useMemo(() => {
+    if (!ghost) return null;
+    const config = getReplayGameConfig(ghost.replay, [levelPack]);
+    return config ? createReplayTimeline(ghost.replay, config, MAX_RUN_TICKS) : null;
+  }, [ghost, levelPack]);
+
+  // Steps on from the previous frame's ghost world rather than a keyframe
+  const ghostWorld = useMemo(() => {
+    if (!timeline) return null;
+    const cached = cacheRef.current?.timeline === timeline ? cacheRef.current.world : undefined;
+    return seekReplay(timeline, worldTick, cached);
+  }, [timeline, worldTick]);
+
+  useEffect(() => {
+    cacheRef.current = timeline && ghostWorld ? { timeline, world: ghostWorld } : null;
+  }, [timeline, ghostWorld]);
+
+  // Ghosts need the run to have been on the levels being played now
+  const race = useCallback(
+    async (load: () => Promise<{ replay: string; username: string; score: number }>) => {
+      setLoading(true);
+      setError(null);
+      try {
+        const { replay: serialized, username, score } = await load();
+        const replay = parseReplay(serialized);
+        if (!replay) throw new Error('This run was recorded by an older version of the game');
+        if (replay.mode !== 'campaign' || !getReplayGameConfig(replay, [levelPack])) {
+          throw new Error('Ghosts can only race on the levels they were recorded on');
+        }
+
+        dispatch({ type: 'SET_GHOST', payload: { username, score, replay } });
+      } catch (loadError) {
+        console.error('Failed to load ghost:', loadError);
+        setError(loadError instanceof Error ? loadError.message : 'Failed to load ghost');
+      } finally {
+        setLoading(false);
+      }
+    },
+    [dispatch, levelPack]
+  );
+
+  const raceTopRun = useCallback(() => race(fetchGhost), [race]);
+
+  const raceReplay = useCallback(
+    (id: string) =>
+      race(async () => {
+        const response = await fetchReplay(id);
+        return { replay: response.replay, username: response.username, score: response.scoreData.score };
+      }),
+    [race]
+  );
+
+  const stopRacing = useCallback(() => {
+    dispatch({ type: 'SET_GHOST', payload: null });
+    setError(null);
+  }, [dispatch]);
+
+  return {
+    ghostWorld,
+    // Positive when the live run is ahead of the ghost
+    scoreDelta: ghostWorld ? gameData.scoreData.score - ghostWorld.scoreData.score : null,
+    canRaceTopRun: levelPack === postLevelPack,
+    loading,
+    error,
+    raceTopRun,
+    raceReplay,
+    stopRacing,
+  };
+};
+
+export type GhostRace = ReturnType<typeof useGhost>;
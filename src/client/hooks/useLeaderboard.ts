@@ -0,0 +1,126 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type {
+  LeaderboardEntry,
+  LeaderboardScope,
+  LeaderboardSubmitResponse,
+} from '../../shared/types/api';
+import type { GameData } from '../types/game';
+import {
+  submitLeaderboardRun,
+  fetchLeaderboard,
+  fetchLeaderboardRank,
+  fetchLeaderboardAround,
+  isRankedRun,
+} from '../utils/gameApi';
+
+export const LEADERBOARD_PAGE_SIZE = 10;
+const AROUND_RADIUS = 2;
+
+export type LeaderboardView = 'top' | 'around';
+
+// Endless and brick-breaker runs have their own leaderboards; daily challenge posts open on the day's
+const getDefaultScope = (gameData: GameData): LeaderboardScope => {
+  if (gameData.gameMode !== 'campaign') return gameData.gameMode;
+  return gameData.dailyChallenge ? 'daily' : 'post';
+};
+
+export const useLeaderboard = (gameData: GameData) => {
+  const [scope, setScope] = useState<LeaderboardScope>(() => getDefaultScope(gameData));
+  const [view, setView] = useState<LeaderboardView>('top');
+  const [offset, setOffset] = useState(0);
+  const [entries, setEntries] = useState<LeaderboardEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [myEntry, setMyEntry] = useState<LeaderboardEntry | null>(null);
+  const [submission, setSubmission] = useState<LeaderboardSubmitResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const submittedRef = useRef(false);
+
+  // Record the finished run once per game over
+  useEffect(() => {
+    if (gameData.gameState !== 'GAME_OVER') {
+      submittedRef.current = false;
+      return;
+    }
+    if (submittedRef.current || !gameData.runLog || !isRankedRun(gameData)) return;
+    submittedRef.current = true;
+
+    const { scoreData, difficultyMode, runLog, gameMode } = gameData;
+
+    const submitRun = async () => {
+      try {
+        const response = await submitLeaderboardRun({
+          score: scoreData.score,
+          level: scoreData.level,
+          bounceCount: scoreData.bounceCount,
+          difficulty: difficultyMode,
+          runLog,
+          mode: gameMode,
+        });
+        setSubmission(response);
+      } catch (submitError) {
+        console.error('Failed to submit leaderboard run:', submitError);
+        setError(submitError instanceof Error ? submitError.message : 'Failed to submit score');
+      }
+    };
+
+    void submitRun();
+  }, [gameData]);
+
+  const loadLeaderboard = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const [page, rank] = await Promise.all([
+        view === 'top'
+          ? fetchLeaderboard(scope, offset, LEADERBOARD_PAGE_SIZE)
+          : fetchLeaderboardAround(scope, AROUND_RADIUS),
+        fetchLeaderboardRank(scope),
+      ]);
+      setEntries(page.entries);
+      setTotal(page.total);
+      setMyEntry(rank.entry);
+    } catch (loadError) {
+      console.error('Failed to load leaderboard:', loadError);
+      setError(loadError instanceof Error ? loadError.message : 'Failed to load leaderboard');
+    } finally {
+      setLoading(false);
+    }
+  }, [scope, view, offset]);
+
+  // Reload whenever the query changes, and again once our own run has been recorded
+  useEffect(() => {
+    if (gameData.gameState !== 'GAME_OVER') return;
+    void loadLeaderboard();
+  }, [gameData.gameState, loadLeaderboard, submission]);
+
+  const selectScope = useCallback((nextScope: LeaderboardScope) => {
+    setScope(nextScope);
+    setOffset(0);
+  }, []);
+
+  const nextPage = useCallback(() => {
+    setOffset(current => (current + LEADERBOARD_PAGE_SIZE < total ? current + LEADERBOARD_PAGE_SIZE : current));
+  }, [total]);
+
+  const previousPage = useCallback(() => {
+    setOffset(current => Math.max(0, current - LEADERBOARD_PAGE_SIZE));
+  }, []);
+
+  return {
+    scope,
+    view,
+    offset,
+    entries,
+    total,
+    myEntry,
+    submission,
+    loading,
+    error,
+    selectScope,
+    setView,
+    nextPage,
+    previousPage,
+    reload: loadLeaderboard,
+  };
+};
@@ -0,0 +1,155 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { CustomLevelSummary, LevelPackRejectedResponse } from '../../shared/types/api';
+import type { LevelPackError, LevelPackLevel, ObstacleLayout } from '../../shared/game/levelPack';
+import { loadLevelPack } from '../../shared/game/levelPack';
+import type { GameAction, GameData, LevelEditorDraft, ObstacleType } from '../types/game';
+import { ApiError, fetchCustomLevel, fetchCustomLevels, saveCustomLevel } from '../utils/gameApi';
+import { createDraftObstacles, createEditorDraft, fitObstacle, toDraftPack, toEditorDraft } from '../utils/levelEditor';
+
+export type LevelTuningField = Exclude<
+  keyof LevelPackLevel,
+  'name' | 'winCondition' | 'obstacles' | 'powerUps' | 'background' | 'bricks'
+>;
+
+// The draft lives here rather than in the editor component so it survives
+// play-testing, which swaps the editor out for the game canvas.
+export const useLevelEditor = (gameData: GameData, dispatch: (action: GameAction) => void) => {
+  const { config } = gameData;
+  const [draft, setDraft] = useState<LevelEditorDraft>(() => createEditorDraft(config));
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+  const [levels, setLevels] = useState<CustomLevelSummary[]>([]);
+  const [canEdit, setCanEdit] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [errors, setErrors] = useState<LevelPackError[]>([]);
+  const [message, setMessage] = useState<string | null>(null);
+
+  // Only moderators get the editor; everyone else just sees canEdit = false
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadLevels = async () => {
+      try {
+        const response = await fetchCustomLevels();
+        if (cancelled) return;
+        setLevels(response.levels);
+        setCanEdit(response.canEdit);
+      } catch (error) {
+        console.error('Failed to load custom levels:', error);
+      }
+    };
+
+    void loadLevels();
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const updateLevel = useCallback((changes: Partial<LevelPackLevel>) => {
+    setDraft(current => ({ ...current, level: { ...current.level, ...changes } }));
+  }, []);
+
+  const setName = useCallback((name: string) => {
+    setDraft(current => ({ ...current, name }));
+  }, []);
+
+  const setTuning = useCallback((field: LevelTuningField, value: number) => {
+    updateLevel({ [field]: value });
+  }, [updateLevel]);
+
+  const updateObstacles = useCallback((update: (obstacles: ObstacleLayout[]) => ObstacleLayout[]) => {
+    setDraft(current => ({ ...current, level: { ...current.level, obstacles: update(current.level.obstacles ?? []) } }));
+  }, []);
+
+  const addObstacle = useCallback((type: ObstacleType) => {
+    updateObstacles(obstacles => [...obstacles, ...createDraftObstacles(type, obstacles, config)]);
+    setSelectedIndex(draft.level.obstacles?.length ?? 0);
+  }, [updateObstacles, config, draft]);
+
+  const updateObstacle = useCallback((index: number, obstacle: ObstacleLayout) => {
+    updateObstacles(obstacles => obstacles.map((current, i) => (i === index ? fitObstacle(obstacle, config) : current)));
+  }, [updateObstacles, config]);
+
+  const removeSelected = useCallback(() => {
+    if (selectedIndex === null) return;
+    updateObstacles(obstacles => obstacles.filter((_, i) => i !== selectedIndex));
+    setSelectedIndex(null);
+  }, [selectedIndex, updateObstacles]);
+
+  // Validates with the same rules the server applies before anything leaves the editor
+  const validateDraft = useCallback(() => {
+    const result = loadLevelPack(toDraftPack(draft), config);
+    setErrors(result.ok ? [] : result.errors);
+    return result;
+  }, [draft, config]);
+
+  const playTest = useCallback(() => {
+    const result = validateDraft();
+    if (!result.ok) return;
+    setMessage(null);
+    dispatch({ type: 'PLAY_TEST_LEVEL', payload: result.pack });
+  }, [validateDraft, dispatch]);
+
+  const save = useCallback(async () => {
+    if (!validateDraft().ok) return;
+
+    setSaving(true);
+    setMessage(null);
+    try {
+      const { level } = await saveCustomLevel(toDraftPack(draft));
+      setLevels(current => [level, ...current.filter(existing => existing.id !== level.id)]);
+      setMessage(`Saved "${level.name}". Pick it when creating a post from the subreddit menu.`);
+    } catch (error) {
+      console.error('Failed to save level:', error);
+      if (error instanceof ApiError && error.status === 400) {
+        setErrors((error.body as Partial<LevelPackRejectedResponse> | null)?.errors ?? []);
+      }
+      setMessage(error instanceof Error ? error.message : 'Failed to save level');
+    } finally {
+      setSaving(false);
+    }
+  }, [validateDraft, draft]);
+
+  const openLevel = useCallback(async (id: string) => {
+    setMessage(null);
+    try {
+      const { pack } = await fetchCustomLevel(id);
+      setDraft(toEditorDraft(pack));
+      setSelectedIndex(null);
+      setErrors([]);
+    } catch (error) {
+      console.error(`Failed to load level ${id}:`, error);
+      setMessage(error instanceof Error ? error.message : 'Failed to load level');
+    }
+  }, []);
+
+  const newLevel = useCallback(() => {
+    setDraft(createEditorDraft(config));
+    setSelectedIndex(null);
+    setErrors([]);
+    setMessage(null);
+  }, [config]);
+
+  return {
+    draft,
+    selectedIndex,
+    levels,
+    canEdit,
+    saving,
+    errors,
+    message,
+    setName,
+    setTuning,
+    updateLevel,
+    addObstacle,
+    updateObstacle,
+    selectObstacle: setSelectedIndex,
+    removeSelected,
+    playTest,
+    save,
+    openLevel,
+    newLevel,
+  };
+};
+
+export type LevelEditor = ReturnType<typeof useLevelEditor>;
@@ -0,0 +1,60 @@
+import { useEffect, useRef } from 'react';
+import type { GameAction, GameData } from '../types/game';
+import { fetchProfile, saveProfile } from '../utils/gameApi';
+import { buildProfile, getProfileSnapshot } from '../utils/profile';
+
+// Settings sliders and achievement progress can change in bursts
+const SAVE_DELAY_MS = 1000;
+
+// Loads the player's profile into GameData on mount, then saves it whenever
+// settings, achievements or lifetime stats change
+export const useProfile = (gameData: GameData, dispatch: (action: GameAction) => void) => {
+  const savedSnapshotRef = useRef<string | null>(null);
+  const profile = buildProfile(gameData);
+  const snapshot = profile && getProfileSnapshot(profile);
+  const profileRef = useRef(profile);
+  profileRef.current = profile;
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadProfile = async () => {
+      try {
+        const { profile } = await fetchProfile();
+        if (cancelled) return;
+
+        savedSnapshotRef.current = getProfileSnapshot(profile);
+        dispatch({ type: 'LOAD_PROFILE', payload: profile });
+      } catch (error) {
+        console.error('Failed to load profile:', error);
+      }
+    };
+
+    void loadProfile();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [dispatch]);
+
+  useEffect(() => {
+    if (!snapshot || snapshot === savedSnapshotRef.current) return;
+
+    const timeout = setTimeout(() => {
+      const persist = async () => {
+        const latest = profileRef.current;
+        if (!latest) return;
+        try {
+          await saveProfile(latest);
+          savedSnapshotRef.current = snapshot;
+        } catch (error) {
+          console.error('Failed to save profile:', error);
+        }
+      };
+
+      void persist();
+    }, SAVE_DELAY_MS);
+
+    return () => clearTimeout(timeout);
+  }, [snapshot]);
+};
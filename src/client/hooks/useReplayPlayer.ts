@@ -0,0 +1,99 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import type { GameData } from '../types/game';
+import type { PhysicsWorld } from '../../shared/game/world';
+import type { Replay, ReplayTimeline } from '../../shared/game/replay';
+import { getReplayGameConfig } from '../utils/replay';
+import { MAX_RUN_TICKS } from '../../shared/game/runLog';
+import { advanceClock } from '../../shared/game/world';
+import { createReplayTimeline, getReplayLength, seekReplay } from '../../shared/game/replay';
+
+export type ReplaySpeed = 0.5 | 1 | 2;
+
+export const REPLAY_SPEEDS: ReplaySpeed[] = [0.5, 1, 2];
+
+export const useReplayPlayer = (replay: Replay | null, gameData: GameData) => {
+  const { levelPack, postLevelPack, sharedReplay } = gameData;
+  const sharedLevelPack = sharedReplay?.levelPack ?? null;
+  const [world, setWorld] = useState<PhysicsWorld | null>(null);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState<ReplaySpeed>(1);
+  const animationFrameRef = useRef<number | null>(null);
+  const lastTimeRef = useRef(0);
+  const accumulatorRef = useRef(0);
+
+  const timeline = useMemo<ReplayTimeline | null>(() => {
+    if (!replay) return null;
+    const config = getReplayGameConfig(replay, [sharedLevelPack, levelPack, postLevelPack]);
+    return config ? createReplayTimeline(replay, config, MAX_RUN_TICKS) : null;
+  }, [replay, sharedLevelPack, levelPack, postLevelPack]);
+
+  const length = timeline ? getReplayLength(timeline) : 0;
+
+  // Every new replay starts playing from the beginning
+  useEffect(() => {
+    setWorld(timeline?.keyframes[0] ?? null);
+    setPlaying(timeline !== null);
+  }, [timeline]);
+
+  useEffect(() => {
+    if (world && world.tick >= length) setPlaying(false);
+  }, [world, length]);
+
+  // Playback speed scales the elapsed time fed to the same fixed-step clock the game uses
+  useEffect(() => {
+    if (!playing || !timeline) return;
+
+    const playFrame = (currentTime: number) => {
+      const { steps, accumulatorMs } = advanceClock(accumulatorRef.current, (currentTime - lastTimeRef.current) * speed);
+      lastTimeRef.current = currentTime;
+      accumulatorRef.current = accumulatorMs;
+
+      if (steps > 0) {
+        setWorld(current => (current ? seekReplay(timeline, current.tick + steps, current) : current));
+      }
+      animationFrameRef.current = requestAnimationFrame(playFrame);
+    };
+
+    lastTimeRef.current = performance.now();
+    accumulatorRef.current = 0;
+    animationFrameRef.current = requestAnimationFrame(playFrame);
+
+    return () => {
+      if (animationFrameRef.current) {
+        cancelAnimationFrame(animationFrameRef.current);
+      }
+    };
+  }, [playing, timeline, speed]);
+
+  const togglePlaying = useCallback(() => {
+    if (!timeline) return;
+    // Pressing play at the end watches the replay again
+    if (!playing && world && world.tick >= length) {
+      setWorld(timeline.keyframes[0]!);
+    }
+    setPlaying(current => !current);
+  }, [timeline, playing, world, length]);
+
+  const seek = useCallback(
+    (tick: number) => {
+      if (!timeline) return;
+      setWorld(current => seekReplay(timeline, tick, current ?? undefined));
+    },
+    [timeline]
+  );
+
+  return {
+    world,
+    tick: world?.tick ?? 0,
+    length,
+    playing,
+    speed,
+    // Set when the replay's levels aren't loaded or its run log doesn't play back
+    error: replay && !timeline ? 'This replay cannot be played on these levels' : null,
+    togglePlaying,
+    seek,
+    setSpeed,
+  };
+};
+
+export type ReplayPlayer = ReturnType<typeof useReplayPlayer>;
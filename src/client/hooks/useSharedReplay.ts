@@ -0,0 +1,89 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { GameAction } from '../types/game';
+import type { Replay } from '../../shared/game/replay';
+import type { LoadedLevelPack } from '../../shared/game/levelPack';
+import { parseReplay, serializeReplay } from '../../shared/game/replay';
+import { formatLevelPackError, loadLevelPack } from '../../shared/game/levelPack';
+import { createDefaultGameConfig } from '../utils/gameLogic';
+import { fetchReplay, uploadReplay } from '../utils/gameApi';
+
+// Shared replays open from a link to the post with `?replay=<id>`
+const REPLAY_ROUTE_PARAM = 'replay';
+
+const getRouteReplayId = (): string | null => new URLSearchParams(window.location.search).get(REPLAY_ROUTE_PARAM);
+
+export const getReplayLink = (id: string): string => {
+  const url = new URL(window.location.href);
+  url.search = '';
+  url.searchParams.set(REPLAY_ROUTE_PARAM, id);
+  return url.toString();
+};
+
+export const useSharedReplay = (dispatch: (action: GameAction) => void) => {
+  const [loading, setLoading] = useState(false);
+  const [sharing, setSharing] = useState(false);
+  const [sharedId, setSharedId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const openReplay = useCallback(
+    async (id: string) => {
+      setLoading(true);
+      setError(null);
+      try {
+        const response = await fetchReplay(id);
+        const replay = parseReplay(response.replay);
+        if (!replay) throw new Error('This replay was recorded by an older version of the game');
+
+        let levelPack: LoadedLevelPack | null = null;
+        if (response.levelPack) {
+          const result = loadLevelPack(response.levelPack, createDefaultGameConfig());
+          if (!result.ok) throw new Error(`Replay levels are invalid: ${result.errors.map(formatLevelPackError).join(', ')}`);
+          levelPack = result.pack;
+        }
+
+        dispatch({
+          type: 'WATCH_SHARED_REPLAY',
+          payload: { id, replay, username: response.username, scoreData: response.scoreData, levelPack },
+        });
+      } catch (loadError) {
+        console.error(`Failed to load replay ${id}:`, loadError);
+        setError(loadError instanceof Error ? loadError.message : 'Failed to load replay');
+      } finally {
+        setLoading(false);
+      }
+    },
+    [dispatch]
+  );
+
+  // Returns the new replay's id, or null if the server refused it
+  const shareReplay = useCallback(async (replay: Replay): Promise<string | null> => {
+    setSharing(true);
+    setError(null);
+    try {
+      const response = await uploadReplay(serializeReplay(replay));
+      setSharedId(response.id);
+      return response.id;
+    } catch (shareError) {
+      console.error('Failed to share replay:', shareError);
+      setError(shareError instanceof Error ? shareError.message : 'Failed to share replay');
+      return null;
+    } finally {
+      setSharing(false);
+    }
+  }, []);
+
+  const resetShare = useCallback(() => {
+    setSharedId(null);
+    setError(null);
+  }, []);
+
+  // Open the replay a share link points at once, when the app loads
+  useEffect(() => {
+    const id = getRouteReplayId();
+    if (id) void openReplay(id);
+  }, [openReplay]);
+
+  return { loading, sharing, sharedId, error, openReplay, shareReplay, resetShare };
+};
+
+export type SharedReplayState = ReturnType<typeof useSharedReplay>;
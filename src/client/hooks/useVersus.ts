@@ -0,0 +1,272 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { GameAction, GameData, VersusMatch } from '../types/game';
+import type { VersusJoinResponse } from '../../shared/types/api';
+import type { VersusField, VersusMessage, VersusResult } from '../../shared/game/versus';
+import type { VersusTransport } from '../utils/versusTransport';
+import { VERSUS_FIELD_INTERVAL_MS, createVersusField, getComboAttack, getVersusResult } from '../../shared/game/versus';
+import { createPackGameConfig } from '../../shared/game/levelPack';
+import { createRunSeed } from '../../shared/game/runLog';
+import { createLoopbackPair, createRealtimeTransport } from '../utils/versusTransport';
+import { VERSUS_BOT_NAME, startVersusBot } from '../utils/versusBot';
+import { createDefaultGameConfig } from '../utils/gameLogic';
+import { joinVersus, leaveVersus } from '../utils/gameApi';
+
+// Waiting players join again this often to keep their place in the lobby
+// and to pick up a match whose start message they missed
+const LOBBY_HEARTBEAT_MS = 10 * 1000;
+
+const PRACTICE_MATCH_ID = 'practice';
+const PRACTICE_PLAYER = 'you';
+
+type Opponent = {
+  field: VersusField | null;
+  finalScore: number | null; // set once their run is over
+  left: boolean;
+};
+
+const createOpponent = (): Opponent => ({ field: null, finalScore: null, left: false });
+
+// Finds an opponent through the post's lobby and plays the match: publishes the
+// player's field, sends attacks for combos and applies the opponent's.
+export const useVersus = (gameData: GameData, dispatch: (action: GameAction) => void) => {
+  const { versus, gameState, scoreData } = gameData;
+  const [searching, setSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [opponent, setOpponent] = useState<Opponent>(createOpponent);
+  const [attacks, setAttacks] = useState({ sent: 0, received: 0 });
+
+  const gameDataRef = useRef(gameData);
+  const transportRef = useRef<{ matchId: string; transport: VersusTransport } | null>(null);
+  const stopBotRef = useRef<(() => void) | null>(null);
+  const usernameRef = useRef<string | null>(null);
+  const pendingMatchIdRef = useRef<string | null>(null);
+  const activeMatchIdRef = useRef<string | null>(null);
+  const previousComboRef = useRef(0);
+  const finishedRef = useRef(false);
+
+  useEffect(() => {
+    gameDataRef.current = gameData;
+  }, [gameData]);
+
+  const send = useCallback((message: VersusMessage) => {
+    transportRef.current?.transport.send(message);
+  }, []);
+
+  const closeTransport = useCallback(() => {
+    stopBotRef.current?.();
+    stopBotRef.current = null;
+    transportRef.current?.transport.close();
+    transportRef.current = null;
+  }, []);
+
+  const startMatch = useCallback(
+    (match: VersusMatch) => {
+      activeMatchIdRef.current = match.matchId;
+      pendingMatchIdRef.current = null;
+      previousComboRef.current = 0;
+      finishedRef.current = false;
+      setSearching(false);
+      setOpponent(createOpponent());
+      setAttacks({ sent: 0, received: 0 });
+      dispatch({ type: 'START_VERSUS', payload: match });
+    },
+    [dispatch]
+  );
+
+  const handleMessage = useCallback(
+    (message: VersusMessage) => {
+      const username = usernameRef.current;
+      if (message.type === 'start') {
+        if (username && !activeMatchIdRef.current && message.players.includes(username)) {
+          const opponentName = message.players.find(player => player !== username) ?? username;
+          startMatch({ matchId: message.matchId, username, opponent: opponentName, seed: message.seed, practice: false });
+        }
+        return;
+      }
+
+      // Realtime echoes the player's own messages back
+      if (!gameDataRef.current.versus || message.player === username) return;
+
+      switch (message.type) {
+        case 'field':
+          setOpponent(prev => ({ ...prev, field: message.field }));
+          break;
+        case 'attack':
+          if (gameDataRef.current.gameState === 'GAME_OVER') break;
+          dispatch({ type: 'VERSUS_ATTACK', payload: message.attack });
+          setAttacks(prev => ({ ...prev, received: prev.received + 1 }));
+          break;
+        case 'finish':
+          setOpponent(prev => ({ ...prev, finalScore: message.score }));
+          break;
+        case 'leave':
+          setOpponent(prev => ({ ...prev, left: true }));
+          break;
+      }
+    },
+    [dispatch, startMatch]
+  );
+
+  const openTransport = useCallback(
+    (matchId: string, transport: VersusTransport) => {
+      closeTransport();
+      transport.subscribe(handleMessage);
+      transportRef.current = { matchId, transport };
+    },
+    [closeTransport, handleMessage]
+  );
+
+  const handleJoin = useCallback(
+    (response: VersusJoinResponse) => {
+      usernameRef.current = response.username;
+      const matchId = response.type === 'versusWaiting' ? response.matchId : response.match.matchId;
+      if (transportRef.current?.matchId !== matchId) {
+        openTransport(matchId, createRealtimeTransport(matchId));
+      }
+
+      if (response.type === 'versusWaiting') {
+        pendingMatchIdRef.current = matchId;
+        return;
+      }
+
+      const { players, seed } = response.match;
+      if (activeMatchIdRef.current === matchId) return;
+      const opponentName = players.find(player => player !== response.username) ?? response.username;
+      startMatch({ matchId, username: response.username, opponent: opponentName, seed, practice: false });
+    },
+    [openTransport, startMatch]
+  );
+
+  const findMatch = useCallback(async () => {
+    setSearching(true);
+    setError(null);
+    try {
+      handleJoin(await joinVersus());
+    } catch (joinError) {
+      console.error('Failed to join versus lobby:', joinError);
+      setError(joinError instanceof Error ? joinError.message : 'Failed to join the versus lobby');
+      setSearching(false);
+    }
+  }, [handleJoin]);
+
+  const cancelSearch = useCallback(() => {
+    setSearching(false);
+    pendingMatchIdRef.current = null;
+    closeTransport();
+    leaveVersus().catch(leaveError => console.error('Failed to leave versus lobby:', leaveError));
+  }, [closeTransport]);
+
+  // A match against a bot over a loopback transport, played on the post's levels
+  const practice = useCallback(() => {
+    const { postLevelPack } = gameDataRef.current;
+    const config = postLevelPack
+      ? createPackGameConfig(createDefaultGameConfig(), postLevelPack)
+      : createDefaultGameConfig();
+    const seed = createRunSeed();
+    const [playerEnd, botEnd] = createLoopbackPair();
+
+    setError(null);
+    usernameRef.current = PRACTICE_PLAYER;
+    openTransport(PRACTICE_MATCH_ID, playerEnd);
+    stopBotRef.current = startVersusBot(botEnd, config, seed);
+    startMatch({ matchId: PRACTICE_MATCH_ID, username: PRACTICE_PLAYER, opponent: VERSUS_BOT_NAME, seed, practice: true });
+  }, [openTransport, startMatch]);
+
+  // Keep a waiting player's place in the lobby until they are matched
+  useEffect(() => {
+    if (!searching) return;
+
+    const interval = setInterval(() => {
+      const matchId = pendingMatchIdRef.current;
+      if (!matchId) return;
+      joinVersus(matchId)
+        .then(handleJoin)
+        .catch(joinError => console.error('Versus lobby heartbeat failed:', joinError));
+    }, LOBBY_HEARTBEAT_MS);
+
+    return () => clearInterval(interval);
+  }, [searching, handleJoin]);
+
+  // Publish the player's field while their run is in progress
+  useEffect(() => {
+    if (!versus || gameState === 'MENU' || gameState === 'GAME_OVER') return;
+
+    const interval = setInterval(() => {
+      const { username } = versus;
+      send({ type: 'field', player: username, field: createVersusField(gameDataRef.current) });
+    }, VERSUS_FIELD_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [versus, gameState, send]);
+
+  // Combos send attacks to the opponent
+  useEffect(() => {
+    const combo = scoreData.consecutiveBounces;
+    const attack = versus && getComboAttack(previousComboRef.current, combo);
+    previousComboRef.current = combo;
+    if (!versus || !attack) return;
+
+    send({ type: 'attack', player: versus.username, attack });
+    setAttacks(prev => ({ ...prev, sent: prev.sent + 1 }));
+  }, [versus, scoreData.consecutiveBounces, send]);
+
+  // Tell the opponent once the player's run is over
+  useEffect(() => {
+    if (!versus || gameState !== 'GAME_OVER' || finishedRef.current) return;
+    finishedRef.current = true;
+
+    const { username } = versus;
+    send({ type: 'field', player: username, field: createVersusField(gameDataRef.current) });
+    send({ type: 'finish', player: username, score: scoreData.score });
+  }, [versus, gameState, scoreData.score, send]);
+
+  // The match ends when the player leaves it, which resetting the game does
+  useEffect(() => {
+    if (versus || !activeMatchIdRef.current) return;
+
+    const username = usernameRef.current;
+    if (username) send({ type: 'leave', player: username });
+    activeMatchIdRef.current = null;
+    closeTransport();
+    setOpponent(createOpponent());
+  }, [versus, send, closeTransport]);
+
+  // Leave any match or lobby when the app closes
+  useEffect(
+    () => () => {
+      const username = usernameRef.current;
+      if (activeMatchIdRef.current && username) {
+        transportRef.current?.transport.send({ type: 'leave', player: username });
+      } else if (pendingMatchIdRef.current) {
+        void leaveVersus().catch(() => undefined);
+      }
+      closeTransport();
+    },
+    [closeTransport]
+  );
+
+  // Settled once both runs are over, or as a win when the opponent walks out
+  let result: VersusResult | null = null;
+  if (versus && gameState === 'GAME_OVER') {
+    if (opponent.finalScore !== null) {
+      result = getVersusResult(scoreData.score, opponent.finalScore);
+    } else if (opponent.left) {
+      result = 'won';
+    }
+  }
+
+  return {
+    searching,
+    error,
+    opponentField: opponent.field,
+    opponentFinalScore: opponent.finalScore,
+    opponentLeft: opponent.left,
+    attacks,
+    result,
+    findMatch,
+    cancelSearch,
+    practice,
+  };
+};
+
+export type VersusState = ReturnType<typeof useVersus>;
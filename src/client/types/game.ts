@@ -1,3 +1,46 @@
+import type {
+  BallPosition,
+  BallPhysics,
+  Platform,
+  LevelConfig,
+  GameConfig,
+  CollisionState,
+  ScoreData,
+  Obstacle,
+  PowerUpType,
+  GameMode,
+} from '../../shared/game/types';
+import type { LevelPackLevel, LoadedLevelPack } from '../../shared/game/levelPack';
+import type { DailyChallenge } from '../../shared/game/dailyChallenge';
+import type { RunLog } from '../../shared/game/runLog';
+import type { Replay } from '../../shared/game/replay';
+import type { PhysicsWorld, WorldEvent, WorldPickup } from '../../shared/game/world';
+import type { ActivePowerUp } from '../../shared/game/powerUps';
+import type { VersusAttack } from '../../shared/game/versus';
+import type { KeyBindings } from '../../shared/game/keyBindings';
+import type { PlayerProfile } from '../../shared/types/api';
+import type { PaddleInput } from '../utils/paddleInput';
+
+export type {
+  BallPosition,
+  BallVelocity,
+  BallPhysics,
+  Platform,
+  LevelConfig,
+  GameConfig,
+  CollisionState,
+  ScoreData,
+  PaddleScore,
+  BounceSurface,
+  ObstacleType,
+  Obstacle,
+  PowerUpType,
+  WinCondition,
+  LevelBackground,
+  PowerUpSpawnTable,
+  GameMode,
+} from '../../shared/game/types';
+
 export enum GameState {
   MENU = 'MENU',
   AIMING = 'AIMING',
@@ -5,77 +48,9 @@ export enum GameState {
   PAUSED = 'PAUSED',
   GAME_OVER = 'GAME_OVER',
   LEVEL_COMPLETE = 'LEVEL_COMPLETE',
+  EDITOR = 'EDITOR',
 }
 
-export type BallPosition = {
-  x: number;
-  y: number;
-};
-
-export type BallVelocity = {
-  vx: number;
-  vy: number;
-};
-
-export type BallPhysics = {
-  position: BallPosition;
-  velocity: BallVelocity;
-  radius: number;
-  gravity: number;
-  bounceCoefficient: number;
-  maxVelocity: number;
-};
-
-export type Platform = {
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-  speed: number;
-};
-
-export type LevelConfig = {
-  level: number;
-  ballSpeed: number;
-  platformWidth: number;
-  platformSpeed: number;
-  gravity: number;
-  bounceCoefficient: number;
-  targetBounces: number;
-  timeLimit: number; // seconds
-};
-
-export type GameConfig = {
-  canvasWidth: number;
-  canvasHeight: number;
-  ballRadius: number;
-  platformHeight: number;
-  platformY: number; // Distance from bottom
-  maxVelocity: number;
-  initialBallY: number; // Starting Y position
-  levels: LevelConfig[];
-};
-
-export type CollisionState = {
-  wall: boolean;
-  ceiling: boolean;
-  platform: boolean;
-  floor: boolean;
-  hitPosition?: number;
-};
-
-export type ScoreData = {
-  score: number;
-  lives: number;
-  level: number;
-  highScore: number;
-  bounceCount: number;
-  timeElapsed: number;
-  multiplier: number;
-  consecutiveBounces: number;
-  comboCount: number;
-};
-
 export type AimData = {
   angle: number; // 0-180 degrees from horizontal
   power: number; // 0-100 percentage
@@ -86,7 +61,7 @@ export type AimData = {
 };
 
 export type ControlState = {
-  inputType: 'mouse' | 'touch' | 'keyboard';
+  inputType: 'mouse' | 'touch' | 'keyboard' | 'gamepad';
   isDragging: boolean;
   dragStartX: number;
   dragStartY: number;
@@ -97,14 +72,6 @@ export type ControlState = {
   keyboardRight: boolean;
 };
 
-export type PowerUpType = 
-  | 'multi-ball' 
-  | 'larger-paddle' 
-  | 'slow-mo' 
-  | 'shield' 
-  | 'score-multiplier' 
-  | 'magnetic-paddle';
-
 export type PowerUp = {
   id: string;
   type: PowerUpType;
@@ -116,21 +83,6 @@ export type PowerUp = {
   collected: boolean;
 };
 
-export type ObstacleType = 'static-block' | 'moving-barrier' | 'breakable-brick' | 'speed-boost';
-
-export type Obstacle = {
-  id: string;
-  type: ObstacleType;
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-  vx?: number;
-  vy?: number;
-  health?: number;
-  maxHealth?: number;
-  points?: number;
-};
 
 export type Achievement = {
   id: string;
@@ -169,11 +121,17 @@ export type ParticleEffect = {
   size: number;
 };
 
+// Recent positions of each ball in play, by ball id
+export type BallTrails = Record<string, BallPosition[]>;
+
+export type SyncStatus = 'idle' | 'syncing' | 'synced' | 'offline' | 'error';
+
 export type GameData = {
   gameState: GameState;
   scoreData: ScoreData;
   ballPhysics: BallPhysics;
   platform: Platform;
+  partnerPlatform: Platform | null; // The second paddle in co-op
   config: GameConfig;
   collisionState: CollisionState;
   currentLevel: LevelConfig;
@@ -182,18 +140,36 @@ export type GameData = {
   aimData: AimData;
   controlState: ControlState;
   visualEffects: VisualEffect[];
-  ballTrail: BallPosition[];
+  ballTrails: BallTrails;
   screenShake: { intensity: number; duration: number; startTime: number };
-  powerUps: PowerUp[];
-  activePowerUps: PowerUp[];
+  powerUps: WorldPickup[]; // Waiting on the playfield to be collected
+  activePowerUps: ActivePowerUp[];
   obstacles: Obstacle[];
   achievements: Achievement[];
   difficultyMode: DifficultyMode;
   audioSettings: AudioSettings;
+  keyBindings: KeyBindings;
   soundEffects: SoundEffect[];
-  multiBalls: BallPhysics[];
-  shieldBounces: number;
-  magneticRange: number;
+  multiBalls: BallPhysics[]; // Balls in play besides ballPhysics
+  ballCombos: Record<string, number>; // Consecutive platform bounces of each ball in play, by id
+  shieldBounces: number; // Floor hits the shield still absorbs
+  magneticRange: number; // 0 unless the magnetic paddle is active
+  syncStatus: SyncStatus;
+  profile: PlayerProfile | null; // Lifetime stats, null until loaded from the server
+  levelPack: LoadedLevelPack | null; // Custom levels being played, null for the built-in ones
+  postLevelPack: LoadedLevelPack | null; // Levels this post was created with; only these runs are ranked
+  playTesting: boolean; // Playing a level from the editor
+  dailyChallenge: DailyChallenge | null; // Set on daily challenge posts
+  gameMode: GameMode;
+  coop: boolean; // Two players on one device, each with their own paddle
+  modeHighScores: Record<GameMode, number>; // scoreData.highScore mirrors the current mode's entry
+  worldEvents: WorldEvent[]; // Events from the most recent world update
+  runLog: RunLog | null; // Set once the run is over
+  replay: Replay | null; // Played back on the canvas from the menu or game over screen
+  sharedReplay: SharedReplay | null; // Set when the replay was opened from a share link
+  ghost: Ghost | null; // A recorded run raced alongside the live one
+  worldTick: number; // Steps the current run has played, which the ghost keeps pace with
+  versus: VersusMatch | null; // Set while a versus match is being played
 };
 
 export type GameAction =
@@ -204,13 +180,11 @@ export type GameAction =
   | { type: 'RESUME_GAME' }
   | { type: 'RESET_GAME' }
   | { type: 'UPDATE_BALL_PHYSICS'; payload: BallPhysics }
-  | { type: 'UPDATE_PLATFORM_POSITION'; payload: number }
+  | { type: 'UPDATE_PADDLE_INPUT'; payload: { paddle: number; input: Partial<PaddleInput> } }
   | { type: 'UPDATE_SCORE'; payload: Partial<ScoreData> }
   | { type: 'SET_GAME_STATE'; payload: GameState }
   | { type: 'SET_COLLISION_STATE'; payload: CollisionState }
-  | { type: 'BALL_BOUNCE'; payload: { surface: 'platform' | 'wall' | 'ceiling' | 'floor'; hitPosition?: number } }
-  | { type: 'LOSE_LIFE' }
-  | { type: 'NEXT_LEVEL' }
+  | { type: 'WORLD_UPDATED'; payload: { world: PhysicsWorld; events: WorldEvent[] } }
   | { type: 'GAME_OVER' }
   | { type: 'UPDATE_TIME' }
   | { type: 'RESET_COMBO' }
@@ -218,12 +192,7 @@ export type GameAction =
   | { type: 'UPDATE_CONTROL_STATE'; payload: Partial<ControlState> }
   | { type: 'ADD_VISUAL_EFFECT'; payload: VisualEffect }
   | { type: 'REMOVE_VISUAL_EFFECT'; payload: string }
-  | { type: 'UPDATE_BALL_TRAIL'; payload: BallPosition[] }
   | { type: 'SCREEN_SHAKE'; payload: { intensity: number; duration: number } }
-  | { type: 'SPAWN_POWERUP'; payload: PowerUp }
-  | { type: 'COLLECT_POWERUP'; payload: string }
-  | { type: 'ACTIVATE_POWERUP'; payload: PowerUp }
-  | { type: 'DEACTIVATE_POWERUP'; payload: string }
   | { type: 'SPAWN_OBSTACLE'; payload: Obstacle }
   | { type: 'REMOVE_OBSTACLE'; payload: string }
   | { type: 'UPDATE_OBSTACLE'; payload: Obstacle }
@@ -231,8 +200,56 @@ export type GameAction =
   | { type: 'UPDATE_ACHIEVEMENT_PROGRESS'; payload: { id: string; progress: number } }
   | { type: 'SET_DIFFICULTY_MODE'; payload: DifficultyMode }
   | { type: 'UPDATE_AUDIO_SETTINGS'; payload: Partial<AudioSettings> }
+  | { type: 'SET_KEY_BINDINGS'; payload: KeyBindings }
   | { type: 'PLAY_SOUND_EFFECT'; payload: string }
-  | { type: 'ADD_MULTI_BALL'; payload: BallPhysics }
-  | { type: 'REMOVE_MULTI_BALL'; payload: string }
-  | { type: 'UPDATE_SHIELD_BOUNCES'; payload: number }
-  | { type: 'SET_MAGNETIC_RANGE'; payload: number };
+  | { type: 'REMOVE_MULTI_BALL'; payload: string } // a ball's id
+  | { type: 'SET_SYNC_STATUS'; payload: SyncStatus }
+  | { type: 'LOAD_PROFILE'; payload: PlayerProfile }
+  | { type: 'LOAD_LEVEL_PACK'; payload: LoadedLevelPack | null }
+  | { type: 'BIND_POST_LEVEL_PACK'; payload: LoadedLevelPack }
+  | { type: 'OPEN_EDITOR' }
+  | { type: 'CLOSE_EDITOR' }
+  | { type: 'PLAY_TEST_LEVEL'; payload: LoadedLevelPack }
+  | { type: 'SET_DAILY_CHALLENGE'; payload: DailyChallenge }
+  | { type: 'SET_GAME_MODE'; payload: GameMode }
+  | { type: 'SET_COOP'; payload: boolean }
+  | { type: 'LOAD_HIGH_SCORES'; payload: Record<GameMode, number> }
+  | { type: 'WATCH_REPLAY'; payload: Replay }
+  | { type: 'WATCH_SHARED_REPLAY'; payload: SharedReplay }
+  | { type: 'SET_GHOST'; payload: Ghost | null }
+  | { type: 'START_VERSUS'; payload: VersusMatch }
+  | { type: 'VERSUS_ATTACK'; payload: VersusAttack }
+  | { type: 'CLOSE_REPLAY' };
+
+// A replay another player shared, with the result the server replayed for it
+export type SharedReplay = {
+  id: string;
+  replay: Replay;
+  username: string;
+  scoreData: ScoreData;
+  levelPack: LoadedLevelPack | null; // the levels it was recorded on, null for the built-in ones
+};
+
+// Ghosts replay a campaign run on the levels being played
+export type Ghost = {
+  username: string;
+  score: number; // the ghost run's final score
+  replay: Replay;
+};
+
+// Both players of a versus match play the post's levels from the same seed.
+// Practice matches are played against a local bot.
+export type VersusMatch = {
+  matchId: string;
+  username: string;
+  opponent: string;
+  seed: number;
+  practice: boolean;
+};
+
+// The single level being built in the level editor
+export type LevelEditorDraft = {
+  id: string;
+  name: string;
+  level: LevelPackLevel;
+};
@@ -35,6 +35,10 @@ export class AudioManager {
       { id: 'game_over', frequency: 110, duration: 1.0 },
       { id: 'high_score', frequency: 1320, duration: 0.3 },
       { id: 'achievement', frequency: 1760, duration: 0.4 },
+      { id: 'brick_break', frequency: 550, duration: 0.15 },
+      { id: 'speed_boost', frequency: 990, duration: 0.2 },
+      { id: 'bumper', frequency: 740, duration: 0.08 },
+      { id: 'portal', frequency: 1180, duration: 0.25 },
     ];
 
     for (const sound of sounds) {
@@ -242,11 +246,35 @@ const animatePulse = (
   setTimeout(animate, delay * 1000);
 };
 
-// Vibration API for mobile devices
+// Rumbles connected gamepads that have a vibration actuator. Like navigator.vibrate,
+// the pattern alternates between rumbling and pausing durations in ms.
+export const triggerGamepadRumble = (pattern: number[] = [100]): void => {
+  if (!('getGamepads' in navigator)) return;
+
+  const actuators = navigator
+    .getGamepads()
+    .flatMap(gamepad => (gamepad?.vibrationActuator ? [gamepad.vibrationActuator] : []));
+
+  let startDelay = 0;
+  pattern.forEach((duration, index) => {
+    if (index % 2 === 0) {
+      const delay = startDelay;
+      actuators.forEach(actuator => {
+        actuator
+          .playEffect('dual-rumble', { startDelay: delay, duration, strongMagnitude: 0.8, weakMagnitude: 0.5 })
+          .catch(() => undefined); // unsupported effects are skipped
+      });
+    }
+    startDelay += duration;
+  });
+};
+
+// Vibration API for mobile devices, mirrored on gamepads
 export const triggerVibration = (pattern: number[] = [100]): void => {
   if ('vibrate' in navigator) {
     navigator.vibrate(pattern);
   }
+  triggerGamepadRumble(pattern);
 };
 
 // Sound effect patterns for different events
@@ -260,6 +288,10 @@ export const getVibrationPattern = (soundId: string): number[] => {
     'game_over': [300, 200, 300],
     'high_score': [100, 50, 100, 50, 100],
     'achievement': [200, 100, 200],
+    'brick_break': [80, 40, 80],
+    'speed_boost': [60],
+    'bumper': [40],
+    'portal': [30, 30, 30],
   };
   
   return patterns[soundId] || [100];
@@ -0,0 +1,269 @@
+import type {
+  GameInitResponse,
+  GameUpdateResponse,
+  GameActionRequest,
+  HighScoreResponse,
+  HighScoreUpdateRequest,
+  HighScoreUpdateResponse,
+  LeaderboardScope,
+  LeaderboardSubmitRequest,
+  LeaderboardSubmitResponse,
+  LeaderboardResponse,
+  LeaderboardRankResponse,
+  LeaderboardAroundResponse,
+  PlayerProfile,
+  ProfileResponse,
+  CustomLevelListResponse,
+  CustomLevelResponse,
+  CustomLevelSaveResponse,
+  DailyArchiveResponse,
+  ReplayUploadResponse,
+  ReplayResponse,
+  GhostResponse,
+  VersusJoinResponse,
+  VersusLeaveResponse,
+  VersusMessageResponse,
+} from '../../shared/types/api';
+import type { LevelPack } from '../../shared/game/levelPack';
+import type { VersusMessage } from '../../shared/game/versus';
+import type { GameAction, GameData, ScoreData, SyncStatus } from '../types/game';
+
+type ErrorResponse = { status: string; message: string };
+
+// Raised for non-2xx responses so callers can tell rejections from network failures.
+// `body` is the parsed error response, for endpoints that return details.
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly body: unknown = null
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+// Client errors (e.g. a rejected run log) will fail the same way on every attempt
+const isRetryable = (error: unknown): boolean => !(error instanceof ApiError && error.status < 500);
+
+export type RetryOptions = {
+  retries: number;
+  baseDelay: number; // ms, doubled after every failed attempt
+};
+
+const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  retries: 3,
+  baseDelay: 500,
+};
+
+export const isOffline = (): boolean => typeof navigator !== 'undefined' && navigator.onLine === false;
+
+const wait = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+const requestJson = async <T>(url: string, init?: RequestInit): Promise<T> => {
+  const response = await fetch(url, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init?.headers },
+  });
+
+  if (!response.ok) {
+    let message = `Request to ${url} failed with status ${response.status}`;
+    let body: Partial<ErrorResponse> | null = null;
+    try {
+      body = (await response.json()) as Partial<ErrorResponse>;
+      if (body.message) message = body.message;
+    } catch {
+      // Non-JSON error body, keep the generic message
+    }
+    throw new ApiError(message, response.status, body);
+  }
+
+  return (await response.json()) as T;
+};
+
+export const withRetry = async <T>(
+  request: () => Promise<T>,
+  options: RetryOptions = DEFAULT_RETRY_OPTIONS
+): Promise<T> => {
+  let lastError: unknown;
+
+  for (let attempt = 0; attempt <= options.retries; attempt++) {
+    if (isOffline()) {
+      throw new Error('Network is offline');
+    }
+
+    try {
+      return await request();
+    } catch (error) {
+      lastError = error;
+      if (!isRetryable(error)) break;
+      if (attempt < options.retries) {
+        await wait(options.baseDelay * 2 ** attempt);
+      }
+    }
+  }
+
+  throw lastError instanceof Error ? lastError : new Error('Request failed');
+};
+
+export const fetchGameInit = (): Promise<GameInitResponse> =>
+  withRetry(() => requestJson<GameInitResponse>('/api/game/init'));
+
+export const postGameAction = (request: GameActionRequest): Promise<GameUpdateResponse> =>
+  withRetry(() =>
+    requestJson<GameUpdateResponse>('/api/game/action', {
+      method: 'POST',
+      body: JSON.stringify(request),
+    })
+  );
+
+export const fetchHighScore = (): Promise<HighScoreResponse> =>
+  withRetry(() => requestJson<HighScoreResponse>('/api/game/highscore'));
+
+export const submitHighScore = (request: HighScoreUpdateRequest): Promise<HighScoreUpdateResponse> =>
+  withRetry(() =>
+    requestJson<HighScoreUpdateResponse>('/api/game/highscore', {
+      method: 'POST',
+      body: JSON.stringify(request),
+    })
+  );
+
+export const submitLeaderboardRun = (request: LeaderboardSubmitRequest): Promise<LeaderboardSubmitResponse> =>
+  withRetry(() =>
+    requestJson<LeaderboardSubmitResponse>('/api/leaderboard/submit', {
+      method: 'POST',
+      body: JSON.stringify(request),
+    })
+  );
+
+export const fetchLeaderboard = (
+  scope: LeaderboardScope,
+  offset: number,
+  limit: number
+): Promise<LeaderboardResponse> =>
+  withRetry(() => requestJson<LeaderboardResponse>(`/api/leaderboard/${scope}?offset=${offset}&limit=${limit}`));
+
+export const fetchLeaderboardRank = (scope: LeaderboardScope): Promise<LeaderboardRankResponse> =>
+  withRetry(() => requestJson<LeaderboardRankResponse>(`/api/leaderboard/${scope}/me`));
+
+export const fetchLeaderboardAround = (scope: LeaderboardScope, radius: number): Promise<LeaderboardAroundResponse> =>
+  withRetry(() => requestJson<LeaderboardAroundResponse>(`/api/leaderboard/${scope}/around?radius=${radius}`));
+
+export const fetchProfile = (): Promise<ProfileResponse> =>
+  withRetry(() => requestJson<ProfileResponse>('/api/profile'));
+
+export const saveProfile = (profile: PlayerProfile): Promise<ProfileResponse> =>
+  withRetry(() =>
+    requestJson<ProfileResponse>('/api/profile', {
+      method: 'PUT',
+      body: JSON.stringify({ profile }),
+    })
+  );
+
+export const fetchCustomLevels = (): Promise<CustomLevelListResponse> =>
+  withRetry(() => requestJson<CustomLevelListResponse>('/api/levels'));
+
+export const fetchCustomLevel = (id: string): Promise<CustomLevelResponse> =>
+  withRetry(() => requestJson<CustomLevelResponse>(`/api/levels/${encodeURIComponent(id)}`));
+
+// A rejected pack fails with an ApiError whose body is a LevelPackRejectedResponse
+export const saveCustomLevel = (pack: LevelPack): Promise<CustomLevelSaveResponse> =>
+  withRetry(() =>
+    requestJson<CustomLevelSaveResponse>('/api/levels', {
+      method: 'POST',
+      body: JSON.stringify({ pack }),
+    })
+  );
+
+export const fetchDailyArchive = (): Promise<DailyArchiveResponse> =>
+  withRetry(() => requestJson<DailyArchiveResponse>('/api/daily/archive'));
+
+// `replay` is a serialised replay. The server replays it before storing it.
+export const uploadReplay = (replay: string): Promise<ReplayUploadResponse> =>
+  withRetry(() =>
+    requestJson<ReplayUploadResponse>('/api/replay', {
+      method: 'POST',
+      body: JSON.stringify({ replay }),
+    })
+  );
+
+export const fetchReplay = (id: string): Promise<ReplayResponse> =>
+  withRetry(() => requestJson<ReplayResponse>(`/api/replay/${encodeURIComponent(id)}`));
+
+export const fetchGhost = (): Promise<GhostResponse> => withRetry(() => requestJson<GhostResponse>('/api/ghost'));
+
+// `matchId` is the match a waiting player is subscribed to, sent again to keep their place
+export const joinVersus = (matchId?: string): Promise<VersusJoinResponse> =>
+  requestJson<VersusJoinResponse>('/api/versus/join', {
+    method: 'POST',
+    body: JSON.stringify(matchId ? { matchId } : {}),
+  });
+
+export const leaveVersus = (): Promise<VersusLeaveResponse> =>
+  requestJson<VersusLeaveResponse>('/api/versus/leave', { method: 'POST' });
+
+// Field updates are sent several times a second, so failures are not retried
+export const postVersusMessage = (matchId: string, message: VersusMessage): Promise<VersusMessageResponse> =>
+  requestJson<VersusMessageResponse>(`/api/versus/${encodeURIComponent(matchId)}/message`, {
+    method: 'POST',
+    body: JSON.stringify(message),
+  });
+
+// The server replays runs against the levels the post was created with, so
+// only runs on those levels can be submitted. Endless waves and brick-breaker
+// levels are the same everywhere.
+// Versus runs are played against an opponent's attacks, so they are not ranked
+// with solo runs.
+export const isRankedRun = (gameData: GameData): boolean =>
+  !gameData.versus && (gameData.gameMode !== 'campaign' || gameData.levelPack === gameData.postLevelPack);
+
+// Maps a dispatched game action onto the server action it should be mirrored as.
+// Returns null for actions that only affect local presentation state.
+export const getSyncAction = (action: GameAction): GameActionRequest['action'] | null => {
+  switch (action.type) {
+    case 'START_GAME':
+      return 'start';
+    case 'PAUSE_GAME':
+      return 'pause';
+    case 'RESUME_GAME':
+      return 'resume';
+    case 'RESET_GAME':
+      return 'reset';
+    case 'WORLD_UPDATED':
+      // Lives and levels change inside the simulation; mirror the score when they do
+      return action.payload.events.some(
+        event => event.type === 'floorHit' || event.type === 'timeUp' || event.type === 'levelComplete'
+      )
+        ? 'updateScore'
+        : null;
+    case 'GAME_OVER':
+      return 'updateScore';
+    default:
+      return null;
+  }
+};
+
+// scoreData.highScore is the current mode's best, so it is left out: high
+// scores are only stored once the server has verified the run
+export const createGameActionRequest = (
+  action: GameActionRequest['action'],
+  scoreData: ScoreData
+): GameActionRequest => {
+  if (action !== 'updateScore') {
+    return { action };
+  }
+
+  return {
+    action,
+    score: scoreData.score,
+    level: scoreData.level,
+    lives: scoreData.lives,
+    bounceCount: scoreData.bounceCount,
+    timeElapsed: scoreData.timeElapsed,
+    multiplier: scoreData.multiplier,
+    consecutiveBounces: scoreData.consecutiveBounces,
+    comboCount: scoreData.comboCount,
+  };
+};
+
+export const getSyncErrorStatus = (): SyncStatus => (isOffline() ? 'offline' : 'error');
@@ -0,0 +1,62 @@
+import type { ScoreData, GameState } from '../types/game';
+import { calculateAimAngle } from './gameLogic';
+
+// Buttons and axes of the standard gamepad mapping
+const BUTTON_A = 0;
+const BUTTON_RIGHT_TRIGGER = 7;
+const BUTTON_START = 9;
+const BUTTON_DPAD_LEFT = 14;
+const BUTTON_DPAD_RIGHT = 15;
+const AXIS_LEFT_X = 0;
+const AXIS_RIGHT_X = 2;
+const AXIS_RIGHT_Y = 3;
+
+// Stick and trigger readings below this are treated as resting
+export const GAMEPAD_DEADZONE = 0.15;
+
+export type GamepadInput = {
+  move: number; // -1 (full left) to 1 (full right)
+  aimAngle: number | null; // set while the right stick is pushed
+  trigger: number; // 0-1
+  launch: boolean;
+  pause: boolean;
+};
+
+const isPressed = (gamepad: Gamepad, index: number): boolean => gamepad.buttons[index]?.pressed ?? false;
+
+// Rescales so the deadzone's edge reads 0 rather than jumping to it
+const applyDeadzone = (value: number): number => {
+  const magnitude = Math.abs(value);
+  if (magnitude < GAMEPAD_DEADZONE) return 0;
+  return (Math.sign(value) * (magnitude - GAMEPAD_DEADZONE)) / (1 - GAMEPAD_DEADZONE);
+};
+
+export const readGamepad = (gamepad: Gamepad): GamepadInput => {
+  const dpad = (isPressed(gamepad, BUTTON_DPAD_RIGHT) ? 1 : 0) - (isPressed(gamepad, BUTTON_DPAD_LEFT) ? 1 : 0);
+  const stickX = gamepad.axes[AXIS_RIGHT_X] ?? 0;
+  const stickY = gamepad.axes[AXIS_RIGHT_Y] ?? 0;
+  const aiming = Math.hypot(stickX, stickY) >= GAMEPAD_DEADZONE;
+  const trigger = gamepad.buttons[BUTTON_RIGHT_TRIGGER]?.value ?? 0;
+
+  return {
+    move: dpad !== 0 ? dpad : applyDeadzone(gamepad.axes[AXIS_LEFT_X] ?? 0),
+    aimAngle: aiming ? calculateAimAngle(0, 0, stickX, stickY) : null,
+    trigger: trigger >= GAMEPAD_DEADZONE ? trigger : 0,
+    launch: isPressed(gamepad, BUTTON_A),
+    pause: isPressed(gamepad, BUTTON_START),
+  };
+};
+
+export const isGamepadActive = (input: GamepadInput): boolean =>
+  input.move !== 0 || input.aimAngle !== null || input.trigger > 0 || input.launch || input.pause;
+
+type RumbleSnapshot = Pick<ScoreData, 'lives' | 'level' | 'consecutiveBounces'> & { gameState: GameState };
+
+// The vibration pattern (see getVibrationPattern) a change in the run should rumble with
+export const getRumbleSound = (previous: RumbleSnapshot, current: RumbleSnapshot): string | null => {
+  if (current.gameState === 'GAME_OVER' && previous.gameState !== 'GAME_OVER') return 'game_over';
+  if (current.level > previous.level) return 'level_complete';
+  if (current.lives < previous.lives) return 'bounce_floor';
+  if (current.consecutiveBounces > previous.consecutiveBounces) return 'bounce_paddle';
+  return null;
+};
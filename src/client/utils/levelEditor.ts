@@ -0,0 +1,117 @@
+import type { GameConfig, LevelEditorDraft, ObstacleType } from '../types/game';
+import type { LevelPack, ObstacleLayout } from '../../shared/game/levelPack';
+import { LEVEL_PACK_VERSION } from '../../shared/game/levelPack';
+import { clamp } from './gameLogic';
+
+export const MIN_OBSTACLE_SIZE = 10;
+export const RESIZE_HANDLE_SIZE = 12;
+
+// Starting size and settings for a newly placed obstacle of each type
+const OBSTACLE_DEFAULTS: Record<ObstacleType, Omit<ObstacleLayout, 'type' | 'x' | 'y'>> = {
+  'static-block': { width: 60, height: 20 },
+  'moving-barrier': { width: 80, height: 15, vx: 2 },
+  'breakable-brick': { width: 40, height: 20, health: 2, maxHealth: 2, points: 50 },
+  'speed-boost': { width: 100, height: 30 },
+  'portal': { width: 40, height: 60 },
+  'bumper': { width: 40, height: 40, points: 25 },
+  'wind-zone': { width: 160, height: 60, force: 0.15 },
+  'gravity-well': { width: 120, height: 120, force: 0.4 },
+};
+
+const createLevelId = (): string => `level-${Date.now().toString(36)}`;
+
+// A blank level tuned like the first built-in level
+export const createEditorDraft = (config: GameConfig): LevelEditorDraft => {
+  const { ballSpeed, platformWidth, platformSpeed, gravity, bounceCoefficient, targetBounces, timeLimit } =
+    config.levels[0]!;
+
+  return {
+    id: createLevelId(),
+    name: 'New Level',
+    level: { ballSpeed, platformWidth, platformSpeed, gravity, bounceCoefficient, targetBounces, timeLimit, obstacles: [] },
+  };
+};
+
+// Only the first level of a pack is edited; the editor saves single-level packs
+export const toEditorDraft = (pack: LevelPack): LevelEditorDraft => ({
+  id: pack.id,
+  name: pack.name,
+  level: { obstacles: [], ...pack.levels[0]! },
+});
+
+export const toDraftPack = (draft: LevelEditorDraft): LevelPack => ({
+  version: LEVEL_PACK_VERSION,
+  id: draft.id,
+  name: draft.name,
+  levels: [{ ...draft.level, name: draft.name }],
+});
+
+// Keeps an obstacle inside the playfield and above the minimum size
+export const fitObstacle = (obstacle: ObstacleLayout, config: GameConfig): ObstacleLayout => {
+  const width = clamp(obstacle.width, MIN_OBSTACLE_SIZE, config.canvasWidth);
+  const height = clamp(obstacle.height, MIN_OBSTACLE_SIZE, config.canvasHeight);
+
+  return {
+    ...obstacle,
+    width,
+    height,
+    x: clamp(obstacle.x, width / 2, config.canvasWidth - width / 2),
+    y: clamp(obstacle.y, height / 2, config.canvasHeight - height / 2),
+  };
+};
+
+export const createDraftObstacle = (type: ObstacleType, config: GameConfig): ObstacleLayout => ({
+  type,
+  x: config.canvasWidth / 2,
+  y: config.canvasHeight / 3,
+  ...OBSTACLE_DEFAULTS[type],
+});
+
+// Portals are placed as a pair, one on each side, under a link no other pair uses
+const createDraftPortals = (obstacles: ObstacleLayout[], config: GameConfig): ObstacleLayout[] => {
+  const links = new Set(obstacles.map(obstacle => obstacle.link));
+  let pair = 1;
+  while (links.has(`portal-${pair}`)) pair++;
+
+  return [0.25, 0.75].map(share => ({
+    ...createDraftObstacle('portal', config),
+    x: config.canvasWidth * share,
+    link: `portal-${pair}`,
+  }));
+};
+
+// What placing an obstacle of a type adds to the layout
+export const createDraftObstacles = (
+  type: ObstacleType,
+  obstacles: ObstacleLayout[],
+  config: GameConfig
+): ObstacleLayout[] =>
+  type === 'portal' ? createDraftPortals(obstacles, config) : [createDraftObstacle(type, config)];
+
+// Index of the topmost obstacle under the point, or null
+export const findObstacleAt = (obstacles: ObstacleLayout[], x: number, y: number): number | null => {
+  for (let index = obstacles.length - 1; index >= 0; index--) {
+    const obstacle = obstacles[index]!;
+    if (Math.abs(x - obstacle.x) <= obstacle.width / 2 && Math.abs(y - obstacle.y) <= obstacle.height / 2) {
+      return index;
+    }
+  }
+  return null;
+};
+
+// The resize handle sits on the obstacle's bottom-right corner
+export const isOnResizeHandle = (obstacle: ObstacleLayout, x: number, y: number): boolean => {
+  const cornerX = obstacle.x + obstacle.width / 2;
+  const cornerY = obstacle.y + obstacle.height / 2;
+  return Math.abs(x - cornerX) <= RESIZE_HANDLE_SIZE / 2 && Math.abs(y - cornerY) <= RESIZE_HANDLE_SIZE / 2;
+};
+
+// Resizes from the top-left corner, which stays in place
+export const resizeObstacleTo = (obstacle: ObstacleLayout, x: number, y: number): ObstacleLayout => {
+  const left = obstacle.x - obstacle.width / 2;
+  const top = obstacle.y - obstacle.height / 2;
+  const width = Math.max(MIN_OBSTACLE_SIZE, x - left);
+  const height = Math.max(MIN_OBSTACLE_SIZE, y - top);
+
+  return { ...obstacle, width, height, x: left + width / 2, y: top + height / 2 };
+};
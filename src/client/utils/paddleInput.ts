@@ -0,0 +1,71 @@
+import type { Platform } from '../types/game';
+import type { PhysicsWorld, WorldInput } from '../../shared/game/world';
+import { getPowerUpModifiers } from '../../shared/game/powerUps';
+import { clamp } from './gameLogic';
+
+// Everything steering one paddle, held between physics steps and sampled once
+// per step by the game loop. Keys, touch zones and the gamepad stick give a
+// direction; a mouse or finger moving over the canvas says where the paddle
+// should be instead.
+export type PaddleInput = {
+  left: boolean; // movement keys held
+  right: boolean;
+  touch: number; // -1 or 1 while a side of the canvas is held, 0 otherwise
+  gamepad: number; // left stick, -1 (full left) to 1 (full right)
+  pointerX: number | null; // latest pointer position, used by the next step only
+  lastPointerX: number | null; // the pointer position the previous step used
+};
+
+// Steps a paddle takes to reach full speed from rest, and to stop from full speed
+export const PADDLE_ACCELERATION_STEPS = 6;
+export const PADDLE_DECELERATION_STEPS = 3;
+
+export const createPaddleInput = (): PaddleInput => ({
+  left: false,
+  right: false,
+  touch: 0,
+  gamepad: 0,
+  pointerX: null,
+  lastPointerX: null,
+});
+
+// -1 to 1; opposite inputs cancel out
+export const getPaddleDirection = (input: PaddleInput): number =>
+  clamp((input.right ? 1 : 0) - (input.left ? 1 : 0) + input.touch + input.gamepad, -1, 1);
+
+// The paddle's velocity after one step: it speeds up towards platform.speed in
+// the held direction and slows down faster than it speeds up
+export const getPaddleVelocity = (platform: Platform, velocity: number, input: PaddleInput): number => {
+  const target = getPaddleDirection(input) * platform.speed;
+  const accelerating = target !== 0 && Math.sign(target) !== -Math.sign(velocity) && Math.abs(target) > Math.abs(velocity);
+  const change = platform.speed / (accelerating ? PADDLE_ACCELERATION_STEPS : PADDLE_DECELERATION_STEPS);
+  return velocity + clamp(target - velocity, -change, change);
+};
+
+// Samples every paddle's input for the world's next step. Velocities are
+// carried over between steps, and a pointer position is used once then cleared.
+export const sampleWorldInput = (world: PhysicsWorld, inputs: PaddleInput[], velocities: number[]): WorldInput => {
+  const platforms = world.partnerPlatform ? [world.platform, world.partnerPlatform] : [world.platform];
+  // The effects that are still running for the step about to play
+  const running = world.activePowerUps.filter(powerUp => powerUp.expiresAt > world.tick);
+  const { reversedControls } = getPowerUpModifiers(running);
+  const [platformX, partnerPlatformX] = platforms.map((platform, paddle) => {
+    const input = inputs[paddle] ?? createPaddleInput();
+    if (input.pointerX !== null) {
+      const x = input.pointerX;
+      const moved = x - (input.lastPointerX ?? x);
+      input.pointerX = null;
+      input.lastPointerX = x;
+      velocities[paddle] = 0;
+      // Reversed controls mirror the move around the paddle, so the pointer
+      // moves the paddle by how far it went rather than to where it is
+      return reversedControls ? platform.x + moved : x;
+    }
+
+    const velocity = getPaddleVelocity(platform, velocities[paddle] ?? 0, input);
+    velocities[paddle] = velocity;
+    return platform.x + velocity;
+  });
+
+  return { platformX: platformX!, ...(partnerPlatformX !== undefined && { partnerPlatformX }) };
+};
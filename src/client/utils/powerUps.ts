@@ -1,4 +1,15 @@
-import type { PowerUp, PowerUpType, Obstacle, ObstacleType, Achievement, DifficultyMode, AudioSettings, SoundEffect, BallPhysics, GameConfig } from '../types/game';
+import type { PowerUp, PowerUpType, Obstacle, ObstacleType, Achievement, DifficultyMode, AudioSettings, SoundEffect, GameConfig, PowerUpSpawnTable } from '../types/game';
+import { BENEFICIAL_POWER_UP_TYPES, POWER_UP_DEFINITIONS, pickPowerUpType } from '../../shared/game/powerUps';
+
+export {
+  pickPowerUpType,
+  getPowerUpSpawnDelay,
+  createMultiBall,
+  splitBall,
+  calculateMagneticForce,
+} from '../../shared/game/powerUps';
+
+export { spawnLevelObstacles } from '../../shared/game/obstacles';
 
 // Power-up utilities
 export const createPowerUp = (
@@ -17,48 +28,24 @@ export const createPowerUp = (
   collected: false,
 });
 
-export const getPowerUpIcon = (type: PowerUpType): string => {
-  const icons: Record<PowerUpType, string> = {
-    'multi-ball': '⚽⚽',
-    'larger-paddle': '📏',
-    'slow-mo': '🐌',
-    'shield': '🛡️',
-    'score-multiplier': '✨',
-    'magnetic-paddle': '🧲',
-  };
-  return icons[type];
-};
+// Display details come from the power-up's definition in the shared registry
+export const getPowerUpIcon = (type: PowerUpType): string => POWER_UP_DEFINITIONS[type].icon;
 
-export const getPowerUpColor = (type: PowerUpType): string => {
-  const colors: Record<PowerUpType, string> = {
-    'multi-ball': '#ff6b6b',
-    'larger-paddle': '#4ecdc4',
-    'slow-mo': '#45b7d1',
-    'shield': '#96ceb4',
-    'score-multiplier': '#feca57',
-    'magnetic-paddle': '#ff9ff3',
-  };
-  return colors[type];
-};
+export const getPowerUpColor = (type: PowerUpType): string => POWER_UP_DEFINITIONS[type].color;
 
-export const getPowerUpDescription = (type: PowerUpType): string => {
-  const descriptions: Record<PowerUpType, string> = {
-    'multi-ball': 'Split ball into multiple balls',
-    'larger-paddle': 'Increase platform width by 50%',
-    'slow-mo': 'Reduce ball speed by 40%',
-    'shield': 'Extra life protection for 5 bounces',
-    'score-multiplier': '2x points for 15 seconds',
-    'magnetic-paddle': 'Ball auto-attracts to paddle',
-  };
-  return descriptions[type];
-};
+export const getPowerUpDescription = (type: PowerUpType): string => POWER_UP_DEFINITIONS[type].description;
 
-export const spawnRandomPowerUp = (config: GameConfig): PowerUp => {
-  const types: PowerUpType[] = ['multi-ball', 'larger-paddle', 'slow-mo', 'shield', 'score-multiplier', 'magnetic-paddle'];
-  const type = types[Math.floor(Math.random() * types.length)];
+export const isNegativePowerUp = (type: PowerUpType): boolean => POWER_UP_DEFINITIONS[type].negative;
+
+export const spawnRandomPowerUp = (
+  config: GameConfig,
+  spawns?: PowerUpSpawnTable,
+  random: () => number = Math.random
+): PowerUp => {
+  const type = pickPowerUpType(spawns, random);
   
-  const x = Math.random() * (config.canvasWidth - 40) + 20;
-  const y = Math.random() * (config.canvasHeight - 200) + 100;
+  const x = random() * (config.canvasWidth - 40) + 20;
+  const y = random() * (config.canvasHeight - 200) + 100;
   
   return createPowerUp(type, x, y);
 };
@@ -87,66 +74,14 @@ export const getObstacleColor = (type: ObstacleType): string => {
     'moving-barrier': '#ff6b6b',
     'breakable-brick': '#ffa500',
     'speed-boost': '#00ff00',
+    'portal': '#bf5fff',
+    'bumper': '#ff1493',
+    'wind-zone': '#87ceeb',
+    'gravity-well': '#4b0082',
   };
   return colors[type];
 };
 
-export const spawnLevelObstacles = (level: number, config: GameConfig): Obstacle[] => {
-  const obstacles: Obstacle[] = [];
-  
-  if (level >= 2) {
-    // Static blocks
-    for (let i = 0; i < Math.min(level - 1, 3); i++) {
-      obstacles.push(createObstacle(
-        'static-block',
-        (config.canvasWidth / 4) * (i + 1),
-        config.canvasHeight / 2,
-        60,
-        20
-      ));
-    }
-  }
-  
-  if (level >= 3) {
-    // Moving barriers
-    obstacles.push(createObstacle(
-      'moving-barrier',
-      config.canvasWidth / 2,
-      config.canvasHeight / 3,
-      80,
-      15,
-      { vx: 2, vy: 0 }
-    ));
-  }
-  
-  if (level >= 4) {
-    // Breakable bricks
-    for (let i = 0; i < 2; i++) {
-      obstacles.push(createObstacle(
-        'breakable-brick',
-        config.canvasWidth * 0.2 + (i * config.canvasWidth * 0.6),
-        config.canvasHeight * 0.3,
-        40,
-        20,
-        { health: 2, maxHealth: 2, points: 50 }
-      ));
-    }
-  }
-  
-  if (level >= 5) {
-    // Speed boost zones
-    obstacles.push(createObstacle(
-      'speed-boost',
-      config.canvasWidth / 2,
-      config.canvasHeight * 0.7,
-      100,
-      30
-    ));
-  }
-  
-  return obstacles;
-};
-
 // Achievement utilities
 export const createAchievements = (): Achievement[] => [
   {
@@ -192,7 +127,7 @@ export const createAchievements = (): Achievement[] => [
     icon: '⚡',
     unlocked: false,
     progress: 0,
-    target: 6,
+    target: BENEFICIAL_POWER_UP_TYPES.length,
   },
   {
     id: 'bounce_king',
@@ -242,26 +177,38 @@ export const checkAchievements = (
   });
 };
 
-// Difficulty utilities
+type DifficultyConfig = {
+  platformWidthMultiplier: number;
+  ballSpeedMultiplier: number;
+  lives: number;
+  obstacleCount: number;
+  trajectoryBounces: number | null;
+};
+
+// Difficulty utilities. trajectoryBounces is how many bounces the aiming
+// preview follows, or null to hide the preview.
 export const getDifficultyConfig = (mode: DifficultyMode) => {
-  const configs = {
+  const configs: Record<DifficultyMode, DifficultyConfig> = {
     easy: {
       platformWidthMultiplier: 1.5,
       ballSpeedMultiplier: 0.8,
       lives: 5,
       obstacleCount: 0.5,
+      trajectoryBounces: 3,
     },
     normal: {
       platformWidthMultiplier: 1.0,
       ballSpeedMultiplier: 1.0,
       lives: 3,
       obstacleCount: 1.0,
+      trajectoryBounces: 1,
     },
     hard: {
       platformWidthMultiplier: 0.7,
       ballSpeedMultiplier: 1.3,
       lives: 2,
       obstacleCount: 1.5,
+      trajectoryBounces: null,
     },
   };
   return configs[mode];
@@ -283,49 +230,8 @@ export const createSoundEffects = (): SoundEffect[] => [
   { id: 'game_over', name: 'Game Over', volume: 0.9, loop: false },
   { id: 'high_score', name: 'High Score', volume: 0.8, loop: false },
   { id: 'achievement', name: 'Achievement', volume: 0.7, loop: false },
+  { id: 'brick_break', name: 'Brick Break', volume: 0.7, loop: false },
+  { id: 'speed_boost', name: 'Speed Boost', volume: 0.6, loop: false },
+  { id: 'bumper', name: 'Bumper', volume: 0.7, loop: false },
+  { id: 'portal', name: 'Portal', volume: 0.6, loop: false },
 ];
-
-// Multi-ball utilities
-export const createMultiBall = (originalBall: BallPhysics, angleOffset: number): BallPhysics => {
-  const angle = Math.atan2(originalBall.velocity.vy, originalBall.velocity.vx) + angleOffset;
-  const speed = Math.sqrt(originalBall.velocity.vx ** 2 + originalBall.velocity.vy ** 2);
-  
-  return {
-    ...originalBall,
-    velocity: {
-      vx: Math.cos(angle) * speed,
-      vy: Math.sin(angle) * speed,
-    },
-  };
-};
-
-export const splitBall = (ball: BallPhysics): BallPhysics[] => {
-  const balls: BallPhysics[] = [];
-  
-  // Create 2 additional balls with different angles
-  balls.push(createMultiBall(ball, Math.PI / 6)); // 30 degrees
-  balls.push(createMultiBall(ball, -Math.PI / 6)); // -30 degrees
-  
-  return balls;
-};
-
-// Magnetic paddle utilities
-export const calculateMagneticForce = (
-  ball: BallPhysics,
-  platform: { x: number; y: number },
-  range: number
-): { vx: number; vy: number } => {
-  const dx = platform.x - ball.position.x;
-  const dy = platform.y - ball.position.y;
-  const distance = Math.sqrt(dx * dx + dy * dy);
-  
-  if (distance > range) {
-    return { vx: 0, vy: 0 };
-  }
-  
-  const force = (range - distance) / range * 0.5; // Max force of 0.5
-  return {
-    vx: (dx / distance) * force,
-    vy: (dy / distance) * force,
-  };
-};
@@ -0,0 +1,59 @@
+import type { PlayerProfile, ProfileAchievement } from '../../shared/types/api';
+import type { Achievement, DifficultyMode, GameData, ScoreData } from '../types/game';
+
+// Restores saved progress onto the achievement definitions. Achievements the
+// game no longer defines are dropped; new ones start locked.
+export const applyProfileAchievements = (
+  definitions: Achievement[],
+  saved: ProfileAchievement[]
+): Achievement[] => {
+  const savedById = new Map(saved.map(achievement => [achievement.id, achievement]));
+
+  return definitions.map(definition => {
+    const stored = savedById.get(definition.id);
+    if (!stored) return definition;
+
+    const progress = Math.max(definition.progress, stored.progress);
+    if (stored.unlockedAt === null) return { ...definition, progress };
+    return { ...definition, progress, unlocked: true, unlockedAt: stored.unlockedAt };
+  });
+};
+
+// Folds a finished run into the lifetime stats
+export const recordProfileRun = (
+  profile: PlayerProfile,
+  scoreData: ScoreData,
+  difficulty: DifficultyMode
+): PlayerProfile => ({
+  ...profile,
+  lifetimeBounces: profile.lifetimeBounces + scoreData.bounceCount,
+  furthestLevel: Math.max(profile.furthestLevel, scoreData.level),
+  bestScores: {
+    ...profile.bestScores,
+    [difficulty]: Math.max(profile.bestScores[difficulty], scoreData.score),
+  },
+});
+
+// The profile as it should be saved, or null until one has been loaded
+export const buildProfile = (gameData: GameData): PlayerProfile | null => {
+  const { profile } = gameData;
+  if (!profile) return null;
+
+  return {
+    ...profile,
+    achievements: gameData.achievements.map(achievement => ({
+      id: achievement.id,
+      progress: achievement.progress,
+      unlockedAt: achievement.unlocked ? (achievement.unlockedAt ?? null) : null,
+    })),
+    settings: {
+      difficulty: gameData.difficultyMode,
+      audio: { ...gameData.audioSettings },
+      keyBindings: { ...gameData.keyBindings },
+    },
+  };
+};
+
+// Stable key for change detection; the server sets updatedAt on every save
+export const getProfileSnapshot = (profile: PlayerProfile): string =>
+  JSON.stringify({ ...profile, updatedAt: 0 });
@@ -0,0 +1,18 @@
+import type { GameConfig } from '../types/game';
+import type { LoadedLevelPack } from '../../shared/game/levelPack';
+import type { Replay } from '../../shared/game/replay';
+import { createDefaultGameConfig } from './gameLogic';
+import { createPackGameConfig } from '../../shared/game/levelPack';
+import { createEndlessGameConfig } from '../../shared/game/endless';
+import { createBrickBreakerGameConfig } from '../../shared/game/brickBreaker';
+
+// Replays can only be played on the levels they were recorded on, so the
+// replay's pack has to be one the client has loaded
+export const getReplayGameConfig = (replay: Replay, packs: (LoadedLevelPack | null)[]): GameConfig | null => {
+  if (replay.mode === 'endless') return createEndlessGameConfig(createDefaultGameConfig());
+  if (replay.mode === 'bricks') return createBrickBreakerGameConfig(createDefaultGameConfig());
+  if (replay.levelPackId === null) return createDefaultGameConfig();
+
+  const pack = packs.find(candidate => candidate?.id === replay.levelPackId);
+  return pack ? createPackGameConfig(createDefaultGameConfig(), pack) : null;
+};
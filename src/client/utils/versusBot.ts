@@ -0,0 +1,68 @@
+import type { GameConfig } from '../types/game';
+import type { PhysicsWorld } from '../../shared/game/world';
+import type { VersusTransport } from './versusTransport';
+import { STEP_MS, createPhysicsWorld, launchWorldBall, stepWorld } from '../../shared/game/world';
+import {
+  VERSUS_FIELD_INTERVAL_MS,
+  applyVersusAttack,
+  createVersusField,
+  getComboAttack,
+} from '../../shared/game/versus';
+import { createRandomSource } from '../../shared/game/random';
+
+export const VERSUS_BOT_NAME = 'PracticeBot';
+
+const BOT_TICK_MS = 50;
+// The bot's platform chases the ball at a capped speed, so fast balls get past it
+const BOT_PLATFORM_SPEED = 7;
+
+// Plays a versus match on its own timer over `transport`, as the practice
+// opponent. Returns a function that stops it.
+export const startVersusBot = (transport: VersusTransport, config: GameConfig, seed: number): (() => void) => {
+  const random = createRandomSource(seed ^ 0x5bd1e995);
+  let world: PhysicsWorld = createPhysicsWorld(config, seed);
+  let lastFieldAt = 0;
+
+  const unsubscribe = transport.subscribe(message => {
+    if (message.type === 'attack' && message.player !== VERSUS_BOT_NAME) {
+      world = applyVersusAttack(world, message.attack);
+    }
+  });
+
+  const sendField = () => {
+    lastFieldAt = Date.now();
+    transport.send({ type: 'field', player: VERSUS_BOT_NAME, field: createVersusField(world) });
+  };
+
+  const tick = () => {
+    if (world.phase === 'aiming') {
+      world = launchWorldBall(world, { angle: 60 + random() * 60, power: 60 + random() * 30 });
+    }
+
+    for (let elapsed = 0; elapsed < BOT_TICK_MS && world.phase === 'playing'; elapsed += STEP_MS) {
+      const { x } = world.ballPhysics.position;
+      const offset = Math.max(-BOT_PLATFORM_SPEED, Math.min(BOT_PLATFORM_SPEED, x - world.platform.x));
+      const previousCombo = world.scoreData.consecutiveBounces;
+      world = stepWorld(world, { platformX: world.platform.x + offset }).world;
+
+      const attack = getComboAttack(previousCombo, world.scoreData.consecutiveBounces);
+      if (attack) transport.send({ type: 'attack', player: VERSUS_BOT_NAME, attack });
+    }
+
+    if (world.phase === 'over') {
+      sendField();
+      transport.send({ type: 'finish', player: VERSUS_BOT_NAME, score: world.scoreData.score });
+      stop();
+    } else if (Date.now() - lastFieldAt >= VERSUS_FIELD_INTERVAL_MS) {
+      sendField();
+    }
+  };
+
+  const interval = setInterval(tick, BOT_TICK_MS);
+  const stop = () => {
+    clearInterval(interval);
+    unsubscribe();
+  };
+
+  return stop;
+};
@@ -0,0 +1,77 @@
+import { connectRealtime, disconnectRealtime } from '@devvit/web/client';
+import type { VersusMessage } from '../../shared/game/versus';
+import { getVersusChannel } from '../../shared/game/versus';
+import { postVersusMessage } from './gameApi';
+
+// How versus messages reach the other player. Handlers receive every message
+// on the match, which for realtime includes the player's own.
+export type VersusTransport = {
+  send: (message: VersusMessage) => void;
+  subscribe: (handler: (message: VersusMessage) => void) => () => void;
+  close: () => void;
+};
+
+// Simulated network delay between the two ends of a loopback pair
+const LOOPBACK_LATENCY_MS = 40;
+
+const createHandlers = () => {
+  const handlers = new Set<(message: VersusMessage) => void>();
+  return {
+    subscribe: (handler: (message: VersusMessage) => void) => {
+      handlers.add(handler);
+      return () => {
+        handlers.delete(handler);
+      };
+    },
+    deliver: (message: VersusMessage) => handlers.forEach(handler => handler(message)),
+    clear: () => handlers.clear(),
+  };
+};
+
+// Messages are relayed by the server, which broadcasts them on the match's channel
+export const createRealtimeTransport = (matchId: string): VersusTransport => {
+  const channel = getVersusChannel(matchId);
+  const handlers = createHandlers();
+
+  void connectRealtime<VersusMessage>({ channel, onMessage: handlers.deliver }).catch(error => {
+    console.error(`Failed to connect to ${channel}:`, error);
+  });
+
+  return {
+    send: message => {
+      postVersusMessage(matchId, message).catch(error => {
+        console.error(`Failed to send ${message.type} to ${channel}:`, error);
+      });
+    },
+    subscribe: handlers.subscribe,
+    close: () => {
+      handlers.clear();
+      void disconnectRealtime(channel);
+    },
+  };
+};
+
+// Two transports wired to each other in memory, for playing against a local
+// opponent without a server. Like realtime, each end also hears its own messages.
+export const createLoopbackPair = (): [VersusTransport, VersusTransport] => {
+  const ends = [createHandlers(), createHandlers()] as const;
+  let open = true;
+
+  const createEnd = (own: (typeof ends)[number], other: (typeof ends)[number]): VersusTransport => ({
+    send: message => {
+      queueMicrotask(() => {
+        if (open) own.deliver(message);
+      });
+      setTimeout(() => {
+        if (open) other.deliver(message);
+      }, LOOPBACK_LATENCY_MS);
+    },
+    subscribe: own.subscribe,
+    close: () => {
+      open = false;
+      ends.forEach(end => end.clear());
+    },
+  });
+
+  return [createEnd(ends[0], ends[1]), createEnd(ends[1], ends[0])];
+};
@@ -1,4 +1,4 @@
-import type { BallPosition, VisualEffect, ParticleEffect, BallPhysics } from '../types/game';
+import type { BallPosition, BallTrails, VisualEffect, ParticleEffect, BallPhysics, LevelBackground } from '../types/game';
 
 export const createParticleEffect = (
   x: number,
@@ -71,6 +71,10 @@ export const updateBallTrail = (trail: BallPosition[], newPosition: BallPosition
   return newTrail.length > maxLength ? newTrail.slice(-maxLength) : newTrail;
 };
 
+// Each ball in play keeps its own trail; a ball that leaves play takes its trail with it
+export const updateBallTrails = (trails: BallTrails, balls: BallPhysics[]): BallTrails =>
+  Object.fromEntries(balls.map(ball => [ball.id, updateBallTrail(trails[ball.id] ?? [], ball.position)]));
+
 export const getScreenShakeOffset = (screenShake: { intensity: number; duration: number; startTime: number }): { x: number; y: number } => {
   const now = Date.now();
   const elapsed = now - screenShake.startTime;
@@ -170,13 +174,19 @@ export const drawGradientPlatform = (
 export const drawBackground = (
   ctx: CanvasRenderingContext2D,
   width: number,
-  height: number
+  height: number,
+  background?: LevelBackground
 ): void => {
   // Main background gradient
   const gradient = ctx.createLinearGradient(0, 0, 0, height);
-  gradient.addColorStop(0, '#2c3e50');
-  gradient.addColorStop(0.5, '#34495e');
-  gradient.addColorStop(1, '#2c3e50');
+  if (background) {
+    gradient.addColorStop(0, background.top);
+    gradient.addColorStop(1, background.bottom);
+  } else {
+    gradient.addColorStop(0, '#2c3e50');
+    gradient.addColorStop(0.5, '#34495e');
+    gradient.addColorStop(1, '#2c3e50');
+  }
   
   ctx.fillStyle = gradient;
   ctx.fillRect(0, 0, width, height);
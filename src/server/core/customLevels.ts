@@ -0,0 +1,117 @@
+import { redis, reddit } from '@devvit/web/server';
+import type { CustomLevelSummary } from '../../shared/types/api';
+import type { GameConfig } from '../../shared/game/types';
+import type { LevelPack, LevelPackError } from '../../shared/game/levelPack';
+import { createPackGameConfig, loadLevelPack, validateLevelPack } from '../../shared/game/levelPack';
+import { createDefaultGameConfig } from '../../shared/game/physics';
+
+export const MAX_CUSTOM_LEVELS = 100;
+
+type StoredCustomLevel = {
+  pack: LevelPack;
+  author: string;
+  updatedAt: number;
+};
+
+// Each subreddit keeps its moderators' levels in one hash keyed by pack id.
+// Posts get their own copy so later edits never change a level people have
+// already played (and had their runs verified against).
+const getLevelsKey = (subredditName: string) => `levels:${subredditName}`;
+const getPostLevelKey = (postId: string) => `post-level:${postId}`;
+
+const parseStoredLevel = (id: string, raw: string): StoredCustomLevel | null => {
+  try {
+    return JSON.parse(raw) as StoredCustomLevel;
+  } catch (error) {
+    console.error(`Corrupt custom level ${id}:`, error);
+    return null;
+  }
+};
+
+const toSummary = ({ pack, author, updatedAt }: StoredCustomLevel): CustomLevelSummary => ({
+  id: pack.id,
+  name: pack.name,
+  author,
+  levelCount: pack.levels.length,
+  updatedAt,
+});
+
+export const isModerator = async (subredditName: string, username: string): Promise<boolean> => {
+  const moderators = await reddit.getModerators({ subredditName, username }).all();
+  return moderators.some(moderator => moderator.username.toLowerCase() === username.toLowerCase());
+};
+
+// Newest first
+export const listCustomLevels = async (subredditName: string): Promise<CustomLevelSummary[]> => {
+  const stored = await redis.hGetAll(getLevelsKey(subredditName));
+
+  return Object.entries(stored)
+    .flatMap(([id, raw]) => {
+      const level = parseStoredLevel(id, raw);
+      return level ? [toSummary(level)] : [];
+    })
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getCustomLevel = async (subredditName: string, id: string): Promise<LevelPack | null> => {
+  const raw = await redis.hGet(getLevelsKey(subredditName), id);
+  return raw ? (parseStoredLevel(id, raw)?.pack ?? null) : null;
+};
+
+export type CustomLevelSaveResult =
+  | { ok: true; level: CustomLevelSummary }
+  | { ok: false; errors: LevelPackError[] };
+
+// Saving under an existing id replaces that level
+export const saveCustomLevel = async (
+  subredditName: string,
+  pack: unknown,
+  author: string
+): Promise<CustomLevelSaveResult> => {
+  const errors = validateLevelPack(pack, createDefaultGameConfig());
+  if (errors.length > 0) return { ok: false, errors };
+
+  const valid = pack as LevelPack;
+  const key = getLevelsKey(subredditName);
+  const exists = (await redis.hGet(key, valid.id)) !== undefined;
+  if (!exists && (await redis.hLen(key)) >= MAX_CUSTOM_LEVELS) {
+    return {
+      ok: false,
+      errors: [{ path: 'id', message: `cannot be added; this subreddit already has ${MAX_CUSTOM_LEVELS} levels` }],
+    };
+  }
+
+  const level: StoredCustomLevel = { pack: valid, author, updatedAt: Date.now() };
+  await redis.hSet(key, { [valid.id]: JSON.stringify(level) });
+  return { ok: true, level: toSummary(level) };
+};
+
+export const bindLevelToPost = async (postId: string, pack: LevelPack): Promise<void> => {
+  await redis.set(getPostLevelKey(postId), JSON.stringify(pack));
+};
+
+export const getPostLevelPack = async (postId: string): Promise<LevelPack | null> => {
+  const raw = await redis.get(getPostLevelKey(postId));
+  if (!raw) return null;
+
+  try {
+    return JSON.parse(raw) as LevelPack;
+  } catch (error) {
+    console.error(`Corrupt level for post ${postId}:`, error);
+    return null;
+  }
+};
+
+// The levels a post is played on, which is also what its runs are replayed against
+export const getPostGameConfig = async (postId: string | undefined): Promise<GameConfig> => {
+  const config = createDefaultGameConfig();
+  const pack = postId ? await getPostLevelPack(postId) : null;
+  if (!pack) return config;
+
+  const result = loadLevelPack(pack, config);
+  if (!result.ok) {
+    console.error(`Level bound to post ${postId} no longer validates`);
+    return config;
+  }
+  return createPackGameConfig(config, result.pack);
+};
@@ -0,0 +1,90 @@
+import { redis } from '@devvit/web/server';
+import type { DailyChallengeArchive } from '../../shared/types/api';
+import type { DailyChallenge } from '../../shared/game/dailyChallenge';
+import { createDailyChallenge, generateDailyLevelPack, getChallengeDate } from '../../shared/game/dailyChallenge';
+import { createDefaultGameConfig } from '../../shared/game/physics';
+import { createPost } from './post';
+import { expireLeaderboard, getScopeKey, getTopEntries } from './leaderboard';
+
+export const DAILY_ARCHIVE_TOP = 10;
+export const MAX_ARCHIVE_DAYS = 30;
+// How long a day's live leaderboard lingers after its top entries are archived
+export const ARCHIVED_LEADERBOARD_TTL_SECONDS = 24 * 60 * 60;
+
+// Per subreddit, one hash maps each day to its post and another to the results
+// archived once that day closed. Each post also remembers its own challenge.
+const getDailyPostsKey = (subredditName: string) => `daily:${subredditName}:posts`;
+const getDailyArchiveKey = (subredditName: string) => `daily:${subredditName}:archive`;
+const getPostChallengeKey = (postId: string) => `post-daily:${postId}`;
+
+export const getPostDailyChallenge = async (postId: string): Promise<DailyChallenge | null> => {
+  const raw = await redis.get(getPostChallengeKey(postId));
+  if (!raw) return null;
+
+  try {
+    return JSON.parse(raw) as DailyChallenge;
+  } catch (error) {
+    console.error(`Corrupt daily challenge for post ${postId}:`, error);
+    return null;
+  }
+};
+
+// Creates the day's post unless the scheduler already did; safe to run twice
+export const createDailyChallengePost = async (
+  subredditName: string,
+  now: number
+): Promise<{ postId: string; created: boolean }> => {
+  const date = getChallengeDate(now);
+  const existing = await redis.hGet(getDailyPostsKey(subredditName), date);
+  if (existing) return { postId: existing, created: false };
+
+  const challenge = createDailyChallenge(date);
+  const post = await createPost(generateDailyLevelPack(challenge, createDefaultGameConfig()), challenge);
+
+  await Promise.all([
+    redis.set(getPostChallengeKey(post.id), JSON.stringify(challenge)),
+    redis.hSet(getDailyPostsKey(subredditName), { [date]: post.id }),
+  ]);
+  return { postId: post.id, created: true };
+};
+
+// Snapshots the top of a finished day's leaderboard. Returns null when there
+// was no challenge that day; archiving the same day again keeps the first copy.
+// The full leaderboard is then left to expire, since only the snapshot is kept.
+export const archiveDailyChallenge = async (
+  subredditName: string,
+  date: string
+): Promise<DailyChallengeArchive | null> => {
+  const archiveKey = getDailyArchiveKey(subredditName);
+  const [postId, archived] = await Promise.all([
+    redis.hGet(getDailyPostsKey(subredditName), date),
+    redis.hGet(archiveKey, date),
+  ]);
+  if (!postId) return null;
+  if (archived) return JSON.parse(archived) as DailyChallengeArchive;
+
+  const scopeKey = getScopeKey('daily', { subredditName, dailyDate: date });
+  const { entries, total } = scopeKey ? await getTopEntries(scopeKey, 0, DAILY_ARCHIVE_TOP) : { entries: [], total: 0 };
+
+  const archive: DailyChallengeArchive = { date, postId, players: total, entries, archivedAt: Date.now() };
+  await redis.hSet(archiveKey, { [date]: JSON.stringify(archive) });
+  if (scopeKey) await expireLeaderboard(scopeKey, ARCHIVED_LEADERBOARD_TTL_SECONDS);
+  return archive;
+};
+
+// Newest first
+export const listDailyArchive = async (subredditName: string, limit: number): Promise<DailyChallengeArchive[]> => {
+  const stored = await redis.hGetAll(getDailyArchiveKey(subredditName));
+
+  return Object.entries(stored)
+    .flatMap(([date, raw]) => {
+      try {
+        return [JSON.parse(raw) as DailyChallengeArchive];
+      } catch (error) {
+        console.error(`Corrupt daily archive for ${date}:`, error);
+        return [];
+      }
+    })
+    .sort((a, b) => b.date.localeCompare(a.date))
+    .slice(0, limit);
+};
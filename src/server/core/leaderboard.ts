@@ -0,0 +1,170 @@
+import { redis } from '@devvit/web/server';
+import type {
+  LeaderboardEntry,
+  LeaderboardRun,
+  LeaderboardScope,
+  LeaderboardSubmitRequest,
+} from '../../shared/types/api';
+
+export type RunStats = Pick<LeaderboardRun, 'score' | 'level' | 'bounceCount' | 'difficulty'>;
+
+export const MAX_PAGE_SIZE = 50;
+export const MAX_AROUND_RADIUS = 10;
+
+// Each scope keeps a sorted set of best scores (member = username) and a hash
+// holding the run details behind each of those scores.
+const getScoresKey = (scopeKey: string) => `leaderboard:${scopeKey}:scores`;
+const getRunsKey = (scopeKey: string) => `leaderboard:${scopeKey}:runs`;
+
+export const getScopeKey = (
+  scope: LeaderboardScope,
+  ids: { postId?: string | undefined; subredditName?: string | undefined; dailyDate?: string | undefined }
+): string | null => {
+  if (scope === 'post') {
+    return ids.postId ? `post:${ids.postId}` : null;
+  }
+  if (scope === 'endless' || scope === 'bricks') {
+    return ids.subredditName ? `${scope}:${ids.subredditName}` : null;
+  }
+  if (scope === 'daily') {
+    return ids.subredditName && ids.dailyDate ? `daily:${ids.subredditName}:${ids.dailyDate}` : null;
+  }
+  return ids.subredditName ? `subreddit:${ids.subredditName}` : null;
+};
+
+const parseRun = (username: string, score: number, rawRun: string | undefined): LeaderboardRun => {
+  if (rawRun) {
+    try {
+      return JSON.parse(rawRun) as LeaderboardRun;
+    } catch (error) {
+      console.error(`Corrupt leaderboard run for ${username}:`, error);
+    }
+  }
+
+  // Scores recorded without details still rank, just with empty stats
+  return { username, score, level: 0, bounceCount: 0, difficulty: 'normal', submittedAt: 0 };
+};
+
+const toEntries = async (
+  scopeKey: string,
+  members: { member: string; score: number }[],
+  firstRank: number
+): Promise<LeaderboardEntry[]> => {
+  if (members.length === 0) return [];
+
+  const rawRuns = await redis.hMGet(
+    getRunsKey(scopeKey),
+    members.map(({ member }) => member)
+  );
+
+  return members.map(({ member, score }, index) => ({
+    ...parseRun(member, score, rawRuns[index] ?? undefined),
+    score,
+    rank: firstRank + index,
+  }));
+};
+
+// Zero-based position counted from the highest score, or null when unranked
+const getDescendingIndex = async (scopeKey: string, username: string): Promise<number | null> => {
+  const [ascendingRank, total] = await Promise.all([
+    redis.zRank(getScoresKey(scopeKey), username),
+    redis.zCard(getScoresKey(scopeKey)),
+  ]);
+  if (ascendingRank === undefined) return null;
+  return total - 1 - ascendingRank;
+};
+
+export const recordRun = async (
+  scopeKey: string,
+  username: string,
+  stats: RunStats
+): Promise<{ isPersonalBest: boolean; rank: number | null }> => {
+  const previousBest = await redis.zScore(getScoresKey(scopeKey), username);
+  const isPersonalBest = previousBest === undefined || stats.score > previousBest;
+
+  if (isPersonalBest) {
+    const run: LeaderboardRun = {
+      username,
+      score: stats.score,
+      level: stats.level,
+      bounceCount: stats.bounceCount,
+      difficulty: stats.difficulty,
+      submittedAt: Date.now(),
+    };
+
+    await Promise.all([
+      redis.zAdd(getScoresKey(scopeKey), { member: username, score: stats.score }),
+      redis.hSet(getRunsKey(scopeKey), { [username]: JSON.stringify(run) }),
+    ]);
+  }
+
+  const index = await getDescendingIndex(scopeKey, username);
+  return { isPersonalBest, rank: index === null ? null : index + 1 };
+};
+
+export const getTopEntries = async (
+  scopeKey: string,
+  offset: number,
+  limit: number
+): Promise<{ entries: LeaderboardEntry[]; total: number }> => {
+  const [members, total] = await Promise.all([
+    redis.zRange(getScoresKey(scopeKey), offset, offset + limit - 1, { by: 'rank', reverse: true }),
+    redis.zCard(getScoresKey(scopeKey)),
+  ]);
+
+  return { entries: await toEntries(scopeKey, members, offset + 1), total };
+};
+
+export const getPlayerEntry = async (
+  scopeKey: string,
+  username: string
+): Promise<{ entry: LeaderboardEntry | null; total: number }> => {
+  const [index, total] = await Promise.all([
+    getDescendingIndex(scopeKey, username),
+    redis.zCard(getScoresKey(scopeKey)),
+  ]);
+  if (index === null) return { entry: null, total };
+
+  const { entries } = await getTopEntries(scopeKey, index, 1);
+  return { entry: entries[0] ?? null, total };
+};
+
+// Lets a scope's scores and runs lapse once nothing reads them live any more
+export const expireLeaderboard = async (scopeKey: string, seconds: number): Promise<void> => {
+  await Promise.all([redis.expire(getScoresKey(scopeKey), seconds), redis.expire(getRunsKey(scopeKey), seconds)]);
+};
+
+export const getEntriesAroundPlayer = async (
+  scopeKey: string,
+  username: string,
+  radius: number
+): Promise<{ entries: LeaderboardEntry[]; total: number }> => {
+  const index = await getDescendingIndex(scopeKey, username);
+  if (index === null) {
+    return { entries: [], total: await redis.zCard(getScoresKey(scopeKey)) };
+  }
+
+  const start = Math.max(0, index - radius);
+  return getTopEntries(scopeKey, start, index - start + radius + 1);
+};
+
+export const parsePaging = (value: unknown, fallback: number, max: number): number => {
+  const parsed = typeof value === 'string' ? parseInt(value, 10) : NaN;
+  if (Number.isNaN(parsed) || parsed < 0) return fallback;
+  return Math.min(parsed, max);
+};
+
+export const isValidSubmitRequest = (body: unknown): body is LeaderboardSubmitRequest => {
+  if (!body || typeof body !== 'object') return false;
+  const { score, level, bounceCount, difficulty, mode } = body as Record<string, unknown>;
+
+  return (
+    typeof score === 'number' &&
+    Number.isFinite(score) &&
+    score >= 0 &&
+    typeof level === 'number' &&
+    typeof bounceCount === 'number' &&
+    (difficulty === 'easy' || difficulty === 'normal' || difficulty === 'hard') &&
+    (mode === undefined || mode === 'campaign' || mode === 'endless' || mode === 'bricks')
+  );
+};
@@ -1,12 +1,22 @@
 import { context, reddit } from '@devvit/web/server';
+import type { LevelPack } from '../../shared/game/levelPack';
+import type { DailyChallenge } from '../../shared/game/dailyChallenge';
+import { bindLevelToPost } from './customLevels';
 
-export const createPost = async () => {
+const getPostTitle = (levelPack?: LevelPack, dailyChallenge?: DailyChallenge): string => {
+  if (dailyChallenge) return `Bounce Original - Daily Challenge ${dailyChallenge.date}`;
+  return levelPack ? `Bounce Original - ${levelPack.name}` : 'Bounce Original - Interactive Ball Game';
+};
+
+// Posts created with a level pack play those levels instead of the built-in ones.
+// Daily challenge posts also carry their seed and obstacle layout in postData.
+export const createPost = async (levelPack?: LevelPack, dailyChallenge?: DailyChallenge) => {
   const { subredditName } = context;
   if (!subredditName) {
     throw new Error('subredditName is required');
   }
 
-  return await reddit.submitCustomPost({
+  const post = await reddit.submitCustomPost({
     splash: {
       // Splash Screen Configuration
       appDisplayName: 'Bounce Original',
@@ -22,8 +32,20 @@ export const createPost = async () => {
       score: 0,
       highScore: 0,
       level: 1,
+      ...(dailyChallenge && {
+        dailyChallenge: {
+          ...dailyChallenge,
+          layout: levelPack?.levels.map(level => level.obstacles ?? []) ?? [],
+        },
+      }),
     },
     subredditName: subredditName,
-    title: 'Bounce Original - Interactive Ball Game',
+    title: getPostTitle(levelPack, dailyChallenge),
   });
+
+  if (levelPack) {
+    await bindLevelToPost(post.id, levelPack);
+  }
+
+  return post;
 };
@@ -0,0 +1,182 @@
+import { redis } from '@devvit/web/server';
+import type {
+  GameDifficulty,
+  PlayerProfile,
+  ProfileAchievement,
+  ProfileSettings,
+} from '../../shared/types/api';
+import { DEFAULT_KEY_BINDINGS, normalizeKeyBindings } from '../../shared/game/keyBindings';
+
+export const PROFILE_VERSION = 2;
+
+const DIFFICULTIES: GameDifficulty[] = ['easy', 'normal', 'hard'];
+const MAX_ACHIEVEMENTS = 100;
+
+const getProfileKey = (userId: string) => `profile:${userId}`;
+
+type StoredProfile = Record<string, unknown> & { version?: unknown };
+
+// Each entry upgrades a stored profile from `version` to `version + 1`. Add a
+// step here (and bump PROFILE_VERSION) whenever the PlayerProfile shape changes;
+// fields a step does not touch are filled from defaults by normalizeProfile.
+const MIGRATIONS: Record<number, (profile: StoredProfile) => StoredProfile> = {
+  // 2 added settings.keyBindings, which start at the defaults
+  1: profile => profile,
+};
+
+export const createDefaultProfile = (): PlayerProfile => ({
+  version: PROFILE_VERSION,
+  achievements: [],
+  lifetimeBounces: 0,
+  furthestLevel: 1,
+  bestScores: { easy: 0, normal: 0, hard: 0 },
+  settings: {
+    difficulty: 'normal',
+    audio: { enabled: true, volume: 0.7, mute: false },
+    keyBindings: { ...DEFAULT_KEY_BINDINGS },
+  },
+  updatedAt: 0,
+});
+
+const toCount = (value: unknown, fallback: number): number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0 ? Math.floor(value) : fallback;
+
+const isDifficulty = (value: unknown): value is GameDifficulty =>
+  typeof value === 'string' && (DIFFICULTIES as string[]).includes(value);
+
+const normalizeAchievements = (value: unknown): ProfileAchievement[] => {
+  if (!Array.isArray(value)) return [];
+
+  return value.slice(0, MAX_ACHIEVEMENTS).flatMap((item: unknown): ProfileAchievement[] => {
+    if (!item || typeof item !== 'object') return [];
+    const { id, progress, unlockedAt } = item as Record<string, unknown>;
+    if (typeof id !== 'string' || id.length === 0 || id.length > 64) return [];
+    return [{ id, progress: toCount(progress, 0), unlockedAt: typeof unlockedAt === 'number' ? unlockedAt : null }];
+  });
+};
+
+const normalizeSettings = (value: unknown): ProfileSettings => {
+  const defaults = createDefaultProfile().settings;
+  if (!value || typeof value !== 'object') return defaults;
+
+  const { difficulty, audio, keyBindings } = value as Record<string, unknown>;
+  const audioFields = audio && typeof audio === 'object' ? (audio as Record<string, unknown>) : {};
+  const volume = audioFields.volume;
+
+  return {
+    difficulty: isDifficulty(difficulty) ? difficulty : defaults.difficulty,
+    audio: {
+      enabled: typeof audioFields.enabled === 'boolean' ? audioFields.enabled : defaults.audio.enabled,
+      volume: typeof volume === 'number' && volume >= 0 && volume <= 1 ? volume : defaults.audio.volume,
+      mute: typeof audioFields.mute === 'boolean' ? audioFields.mute : defaults.audio.mute,
+    },
+    keyBindings: normalizeKeyBindings(keyBindings),
+  };
+};
+
+// Coerces a current-version profile into a well-formed one, replacing any
+// missing or invalid field with its default
+const normalizeProfile = (profile: StoredProfile): PlayerProfile => {
+  const defaults = createDefaultProfile();
+  const bestScores = (profile.bestScores && typeof profile.bestScores === 'object'
+    ? profile.bestScores
+    : {}) as Record<string, unknown>;
+
+  return {
+    version: PROFILE_VERSION,
+    achievements: normalizeAchievements(profile.achievements),
+    lifetimeBounces: toCount(profile.lifetimeBounces, defaults.lifetimeBounces),
+    furthestLevel: Math.max(1, toCount(profile.furthestLevel, defaults.furthestLevel)),
+    bestScores: {
+      easy: toCount(bestScores.easy, 0),
+      normal: toCount(bestScores.normal, 0),
+      hard: toCount(bestScores.hard, 0),
+    },
+    settings: normalizeSettings(profile.settings),
+    updatedAt: toCount(profile.updatedAt, defaults.updatedAt),
+  };
+};
+
+// Returns null for profiles written by a newer version than this server knows
+export const migrateProfile = (stored: StoredProfile): PlayerProfile | null => {
+  let profile = stored;
+  let version = typeof profile.version === 'number' ? profile.version : 0;
+  if (version > PROFILE_VERSION) return null;
+
+  while (version < PROFILE_VERSION) {
+    const migrate = MIGRATIONS[version];
+    profile = migrate ? migrate(profile) : profile;
+    version++;
+  }
+
+  return normalizeProfile(profile);
+};
+
+export const isValidProfileUpdate = (body: unknown): body is { profile: StoredProfile } => {
+  if (!body || typeof body !== 'object') return false;
+  const { profile } = body as Record<string, unknown>;
+  return !!profile && typeof profile === 'object' && !Array.isArray(profile);
+};
+
+// Lifetime stats only ever grow and an achievement keeps its earliest unlock,
+// so a stale tab saving an older profile cannot wipe out newer progress
+export const mergeProfiles = (current: PlayerProfile, incoming: PlayerProfile): PlayerProfile => {
+  const achievements = new Map(current.achievements.map(achievement => [achievement.id, achievement]));
+  for (const achievement of incoming.achievements) {
+    const existing = achievements.get(achievement.id);
+    const unlockTimes = [existing?.unlockedAt, achievement.unlockedAt].filter(
+      (time): time is number => typeof time === 'number'
+    );
+    achievements.set(achievement.id, {
+      id: achievement.id,
+      progress: Math.max(existing?.progress ?? 0, achievement.progress),
+      unlockedAt: unlockTimes.length > 0 ? Math.min(...unlockTimes) : null,
+    });
+  }
+
+  return {
+    version: PROFILE_VERSION,
+    achievements: [...achievements.values()],
+    lifetimeBounces: Math.max(current.lifetimeBounces, incoming.lifetimeBounces),
+    furthestLevel: Math.max(current.furthestLevel, incoming.furthestLevel),
+    bestScores: {
+      easy: Math.max(current.bestScores.easy, incoming.bestScores.easy),
+      normal: Math.max(current.bestScores.normal, incoming.bestScores.normal),
+      hard: Math.max(current.bestScores.hard, incoming.bestScores.hard),
+    },
+    settings: incoming.settings,
+    updatedAt: Date.now(),
+  };
+};
+
+// `writable` is false when the stored profile came from a newer version of the
+// game, so this server serves defaults without overwriting the real data
+const loadProfile = async (userId: string): Promise<{ profile: PlayerProfile; writable: boolean }> => {
+  const raw = await redis.get(getProfileKey(userId));
+  if (!raw) return { profile: createDefaultProfile(), writable: true };
+
+  try {
+    const profile = migrateProfile(JSON.parse(raw) as StoredProfile);
+    if (profile) return { profile, writable: true };
+    console.error(`Profile for ${userId} has an unsupported version`);
+    return { profile: createDefaultProfile(), writable: false };
+  } catch (error) {
+    console.error(`Corrupt profile for ${userId}:`, error);
+    return { profile: createDefaultProfile(), writable: true };
+  }
+};
+
+export const getProfile = async (userId: string): Promise<PlayerProfile> => (await loadProfile(userId)).profile;
+
+// Returns null when either side of the merge has a version this server cannot read
+export const saveProfile = async (userId: string, update: StoredProfile): Promise<PlayerProfile | null> => {
+  const incoming = migrateProfile(update);
+  if (!incoming) return null;
+
+  const current = await loadProfile(userId);
+  if (!current.writable) return null;
+
+  const profile = mergeProfiles(current.profile, incoming);
+  await redis.set(getProfileKey(userId), JSON.stringify(profile));
+  return profile;
+};
@@ -0,0 +1,130 @@
+import { randomBytes } from 'node:crypto';
+import { deflateRawSync, inflateRawSync } from 'node:zlib';
+import { redis } from '@devvit/web/server';
+import type { ScoreData } from '../../shared/game/types';
+import { parseReplay } from '../../shared/game/replay';
+
+// Limits on the serialised replay as uploaded and on the compressed blob kept in Redis
+export const MAX_REPLAY_BYTES = 512 * 1024;
+export const MAX_STORED_REPLAY_BYTES = 128 * 1024;
+export const REPLAY_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+const REPLAY_ID_BYTES = 6; // 8 characters of base64url
+const REPLAY_ID_PATTERN = /^[A-Za-z0-9_-]{8}$/;
+const MAX_ID_ATTEMPTS = 5;
+
+export type StoredReplay = {
+  replay: string;
+  postId: string;
+  username: string;
+  scoreData: ScoreData;
+  createdAt: number;
+  expiresAt: number;
+};
+
+// The top run on a post, kept for players to race as a ghost
+export type PostGhost = {
+  replay: string;
+  username: string;
+  score: number;
+  recordedAt: number;
+};
+
+// The blob is the deflated replay, base64 encoded since Redis values are strings
+type StoredReplayRecord = Omit<StoredReplay, 'replay'> & {
+  blob: string;
+};
+
+type PostGhostRecord = Omit<PostGhost, 'replay'> & {
+  blob: string;
+};
+
+const getReplayKey = (id: string) => `replay:${id}`;
+const getPostGhostKey = (postId: string) => `post-ghost:${postId}`;
+
+const compressReplay = (replay: string): string => deflateRawSync(Buffer.from(replay, 'utf8')).toString('base64');
+
+const decompressReplay = (blob: string): string =>
+  inflateRawSync(Buffer.from(blob, 'base64'), { maxOutputLength: MAX_REPLAY_BYTES }).toString('utf8');
+
+// Replays recorded before REPLAY_VERSION last changed no longer play back as
+// they happened. Stored ones are deleted as they are found, since post ghosts
+// never expire on their own.
+const isPlayableReplay = (replay: string): boolean => parseReplay(replay) !== null;
+
+export const isReplayId = (id: string): boolean => REPLAY_ID_PATTERN.test(id);
+
+const createReplayId = async (): Promise<string | null> => {
+  for (let attempt = 0; attempt < MAX_ID_ATTEMPTS; attempt++) {
+    const id = randomBytes(REPLAY_ID_BYTES).toString('base64url');
+    if (!(await redis.get(getReplayKey(id)))) return id;
+  }
+  return null;
+};
+
+// Returns null when the compressed replay is still over the storage limit.
+// Replays expire after REPLAY_TTL_MS.
+export const storeReplay = async (
+  replay: string,
+  details: Omit<StoredReplay, 'replay' | 'createdAt' | 'expiresAt'>
+): Promise<{ id: string; expiresAt: number } | null> => {
+  const blob = compressReplay(replay);
+  if (blob.length > MAX_STORED_REPLAY_BYTES) return null;
+
+  const id = await createReplayId();
+  if (!id) throw new Error('Could not allocate a replay id');
+
+  const createdAt = Date.now();
+  const expiresAt = createdAt + REPLAY_TTL_MS;
+  const record: StoredReplayRecord = { ...details, blob, createdAt, expiresAt };
+  await redis.set(getReplayKey(id), JSON.stringify(record), { expiration: new Date(expiresAt) });
+  return { id, expiresAt };
+};
+
+export const getStoredReplay = async (id: string): Promise<StoredReplay | null> => {
+  const raw = await redis.get(getReplayKey(id));
+  if (!raw) return null;
+
+  try {
+    const { blob, ...details } = JSON.parse(raw) as StoredReplayRecord;
+    const replay = decompressReplay(blob);
+    if (!isPlayableReplay(replay)) {
+      await redis.del(getReplayKey(id));
+      return null;
+    }
+    return { ...details, replay };
+  } catch (error) {
+    console.error(`Corrupt replay ${id}:`, error);
+    return null;
+  }
+};
+
+// Replaces the post's ghost; callers only store runs that took first place.
+// Returns false when the replay is too large to keep.
+export const storePostGhost = async (postId: string, ghost: Omit<PostGhost, 'recordedAt'>): Promise<boolean> => {
+  const { replay, ...details } = ghost;
+  const blob = compressReplay(replay);
+  if (blob.length > MAX_STORED_REPLAY_BYTES) return false;
+
+  const record: PostGhostRecord = { ...details, blob, recordedAt: Date.now() };
+  await redis.set(getPostGhostKey(postId), JSON.stringify(record));
+  return true;
+};
+
+export const getPostGhost = async (postId: string): Promise<PostGhost | null> => {
+  const raw = await redis.get(getPostGhostKey(postId));
+  if (!raw) return null;
+
+  try {
+    const { blob, ...details } = JSON.parse(raw) as PostGhostRecord;
+    const replay = decompressReplay(blob);
+    if (!isPlayableReplay(replay)) {
+      await redis.del(getPostGhostKey(postId));
+      return null;
+    }
+    return { ...details, replay };
+  } catch (error) {
+    console.error(`Corrupt ghost for post ${postId}:`, error);
+    return null;
+  }
+};
@@ -0,0 +1,45 @@
+import type { GameConfig, GameMode } from '../../shared/game/types';
+import type { RunLog } from '../../shared/game/runLog';
+import { MAX_RUN_TICKS } from '../../shared/game/runLog';
+import { verifyRunLog, type RunVerificationResult } from '../../shared/game/verifyRun';
+import { createEndlessGameConfig } from '../../shared/game/endless';
+import { createBrickBreakerGameConfig } from '../../shared/game/brickBreaker';
+import { createDefaultGameConfig } from '../../shared/game/physics';
+import { getPostGameConfig } from './customLevels';
+
+// Tolerance covers floating point differences between JS engines (e.g. Math.sin/cos)
+const MIN_SCORE_TOLERANCE = 25;
+const RELATIVE_SCORE_TOLERANCE = 0.01;
+
+export const getScoreTolerance = (score: number): number =>
+  Math.max(MIN_SCORE_TOLERANCE, Math.ceil(score * RELATIVE_SCORE_TOLERANCE));
+
+const isRunLog = (value: unknown): value is RunLog => {
+  if (!value || typeof value !== 'object') return false;
+  const { version, seed, ticks } = value as Record<string, unknown>;
+  return typeof version === 'number' && typeof seed === 'number' && typeof ticks === 'number';
+};
+
+// Endless runs generate their waves from the run seed and brick-breaker runs
+// play the built-in brick levels; campaign runs play the post's levels
+export const getRunGameConfig = async (mode: GameMode | undefined, postId: string | undefined): Promise<GameConfig> => {
+  if (mode === 'endless') return createEndlessGameConfig(createDefaultGameConfig());
+  if (mode === 'bricks') return createBrickBreakerGameConfig(createDefaultGameConfig());
+  return getPostGameConfig(postId);
+};
+
+// `config` must hold the levels the run was played on (see getRunGameConfig)
+export const verifySubmittedRun = (score: unknown, runLog: unknown, config: GameConfig): RunVerificationResult => {
+  if (typeof score !== 'number' || !Number.isFinite(score) || score < 0) {
+    return { valid: false, reason: 'invalid_input', message: 'score must be a non-negative number' };
+  }
+  if (!isRunLog(runLog)) {
+    return { valid: false, reason: 'malformed_log', message: 'runLog is required' };
+  }
+
+  return verifyRunLog(runLog, score, {
+    config,
+    maxTicks: MAX_RUN_TICKS,
+    scoreTolerance: getScoreTolerance(score),
+  });
+};
@@ -0,0 +1,140 @@
+import { randomBytes } from 'node:crypto';
+import { realtime, redis } from '@devvit/web/server';
+import type { TxClientLike } from '@devvit/web/server';
+import type { VersusMatchInfo } from '../../shared/types/api';
+import type { VersusMessage } from '../../shared/game/versus';
+import { getVersusChannel } from '../../shared/game/versus';
+
+// A player left waiting this long without joining again is dropped from the lobby
+export const VERSUS_LOBBY_TTL_MS = 30 * 1000;
+export const VERSUS_MATCH_TTL_MS = 60 * 60 * 1000;
+// Each player may send this many attacks per window. An attack takes
+// VERSUS_COMBO_STEP bounces in a row, so a fair player never comes close.
+export const VERSUS_ATTACK_WINDOW_MS = 5 * 1000;
+export const MAX_VERSUS_ATTACKS_PER_WINDOW = 3;
+
+const MATCH_ID_BYTES = 8; // 16 hex characters, valid in a channel name
+const MATCH_ID_PATTERN = /^[0-9a-f]{16}$/;
+// A join retries this many times when other joins keep changing the lobby under it
+const LOBBY_JOIN_ATTEMPTS = 3;
+
+export type VersusMatch = VersusMatchInfo & {
+  postId: string;
+  createdAt: number;
+};
+
+// The one player on a post waiting for an opponent. They are already
+// subscribed to `matchId`'s channel, so the match is created under it.
+type VersusLobbyEntry = {
+  username: string;
+  matchId: string;
+  joinedAt: number;
+};
+
+export type VersusJoinResult = { status: 'waiting'; matchId: string } | { status: 'matched'; match: VersusMatch };
+
+const getLobbyKey = (postId: string) => `versus-lobby:${postId}`;
+const getMatchKey = (matchId: string) => `versus-match:${matchId}`;
+const getAttackCountKey = (matchId: string, username: string, window: number) =>
+  `versus-attacks:${matchId}:${username}:${window}`;
+
+export const isVersusMatchId = (id: string): boolean => MATCH_ID_PATTERN.test(id);
+
+const parseJson = <T>(raw: string | undefined, label: string): T | null => {
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as T;
+  } catch (error) {
+    console.error(`Corrupt ${label}:`, error);
+    return null;
+  }
+};
+
+export const getVersusMatch = async (matchId: string): Promise<VersusMatch | null> =>
+  parseJson<VersusMatch>(await redis.get(getMatchKey(matchId)), `versus match ${matchId}`);
+
+// Commits a transaction, reporting false when a watched key changed first
+const commit = async (txn: TxClientLike): Promise<boolean> => (await txn.exec()).length > 0;
+
+// One read-then-write of the lobby. The lobby key is watched, so two players
+// joining at once can't both take the same waiting player or overwrite each
+// other; the loser gets null and tries again.
+const tryJoinVersusLobby = async (
+  postId: string,
+  username: string,
+  pendingMatchId?: string
+): Promise<VersusJoinResult | null> => {
+  const lobbyKey = getLobbyKey(postId);
+  const txn = await redis.watch(lobbyKey);
+  const waiting = parseJson<VersusLobbyEntry>(await redis.get(lobbyKey), `versus lobby for ${postId}`);
+
+  if (!waiting || waiting.username === username) {
+    const matchId = waiting?.matchId ?? pendingMatchId ?? randomBytes(MATCH_ID_BYTES).toString('hex');
+    const entry: VersusLobbyEntry = { username, matchId, joinedAt: waiting?.joinedAt ?? Date.now() };
+
+    await txn.multi();
+    await txn.set(lobbyKey, JSON.stringify(entry), { expiration: new Date(Date.now() + VERSUS_LOBBY_TTL_MS) });
+    return (await commit(txn)) ? { status: 'waiting', matchId } : null;
+  }
+
+  const match: VersusMatch = {
+    matchId: waiting.matchId,
+    players: [waiting.username, username],
+    seed: randomBytes(4).readUInt32LE(0),
+    postId,
+    createdAt: Date.now(),
+  };
+
+  await txn.multi();
+  await txn.del(lobbyKey);
+  await txn.set(getMatchKey(match.matchId), JSON.stringify(match), {
+    expiration: new Date(match.createdAt + VERSUS_MATCH_TTL_MS),
+  });
+  if (!(await commit(txn))) return null;
+
+  // The waiting player learns about the match here, or from their next join
+  const { matchId, players, seed } = match;
+  await sendVersusMessage(matchId, { type: 'start', matchId, players, seed });
+  return { status: 'matched', match };
+};
+
+// Matches the player with whoever is waiting on the post, or leaves them waiting.
+// `pendingMatchId` is the match a waiting player was given by an earlier join; if
+// someone has been matched with them since, that match is returned.
+export const joinVersusLobby = async (
+  postId: string,
+  username: string,
+  pendingMatchId?: string
+): Promise<VersusJoinResult> => {
+  if (pendingMatchId) {
+    const match = await getVersusMatch(pendingMatchId);
+    if (match?.postId === postId && match.players.includes(username)) return { status: 'matched', match };
+  }
+
+  for (let attempt = 0; attempt < LOBBY_JOIN_ATTEMPTS; attempt++) {
+    const result = await tryJoinVersusLobby(postId, username, pendingMatchId);
+    if (result) return result;
+  }
+  throw new Error(`Versus lobby for ${postId} kept changing during the join`);
+};
+
+// Only the waiting player themselves can take their place out of the lobby
+export const leaveVersusLobby = async (postId: string, username: string): Promise<void> => {
+  const waiting = parseJson<VersusLobbyEntry>(await redis.get(getLobbyKey(postId)), `versus lobby for ${postId}`);
+  if (waiting?.username === username) {
+    await redis.del(getLobbyKey(postId));
+  }
+};
+
+// Counts an attack against the sender's current window. Returns false once
+// they have used up the window's allowance.
+export const takeVersusAttack = async (matchId: string, username: string, now: number): Promise<boolean> => {
+  const key = getAttackCountKey(matchId, username, Math.floor(now / VERSUS_ATTACK_WINDOW_MS));
+  const count = await redis.incrBy(key, 1);
+  if (count === 1) await redis.expire(key, Math.ceil((VERSUS_ATTACK_WINDOW_MS * 2) / 1000));
+  return count <= MAX_VERSUS_ATTACKS_PER_WINDOW;
+};
+
+export const sendVersusMessage = async (matchId: string, message: VersusMessage): Promise<void> => {
+  await realtime.send(getVersusChannel(matchId), message);
+};
@@ -1,12 +1,91 @@
 import express from 'express';
-import { InitResponse, IncrementResponse, DecrementResponse, GameInitResponse, GameUpdateResponse, GameActionRequest } from '../shared/types/api';
+import {
+  InitResponse,
+  IncrementResponse,
+  DecrementResponse,
+  GameInitResponse,
+  GameUpdateResponse,
+  GameActionRequest,
+  LeaderboardScope,
+  LeaderboardSubmitRequest,
+  LeaderboardSubmitResponse,
+  LeaderboardResponse,
+  LeaderboardRankResponse,
+  LeaderboardAroundResponse,
+  HighScoreUpdateRequest,
+  HighScoreUpdateResponse,
+  ScoreRejectedResponse,
+  ProfileResponse,
+  ProfileUpdateRequest,
+  CustomLevelListResponse,
+  CustomLevelResponse,
+  CustomLevelSaveRequest,
+  CustomLevelSaveResponse,
+  LevelPackRejectedResponse,
+  DailyArchiveResponse,
+  ReplayUploadRequest,
+  ReplayUploadResponse,
+  ReplayResponse,
+  GhostResponse,
+  VersusJoinRequest,
+  VersusJoinResponse,
+  VersusLeaveResponse,
+  VersusMessageResponse,
+} from '../shared/types/api';
+import type { UiResponse } from '@devvit/web/shared';
 import { redis, reddit, createServer, context, getServerPort } from '@devvit/web/server';
 import { createPost } from './core/post';
+import {
+  MAX_AROUND_RADIUS,
+  MAX_PAGE_SIZE,
+  getEntriesAroundPlayer,
+  getPlayerEntry,
+  getScopeKey,
+  getTopEntries,
+  isValidSubmitRequest,
+  parsePaging,
+  recordRun,
+} from './core/leaderboard';
+import { getRunGameConfig, verifySubmittedRun } from './core/scoreVerification';
+import { getProfile, isValidProfileUpdate, saveProfile } from './core/profile';
+import {
+  getCustomLevel,
+  getPostLevelPack,
+  isModerator,
+  listCustomLevels,
+  saveCustomLevel,
+} from './core/customLevels';
+import {
+  MAX_ARCHIVE_DAYS,
+  archiveDailyChallenge,
+  createDailyChallengePost,
+  getPostDailyChallenge,
+  listDailyArchive,
+} from './core/dailyChallenge';
+import {
+  MAX_REPLAY_BYTES,
+  getPostGhost,
+  getStoredReplay,
+  isReplayId,
+  storePostGhost,
+  storeReplay,
+} from './core/replay';
+import {
+  getVersusMatch,
+  isVersusMatchId,
+  joinVersusLobby,
+  leaveVersusLobby,
+  sendVersusMessage,
+  takeVersusAttack,
+} from './core/versus';
+import { getChallengeDate, getPreviousChallengeDate, isChallengeOpen } from '../shared/game/dailyChallenge';
+import { createReplay, parseReplay, serializeReplay } from '../shared/game/replay';
+import { isVersusPlayerMessage, pickVersusPlayerMessage } from '../shared/game/versus';
 
 const app = express();
 
-// Middleware for JSON body parsing
-app.use(express.json());
+// Middleware for JSON body parsing (run logs submitted with scores can be a few hundred KB)
+app.use(express.json({ limit: '1mb' }));
 // Middleware for URL-encoded body parsing
 app.use(express.urlencoded({ extended: true }));
 // Middleware for plain text body parsing
@@ -107,25 +186,36 @@ router.get<{ postId: string }, GameInitResponse | { status: string; message: str
     }
 
     try {
-      const [gameData, username] = await Promise.all([
+      const [gameData, username, levelPack, dailyChallenge, endlessHighScore, bricksHighScore] = await Promise.all([
         redis.get(`game:${postId}`),
         reddit.getCurrentUsername(),
+        getPostLevelPack(postId),
+        getPostDailyChallenge(postId),
+        redis.get(getHighScoreKey('endless', postId, false)),
+        redis.get(getHighScoreKey('bricks', postId, false)),
       ]);
+      const campaignHighScore = await redis.get(getHighScoreKey('campaign', postId, levelPack !== null));
 
       const defaultGameData = {
         gameState: 'initial' as const,
         score: 0,
-        highScore: 0,
         level: 1,
       };
 
-      const parsedGameData = gameData ? JSON.parse(gameData) : defaultGameData;
+      // Game data saved before high scores were verified can still hold an
+      // unchecked highScore, so only the fields the client uses are returned
+      const { gameState, score, level } = gameData ? JSON.parse(gameData) : defaultGameData;
 
       res.json({
         type: 'gameInit',
         postId: postId,
-        gameData: parsedGameData,
+        gameData: { gameState, score, level },
         username: username ?? 'anonymous',
+        levelPack,
+        dailyChallenge,
+        campaignHighScore: campaignHighScore ? parseInt(campaignHighScore) : 0,
+        endlessHighScore: endlessHighScore ? parseInt(endlessHighScore) : 0,
+        bricksHighScore: bricksHighScore ? parseInt(bricksHighScore) : 0,
       });
     } catch (error) {
       console.error(`Game Init Error for post ${postId}:`, error);
@@ -151,14 +241,13 @@ router.post<{ postId: string }, GameUpdateResponse | { status: string; message:
     }
 
     try {
-      const { action, score, highScore, level } = req.body;
+      const { action, score, level } = req.body;
       
       // Get current game data
       const currentGameData = await redis.get(`game:${postId}`);
       const gameData = currentGameData ? JSON.parse(currentGameData) : {
         gameState: 'initial',
         score: 0,
-        highScore: 0,
         level: 1,
       };
 
@@ -179,8 +268,8 @@ router.post<{ postId: string }, GameUpdateResponse | { status: string; message:
           gameData.score = 0;
           break;
         case 'updateScore':
+          // High scores are only written by POST /api/game/highscore, once the run is verified
           if (score !== undefined) gameData.score = score;
-          if (highScore !== undefined) gameData.highScore = Math.max(gameData.highScore, highScore);
           if (level !== undefined) gameData.level = level;
           break;
       }
@@ -204,11 +293,28 @@ router.post<{ postId: string }, GameUpdateResponse | { status: string; message:
 );
 
 // High Score API
+// Each mode keeps its own high score so they never compete with each other.
+// Endless and brick-breaker levels are the same on every post, so those high
+// scores are shared. Campaign runs are verified against their post's levels:
+// posts on the built-in levels share one high score, and a post with levels
+// of its own (custom or daily) keeps its own, as its leaderboard does.
+const getHighScoreKey = (mode: unknown, postId: string | undefined, postHasLevels: boolean): string => {
+  if (mode === 'endless') return 'endlessHighScore';
+  if (mode === 'bricks') return 'bricksHighScore';
+  return postHasLevels ? `highScore:post:${postId}` : 'highScore';
+};
+
+const getRequestHighScoreKey = async (mode: unknown): Promise<string> => {
+  const { postId } = context;
+  if (mode === 'endless' || mode === 'bricks' || !postId) return getHighScoreKey(mode, postId, false);
+  return getHighScoreKey(mode, postId, (await getPostLevelPack(postId)) !== null);
+};
+
 router.get<{ postId: string }, { highScore: number } | { status: string; message: string }>(
   '/api/game/highscore',
-  async (_req, res): Promise<void> => {
+  async (req, res): Promise<void> => {
     try {
-      const highScore = await redis.get('highScore');
+      const highScore = await redis.get(await getRequestHighScoreKey(req.query.mode));
       res.json({
         highScore: highScore ? parseInt(highScore) : 0,
       });
@@ -222,19 +328,32 @@ router.get<{ postId: string }, { highScore: number } | { status: string; message
   }
 );
 
-router.post<{ postId: string }, { success: boolean } | { status: string; message: string }, { score: number }>(
+router.post<{ postId: string }, HighScoreUpdateResponse | ScoreRejectedResponse | { status: string; message: string }, HighScoreUpdateRequest>(
   '/api/game/highscore',
   async (req, res): Promise<void> => {
     try {
-      const { score } = req.body;
-      const currentHighScore = await redis.get('highScore');
+      const { score, runLog, mode } = req.body;
+      const verification = verifySubmittedRun(score, runLog, await getRunGameConfig(mode, context.postId));
+      if (!verification.valid) {
+        console.warn(`Rejected high score ${score}: ${verification.reason} (${verification.message})`);
+        res.status(422).json({
+          status: 'error',
+          message: verification.message,
+          reason: verification.reason,
+        });
+        return;
+      }
+
+      const verifiedScore = verification.scoreData.score;
+      const highScoreKey = await getRequestHighScoreKey(mode);
+      const currentHighScore = await redis.get(highScoreKey);
       const currentHigh = currentHighScore ? parseInt(currentHighScore) : 0;
       
-      if (score > currentHigh) {
-        await redis.set('highScore', score.toString());
-        res.json({ success: true });
+      if (verifiedScore > currentHigh) {
+        await redis.set(highScoreKey, verifiedScore.toString());
+        res.json({ success: true, verifiedScore });
       } else {
-        res.json({ success: false });
+        res.json({ success: false, verifiedScore });
       }
     } catch (error) {
       console.error('High Score Update Error:', error);
@@ -246,6 +365,732 @@ router.post<{ postId: string }, { success: boolean } | { status: string; message
   }
 );
 
+// Leaderboard API
+const isLeaderboardScope = (scope: string): scope is LeaderboardScope =>
+  scope === 'post' || scope === 'subreddit' || scope === 'daily' || scope === 'endless' || scope === 'bricks';
+
+// The daily scope is the leaderboard for the day this post was created for
+const getRequestScopeKey = async (scope: LeaderboardScope): Promise<string | null> => {
+  const { postId, subredditName } = context;
+  const challenge = scope === 'daily' && postId ? await getPostDailyChallenge(postId) : null;
+  return getScopeKey(scope, { postId, subredditName, dailyDate: challenge?.date });
+};
+
+router.post<{ postId: string }, LeaderboardSubmitResponse | ScoreRejectedResponse | { status: string; message: string }, LeaderboardSubmitRequest>(
+  '/api/leaderboard/submit',
+  async (req, res): Promise<void> => {
+    const { postId, subredditName } = context;
+    if (!postId) {
+      res.status(400).json({
+        status: 'error',
+        message: 'postId is required',
+      });
+      return;
+    }
+
+    if (!isValidSubmitRequest(req.body)) {
+      res.status(400).json({
+        status: 'error',
+        message: 'score, level, bounceCount and difficulty are required',
+      });
+      return;
+    }
+
+    try {
+      const config = await getRunGameConfig(req.body.mode, postId);
+      const verification = verifySubmittedRun(req.body.score, req.body.runLog, config);
+      if (!verification.valid) {
+        console.warn(`Rejected leaderboard run for post ${postId}: ${verification.reason} (${verification.message})`);
+        res.status(422).json({
+          status: 'error',
+          message: verification.message,
+          reason: verification.reason,
+        });
+        return;
+      }
+
+      const username = await reddit.getCurrentUsername();
+      if (!username) {
+        res.status(401).json({
+          status: 'error',
+          message: 'You must be logged in to submit a score',
+        });
+        return;
+      }
+
+      // Record what the server replayed rather than what the client claimed
+      const stats = {
+        score: verification.scoreData.score,
+        level: verification.scoreData.level,
+        bounceCount: verification.scoreData.bounceCount,
+        difficulty: req.body.difficulty,
+      };
+      const { mode } = req.body;
+      if (mode === 'endless' || mode === 'bricks') {
+        const modeKey = getScopeKey(mode, { subredditName });
+        const modeResult = modeKey ? await recordRun(modeKey, username, stats) : null;
+        const rank = modeResult?.rank ?? null;
+        res.json({
+          type: 'leaderboardSubmit',
+          isPersonalBest: modeResult?.isPersonalBest ?? false,
+          postRank: null,
+          subredditRank: null,
+          dailyRank: null,
+          endlessRank: mode === 'endless' ? rank : null,
+          bricksRank: mode === 'bricks' ? rank : null,
+        });
+        return;
+      }
+
+      const challenge = await getPostDailyChallenge(postId);
+      const postKey = getScopeKey('post', { postId });
+      const subredditKey = getScopeKey('subreddit', { subredditName });
+      // A closed day's leaderboard has been archived, so late runs only count on the post.
+      // Runs must also use the day's seed, or their power-up spawns would differ.
+      const dailyKey =
+        challenge && isChallengeOpen(challenge, Date.now()) && req.body.runLog.seed === challenge.seed
+          ? getScopeKey('daily', { subredditName, dailyDate: challenge.date })
+          : null;
+
+      const [postResult, subredditResult, dailyResult] = await Promise.all([
+        postKey ? recordRun(postKey, username, stats) : null,
+        subredditKey ? recordRun(subredditKey, username, stats) : null,
+        dailyKey ? recordRun(dailyKey, username, stats) : null,
+      ]);
+
+      // A new best run on the post becomes the ghost other players race
+      if (postResult?.isPersonalBest && postResult.rank === 1) {
+        const postPack = await getPostLevelPack(postId);
+        const replay = createReplay(req.body.runLog, 'campaign', postPack?.id ?? null, stats.score);
+        await storePostGhost(postId, { replay: serializeReplay(replay), username, score: stats.score });
+      }
+
+      res.json({
+        type: 'leaderboardSubmit',
+        isPersonalBest: postResult?.isPersonalBest ?? false,
+        postRank: postResult?.rank ?? null,
+        subredditRank: subredditResult?.rank ?? null,
+        dailyRank: dailyResult?.rank ?? null,
+        endlessRank: null,
+        bricksRank: null,
+      });
+    } catch (error) {
+      console.error(`Leaderboard Submit Error for post ${postId}:`, error);
+      res.status(400).json({
+        status: 'error',
+        message: 'Failed to submit score',
+      });
+    }
+  }
+);
+
+router.get<{ scope: string }, LeaderboardResponse | { status: string; message: string }>(
+  '/api/leaderboard/:scope',
+  async (req, res): Promise<void> => {
+    const { scope } = req.params;
+    const scopeKey = isLeaderboardScope(scope) ? await getRequestScopeKey(scope) : null;
+    if (!isLeaderboardScope(scope) || !scopeKey) {
+      res.status(400).json({
+        status: 'error',
+        message: `Unknown leaderboard scope: ${scope}`,
+      });
+      return;
+    }
+
+    try {
+      const offset = parsePaging(req.query.offset, 0, Number.MAX_SAFE_INTEGER);
+      const limit = Math.max(1, parsePaging(req.query.limit, 10, MAX_PAGE_SIZE));
+      const { entries, total } = await getTopEntries(scopeKey, offset, limit);
+
+      res.json({
+        type: 'leaderboard',
+        scope,
+        entries,
+        total,
+        offset,
+        limit,
+      });
+    } catch (error) {
+      console.error(`Leaderboard Error for ${scopeKey}:`, error);
+      res.status(400).json({
+        status: 'error',
+        message: 'Failed to load leaderboard',
+      });
+    }
+  }
+);
+
+router.get<{ scope: string }, LeaderboardRankResponse | { status: string; message: string }>(
+  '/api/leaderboard/:scope/me',
+  async (req, res): Promise<void> => {
+    const { scope } = req.params;
+    const scopeKey = isLeaderboardScope(scope) ? await getRequestScopeKey(scope) : null;
+    if (!isLeaderboardScope(scope) || !scopeKey) {
+      res.status(400).json({
+        status: 'error',
+        message: `Unknown leaderboard scope: ${scope}`,
+      });
+      return;
+    }
+
+    try {
+      const username = await reddit.getCurrentUsername();
+      const { entry, total } = username
+        ? await getPlayerEntry(scopeKey, username)
+        : { entry: null, total: 0 };
+
+      res.json({
+        type: 'leaderboardRank',
+        scope,
+        entry,
+        total,
+      });
+    } catch (error) {
+      console.error(`Leaderboard Rank Error for ${scopeKey}:`, error);
+      res.status(400).json({
+        status: 'error',
+        message: 'Failed to load leaderboard rank',
+      });
+    }
+  }
+);
+
+router.get<{ scope: string }, LeaderboardAroundResponse | { status: string; message: string }>(
+  '/api/leaderboard/:scope/around',
+  async (req, res): Promise<void> => {
+    const { scope } = req.params;
+    const scopeKey = isLeaderboardScope(scope) ? await getRequestScopeKey(scope) : null;
+    if (!isLeaderboardScope(scope) || !scopeKey) {
+      res.status(400).json({
+        status: 'error',
+        message: `Unknown leaderboard scope: ${scope}`,
+      });
+      return;
+    }
+
+    try {
+      const radius = parsePaging(req.query.radius, 3, MAX_AROUND_RADIUS);
+      const username = await reddit.getCurrentUsername();
+      const { entries, total } = username
+        ? await getEntriesAroundPlayer(scopeKey, username, radius)
+        : { entries: [], total: 0 };
+
+      res.json({
+        type: 'leaderboardAround',
+        scope,
+        entries,
+        total,
+      });
+    } catch (error) {
+      console.error(`Leaderboard Around Error for ${scopeKey}:`, error);
+      res.status(400).json({
+        status: 'error',
+        message: 'Failed to load leaderboard',
+      });
+    }
+  }
+);
+
+// Daily Challenge API
+router.get<Record<string, never>, DailyArchiveResponse | { status: string; message: string }>(
+  '/api/daily/archive',
+  async (_req, res): Promise<void> => {
+    const { subredditName } = context;
+    if (!subredditName) {
+      res.status(400).json({
+        status: 'error',
+        message: 'subredditName is required',
+      });
+      return;
+    }
+
+    try {
+      res.json({
+        type: 'dailyArchive',
+        challenges: await listDailyArchive(subredditName, MAX_ARCHIVE_DAYS),
+      });
+    } catch (error) {
+      console.error(`Daily Archive Error for ${subredditName}:`, error);
+      res.status(400).json({
+        status: 'error',
+        message: 'Failed to load past challenges',
+      });
+    }
+  }
+);
+
+// Ghost API
+router.get<Record<string, never>, GhostResponse | { status: string; message: string }>(
+  '/api/ghost',
+  async (_req, res): Promise<void> => {
+    const { postId } = context;
+    if (!postId) {
+      res.status(400).json({
+        status: 'error',
+        message: 'postId is required',
+      });
+      return;
+    }
+
+    try {
+      const ghost = await getPostGhost(postId);
+      if (!ghost) {
+        res.status(404).json({
+          status: 'error',
+          message: 'No one has set a run to race on this post yet',
+        });
+        return;
+      }
+
+      res.json({ type: 'ghost', replay: ghost.replay, username: ghost.username, score: ghost.score });
+    } catch (error) {
+      console.error(`Ghost Error for post ${postId}:`, error);
+      res.status(400).json({
+        status: 'error',
+        message: 'Failed to load ghost',
+      });
+    }
+  }
+);
+
+// Replay API
+router.post<
+  Record<string, never>,
+  ReplayUploadResponse | ScoreRejectedResponse | { status: string; message: string },
+  ReplayUploadRequest
+>('/api/replay', async (req, res): Promise<void> => {
+  const { postId } = context;
+  if (!postId) {
+    res.status(400).json({
+      status: 'error',
+      message: 'postId is required',
+    });
+    return;
+  }
+
+  const serialized = req.body?.replay;
+  if (typeof serialized !== 'string') {
+    res.status(400).json({
+      status: 'error',
+      message: 'replay is required',
+    });
+    return;
+  }
+  if (serialized.length > MAX_REPLAY_BYTES) {
+    res.status(413).json({
+      status: 'error',
+      message: 'Replay is too long to share',
+    });
+    return;
+  }
+
+  const replay = parseReplay(serialized);
+  if (!replay) {
+    res.status(400).json({
+      status: 'error',
+      message: 'Replay is malformed',
+    });
+    return;
+  }
+
+  try {
+    // Only runs on this post's levels can be replayed against them
+    const postPack = await getPostLevelPack(postId);
+    if (replay.mode === 'campaign' && replay.levelPackId !== (postPack?.id ?? null)) {
+      res.status(400).json({
+        status: 'error',
+        message: "Only runs on this post's levels can be shared",
+      });
+      return;
+    }
+
+    const verification = verifySubmittedRun(replay.score, replay.runLog, await getRunGameConfig(replay.mode, postId));
+    if (!verification.valid) {
+      console.warn(`Rejected replay for post ${postId}: ${verification.reason} (${verification.message})`);
+      res.status(422).json({
+        status: 'error',
+        message: verification.message,
+        reason: verification.reason,
+      });
+      return;
+    }
+
+    const username = await reddit.getCurrentUsername();
+    if (!username) {
+      res.status(401).json({
+        status: 'error',
+        message: 'You must be logged in to share a replay',
+      });
+      return;
+    }
+
+    const stored = await storeReplay(serialized, { postId, username, scoreData: verification.scoreData });
+    if (!stored) {
+      res.status(413).json({
+        status: 'error',
+        message: 'Replay is too long to share',
+      });
+      return;
+    }
+
+    res.json({ type: 'replayUploaded', ...stored });
+  } catch (error) {
+    console.error(`Replay Upload Error for post ${postId}:`, error);
+    res.status(400).json({
+      status: 'error',
+      message: 'Failed to share replay',
+    });
+  }
+});
+
+router.get<{ id: string }, ReplayResponse | { status: string; message: string }>(
+  '/api/replay/:id',
+  async (req, res): Promise<void> => {
+    const { id } = req.params;
+    if (!isReplayId(id)) {
+      res.status(400).json({
+        status: 'error',
+        message: `Invalid replay id: ${id}`,
+      });
+      return;
+    }
+
+    try {
+      const stored = await getStoredReplay(id);
+      if (!stored) {
+        res.status(404).json({
+          status: 'error',
+          message: 'Replay not found, expired or from an older version of the game',
+        });
+        return;
+      }
+
+      const { postId, ...replay } = stored;
+      res.json({ type: 'replay', id, ...replay, levelPack: await getPostLevelPack(postId) });
+    } catch (error) {
+      console.error(`Replay Error for ${id}:`, error);
+      res.status(400).json({
+        status: 'error',
+        message: 'Failed to load replay',
+      });
+    }
+  }
+);
+
+// Versus API
+router.post<Record<string, never>, VersusJoinResponse | { status: string; message: string }, VersusJoinRequest>(
+  '/api/versus/join',
+  async (req, res): Promise<void> => {
+    const { postId } = context;
+    if (!postId) {
+      res.status(400).json({
+        status: 'error',
+        message: 'postId is required',
+      });
+      return;
+    }
+
+    const matchId = req.body?.matchId;
+    if (matchId !== undefined && (typeof matchId !== 'string' || !isVersusMatchId(matchId))) {
+      res.status(400).json({
+        status: 'error',
+        message: 'Invalid match id',
+      });
+      return;
+    }
+
+    try {
+      const username = await reddit.getCurrentUsername();
+      if (!username) {
+        res.status(401).json({
+          status: 'error',
+          message: 'You must be logged in to play versus',
+        });
+        return;
+      }
+
+      const result = await joinVersusLobby(postId, username, matchId);
+      if (result.status === 'waiting') {
+        res.json({ type: 'versusWaiting', username, matchId: result.matchId });
+        return;
+      }
+
+      const { matchId: id, players, seed } = result.match;
+      res.json({ type: 'versusMatched', username, match: { matchId: id, players, seed } });
+    } catch (error) {
+      console.error(`Versus Join Error for post ${postId}:`, error);
+      res.status(400).json({
+        status: 'error',
+        message: 'Failed to join the versus lobby',
+      });
+    }
+  }
+);
+
+router.post<Record<string, never>, VersusLeaveResponse | { status: string; message: string }>(
+  '/api/versus/leave',
+  async (_req, res): Promise<void> => {
+    const { postId } = context;
+    if (!postId) {
+      res.status(400).json({
+        status: 'error',
+        message: 'postId is required',
+      });
+      return;
+    }
+
+    try {
+      const username = await reddit.getCurrentUsername();
+      if (username) {
+        await leaveVersusLobby(postId, username);
+      }
+      res.json({ type: 'versusLeft' });
+    } catch (error) {
+      console.error(`Versus Leave Error for post ${postId}:`, error);
+      res.status(400).json({
+        status: 'error',
+        message: 'Failed to leave the versus lobby',
+      });
+    }
+  }
+);
+
+// Relays a player's message to their match's channel
+router.post<{ matchId: string }, VersusMessageResponse | { status: string; message: string }, unknown>(
+  '/api/versus/:matchId/message',
+  async (req, res): Promise<void> => {
+    const { matchId } = req.params;
+    if (!isVersusMatchId(matchId)) {
+      res.status(400).json({
+        status: 'error',
+        message: `Invalid match id: ${matchId}`,
+      });
+      return;
+    }
+
+    const message: unknown = req.body;
+    if (!isVersusPlayerMessage(message)) {
+      res.status(400).json({
+        status: 'error',
+        message: 'Versus message is malformed',
+      });
+      return;
+    }
+
+    try {
+      const [match, username] = await Promise.all([getVersusMatch(matchId), reddit.getCurrentUsername()]);
+      if (!match) {
+        res.status(404).json({
+          status: 'error',
+          message: 'Match not found or over',
+        });
+        return;
+      }
+      if (!username || message.player !== username || !match.players.includes(username)) {
+        res.status(403).json({
+          status: 'error',
+          message: 'You are not playing in this match',
+        });
+        return;
+      }
+
+      if (message.type === 'attack' && !(await takeVersusAttack(matchId, username, Date.now()))) {
+        res.status(429).json({
+          status: 'error',
+          message: 'Too many attacks, slow down',
+        });
+        return;
+      }
+
+      await sendVersusMessage(matchId, pickVersusPlayerMessage(message));
+      res.json({ type: 'versusRelayed' });
+    } catch (error) {
+      console.error(`Versus Message Error for match ${matchId}:`, error);
+      res.status(400).json({
+        status: 'error',
+        message: 'Failed to send versus message',
+      });
+    }
+  }
+);
+
+// Player Profile API
+router.get<Record<string, never>, ProfileResponse | { status: string; message: string }>(
+  '/api/profile',
+  async (_req, res): Promise<void> => {
+    const { userId } = context;
+    if (!userId) {
+      res.status(401).json({
+        status: 'error',
+        message: 'You must be logged in to load a profile',
+      });
+      return;
+    }
+
+    try {
+      res.json({
+        type: 'profile',
+        profile: await getProfile(userId),
+      });
+    } catch (error) {
+      console.error(`Profile Error for ${userId}:`, error);
+      res.status(400).json({
+        status: 'error',
+        message: 'Failed to load profile',
+      });
+    }
+  }
+);
+
+router.put<Record<string, never>, ProfileResponse | { status: string; message: string }, ProfileUpdateRequest>(
+  '/api/profile',
+  async (req, res): Promise<void> => {
+    const { userId } = context;
+    if (!userId) {
+      res.status(401).json({
+        status: 'error',
+        message: 'You must be logged in to save a profile',
+      });
+      return;
+    }
+
+    if (!isValidProfileUpdate(req.body)) {
+      res.status(400).json({
+        status: 'error',
+        message: 'profile is required',
+      });
+      return;
+    }
+
+    try {
+      const profile = await saveProfile(userId, req.body.profile);
+      if (!profile) {
+        res.status(409).json({
+          status: 'error',
+          message: 'Profile was saved by a newer version of the game',
+        });
+        return;
+      }
+
+      res.json({ type: 'profile', profile });
+    } catch (error) {
+      console.error(`Profile Save Error for ${userId}:`, error);
+      res.status(400).json({
+        status: 'error',
+        message: 'Failed to save profile',
+      });
+    }
+  }
+);
+
+// Custom Level API (moderators build levels in the editor; anyone may read them)
+router.get<Record<string, never>, CustomLevelListResponse | { status: string; message: string }>(
+  '/api/levels',
+  async (_req, res): Promise<void> => {
+    const { subredditName } = context;
+    if (!subredditName) {
+      res.status(400).json({
+        status: 'error',
+        message: 'subredditName is required',
+      });
+      return;
+    }
+
+    try {
+      const username = await reddit.getCurrentUsername();
+      const [levels, canEdit] = await Promise.all([
+        listCustomLevels(subredditName),
+        username ? isModerator(subredditName, username) : false,
+      ]);
+
+      res.json({ type: 'customLevels', levels, canEdit });
+    } catch (error) {
+      console.error(`Custom Level List Error for ${subredditName}:`, error);
+      res.status(400).json({
+        status: 'error',
+        message: 'Failed to load custom levels',
+      });
+    }
+  }
+);
+
+router.get<{ id: string }, CustomLevelResponse | { status: string; message: string }>(
+  '/api/levels/:id',
+  async (req, res): Promise<void> => {
+    const { subredditName } = context;
+    if (!subredditName) {
+      res.status(400).json({
+        status: 'error',
+        message: 'subredditName is required',
+      });
+      return;
+    }
+
+    try {
+      const pack = await getCustomLevel(subredditName, req.params.id);
+      if (!pack) {
+        res.status(404).json({
+          status: 'error',
+          message: `Level ${req.params.id} not found`,
+        });
+        return;
+      }
+
+      res.json({ type: 'customLevel', pack });
+    } catch (error) {
+      console.error(`Custom Level Error for ${req.params.id}:`, error);
+      res.status(400).json({
+        status: 'error',
+        message: 'Failed to load level',
+      });
+    }
+  }
+);
+
+router.post<
+  Record<string, never>,
+  CustomLevelSaveResponse | LevelPackRejectedResponse | { status: string; message: string },
+  CustomLevelSaveRequest
+>('/api/levels', async (req, res): Promise<void> => {
+  const { subredditName } = context;
+  if (!subredditName) {
+    res.status(400).json({
+      status: 'error',
+      message: 'subredditName is required',
+    });
+    return;
+  }
+
+  try {
+    const username = await reddit.getCurrentUsername();
+    if (!username || !(await isModerator(subredditName, username))) {
+      res.status(403).json({
+        status: 'error',
+        message: 'Only moderators can save levels',
+      });
+      return;
+    }
+
+    const result = await saveCustomLevel(subredditName, req.body?.pack, username);
+    if (!result.ok) {
+      res.status(400).json({
+        status: 'error',
+        message: 'Level pack is invalid',
+        errors: result.errors,
+      });
+      return;
+    }
+
+    res.json({ type: 'customLevelSaved', level: result.level });
+  } catch (error) {
+    console.error(`Custom Level Save Error for ${subredditName}:`, error);
+    res.status(400).json({
+      status: 'error',
+      message: 'Failed to save level',
+    });
+  }
+});
+
 router.post('/internal/on-app-install', async (_req, res): Promise<void> => {
   try {
     const post = await createPost();
@@ -263,22 +1108,112 @@ router.post('/internal/on-app-install', async (_req, res): Promise<void> => {
   }
 });
 
-router.post('/internal/menu/post-create', async (_req, res): Promise<void> => {
+// Runs just after midnight UTC: closes out yesterday's challenge, then posts today's
+router.post('/internal/scheduler/daily-challenge', async (_req, res): Promise<void> => {
+  const { subredditName } = context;
+  if (!subredditName) {
+    res.status(400).json({
+      status: 'error',
+      message: 'subredditName is required',
+    });
+    return;
+  }
+
   try {
-    const post = await createPost();
+    const today = getChallengeDate(Date.now());
+    await archiveDailyChallenge(subredditName, getPreviousChallengeDate(today));
+    const { postId, created } = await createDailyChallengePost(subredditName, Date.now());
 
     res.json({
-      navigateTo: `https://reddit.com/r/${context.subredditName}/comments/${post.id}`,
+      status: 'success',
+      message: created ? `Daily challenge ${today} posted as ${postId}` : `Daily challenge ${today} already exists`,
     });
   } catch (error) {
-    console.error(`Error creating post: ${error}`);
+    console.error(`Daily Challenge Error for ${subredditName}:`, error);
     res.status(400).json({
       status: 'error',
-      message: 'Failed to create post',
+      message: 'Failed to create daily challenge',
     });
   }
 });
 
+const BUILT_IN_LEVELS_CHOICE = 'built-in';
+
+// With custom levels saved, ask which one the new post should play first
+router.post<Record<string, never>, UiResponse | { status: string; message: string }>(
+  '/internal/menu/post-create',
+  async (_req, res): Promise<void> => {
+    try {
+      const levels = context.subredditName ? await listCustomLevels(context.subredditName) : [];
+      if (levels.length > 0) {
+        res.json({
+          showForm: {
+            name: 'postCreateForm',
+            form: {
+              title: 'Create a new post',
+              acceptLabel: 'Create',
+              fields: [
+                {
+                  type: 'select',
+                  name: 'level',
+                  label: 'Levels',
+                  required: true,
+                  defaultValue: [BUILT_IN_LEVELS_CHOICE],
+                  options: [
+                    { label: 'Built-in levels', value: BUILT_IN_LEVELS_CHOICE },
+                    ...levels.map(level => ({ label: `${level.name} (by u/${level.author})`, value: level.id })),
+                  ],
+                },
+              ],
+            },
+          },
+        });
+        return;
+      }
+
+      const post = await createPost();
+      res.json({
+        navigateTo: `https://reddit.com/r/${context.subredditName}/comments/${post.id}`,
+      });
+    } catch (error) {
+      console.error(`Error creating post: ${error}`);
+      res.status(400).json({
+        status: 'error',
+        message: 'Failed to create post',
+      });
+    }
+  }
+);
+
+router.post<Record<string, never>, UiResponse | { status: string; message: string }, { level?: string[] }>(
+  '/internal/form/post-create',
+  async (req, res): Promise<void> => {
+    try {
+      const levelId = req.body.level?.[0] ?? BUILT_IN_LEVELS_CHOICE;
+      const pack =
+        levelId !== BUILT_IN_LEVELS_CHOICE && context.subredditName
+          ? await getCustomLevel(context.subredditName, levelId)
+          : null;
+
+      if (levelId !== BUILT_IN_LEVELS_CHOICE && !pack) {
+        res.json({ showToast: `Level ${levelId} no longer exists` });
+        return;
+      }
+
+      const post = await createPost(pack ?? undefined);
+      res.json({
+        navigateTo: `https://reddit.com/r/${context.subredditName}/comments/${post.id}`,
+      });
+    } catch (error) {
+      console.error(`Error creating post: ${error}`);
+      res.status(400).json({
+        status: 'error',
+        message: 'Failed to create post',
+      });
+    }
+  }
+);
+
 // Use router middleware
 app.use(router);
 
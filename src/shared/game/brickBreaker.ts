@@ -0,0 +1,156 @@
+// Brick-breaker mode. Its levels are won by breaking every breakable brick
+// instead of reaching a bounce target, and a cleared level earns a bonus for
+// the time left on the clock. Brick layouts are written as grids, one
+// character per brick, both here and in level packs.
+
+import type { GameConfig, LevelConfig, Obstacle } from './types';
+import type { ObstacleLayout } from './levelPack';
+
+// Rows are listed top first. Each character is one cell:
+//   '.'      empty
+//   '1'-'9'  a brick that takes that many hits to break
+//   '*'      a one-hit brick that drops a power-up when it breaks
+//   '#'      an indestructible brick, which never has to be cleared
+export type BrickGrid = {
+  rows: string[];
+  top?: number; // y of the top edge of the first row, in playfield pixels
+  cellHeight?: number;
+  gap?: number; // space left between neighbouring bricks
+};
+
+export const BRICK_CELL_PATTERN = /^[.#*1-9]+$/;
+export const MAX_BRICK_ROWS = 12;
+export const MAX_BRICK_COLUMNS = 16;
+export const BRICK_POINTS_PER_HIT = 50;
+export const DEFAULT_BRICK_GRID_TOP = 60;
+export const DEFAULT_BRICK_CELL_HEIGHT = 24;
+export const DEFAULT_BRICK_GAP = 4;
+
+// The grid spans the playfield's width, less this much on each side
+const BRICK_GRID_MARGIN = 20;
+
+const layoutBrick = (cell: string, x: number, y: number, width: number, height: number): ObstacleLayout | null => {
+  if (cell === '#') return { type: 'static-block', x, y, width, height };
+
+  const dropsPowerUp = cell === '*';
+  const health = dropsPowerUp ? 1 : Number(cell);
+  if (!Number.isInteger(health) || health < 1) return null;
+
+  return {
+    type: 'breakable-brick',
+    x,
+    y,
+    width,
+    height,
+    health,
+    maxHealth: health,
+    points: health * BRICK_POINTS_PER_HIT,
+    ...(dropsPowerUp && { dropsPowerUp }),
+  };
+};
+
+// Turns a grid into obstacles, row by row from the top left. The columns of
+// the widest row share the playfield's width.
+export const layoutBrickGrid = (grid: BrickGrid, playfield: Pick<GameConfig, 'canvasWidth'>): ObstacleLayout[] => {
+  const { rows, top = DEFAULT_BRICK_GRID_TOP, cellHeight = DEFAULT_BRICK_CELL_HEIGHT, gap = DEFAULT_BRICK_GAP } = grid;
+  const columns = Math.max(...rows.map(row => row.length));
+  const cellWidth = (playfield.canvasWidth - BRICK_GRID_MARGIN * 2) / columns;
+
+  return rows.flatMap((row, rowIndex) =>
+    [...row].flatMap((cell, column) => {
+      const x = BRICK_GRID_MARGIN + cellWidth * (column + 0.5);
+      const y = top + cellHeight * (rowIndex + 0.5);
+      const brick = layoutBrick(cell, x, y, cellWidth - gap, cellHeight - gap);
+      return brick ? [brick] : [];
+    })
+  );
+};
+
+export const getBrickGridBottom = (grid: BrickGrid): number =>
+  (grid.top ?? DEFAULT_BRICK_GRID_TOP) + grid.rows.length * (grid.cellHeight ?? DEFAULT_BRICK_CELL_HEIGHT);
+
+// Indestructible bricks are static blocks, so only breakable ones count
+export const countBricksLeft = (obstacles: Obstacle[]): number =>
+  obstacles.filter(obstacle => obstacle.type === 'breakable-brick').length;
+
+type BrickLevel = Omit<LevelConfig, 'level' | 'winCondition' | 'obstacles'> & { bricks: BrickGrid };
+
+// Light gravity and bounces that keep all of the ball's speed let it reach the
+// top rows and keep reaching them, as it never would on the campaign's levels
+const BRICK_BREAKER_LEVELS: BrickLevel[] = [
+  {
+    name: 'First Wall',
+    ballSpeed: 10,
+    platformWidth: 110,
+    platformSpeed: 9,
+    gravity: 3,
+    bounceCoefficient: 1,
+    targetBounces: 10,
+    timeLimit: 120,
+    bricks: { rows: ['1111111111', '11111*1111', '1111111111'] },
+  },
+  {
+    name: 'Two Coats',
+    ballSpeed: 11,
+    platformWidth: 100,
+    platformSpeed: 10,
+    gravity: 3.25,
+    bounceCoefficient: 1,
+    targetBounces: 10,
+    timeLimit: 120,
+    bricks: { rows: ['2222222222', '2*111111*2', '1111111111', '.11111111.'] },
+  },
+  {
+    name: 'Pillars',
+    ballSpeed: 12,
+    platformWidth: 95,
+    platformSpeed: 10,
+    gravity: 3.5,
+    bounceCoefficient: 1,
+    targetBounces: 10,
+    timeLimit: 150,
+    bricks: { rows: ['3.3.33.3.3', '2#2*22*2#2', '1#111111#1', '1#11..11#1'] },
+  },
+  {
+    name: 'Fortress',
+    ballSpeed: 13,
+    platformWidth: 90,
+    platformSpeed: 11,
+    gravity: 3.75,
+    bounceCoefficient: 1,
+    targetBounces: 10,
+    timeLimit: 150,
+    bricks: { rows: ['##########', '#33333333#', '#2*2222*2#', '#11111111#', '....11....'] },
+  },
+  {
+    name: 'The Core',
+    ballSpeed: 14,
+    platformWidth: 85,
+    platformSpeed: 12,
+    gravity: 4,
+    bounceCoefficient: 1,
+    targetBounces: 10,
+    timeLimit: 180,
+    bricks: { rows: ['4444444444', '3#333333#3', '2#2*99*2#2', '2#222222#2', '1111##1111', '*........*'] },
+  },
+];
+
+// Replaces the config's levels with the brick-breaker ones, laid out for its playfield
+export const createBrickBreakerGameConfig = (config: GameConfig): GameConfig => ({
+  ...config,
+  mode: 'bricks',
+  levels: BRICK_BREAKER_LEVELS.map(({ bricks, ...tuning }, index): LevelConfig => {
+    const level = index + 1;
+    return {
+      ...tuning,
+      level,
+      winCondition: { type: 'bricks' },
+      obstacles: layoutBrickGrid(bricks, config).map((brick, brickIndex) => ({
+        ...brick,
+        id: `level${level}_${brick.type}_${brickIndex}`,
+      })),
+    };
+  }),
+});
+
+export const isBrickBreakerConfig = (config: GameConfig): boolean => config.mode === 'bricks';
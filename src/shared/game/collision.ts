@@ -0,0 +1,332 @@
+// Continuous (swept) collision detection. Instead of testing for overlap after
+// the ball has moved, each test returns the fraction of the move at which the
+// ball first touches a surface, so fast balls cannot skip through thin ones.
+
+import type { BallPhysics, BallPosition, GameConfig, Obstacle, Platform } from './types';
+import { BUMPER_IMPULSE, getObstacleRadius, isRoundObstacle, isSolidObstacle } from './obstacles';
+
+export type Vector = {
+  x: number;
+  y: number;
+};
+
+export type Aabb = {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+};
+
+export type SweepHit = {
+  toi: number; // time of impact as a fraction of the displacement, 0..1
+  normal: Vector; // unit contact normal pointing away from the surface
+};
+
+export type Collider =
+  | { kind: 'wall'; side: 'left' | 'right' }
+  | { kind: 'ceiling' }
+  | { kind: 'platform'; bounds: Aabb; paddle: number } // paddle indexes the frame's platforms
+  | {
+      kind: 'obstacle';
+      obstacle: Obstacle;
+      bounds: Aabb;
+      velocity: Vector; // per unit of deltaTime
+      solid: boolean;
+      round: boolean; // swept as a circle rather than a box
+    };
+
+export type Contact = SweepHit & {
+  collider: Collider;
+  position: BallPosition; // ball center at the moment of impact
+};
+
+// Solid contacts per step: enough for a corner bounce (wall then ceiling) plus a paddle or obstacle hit
+export const MAX_CONTACTS_PER_STEP = 4;
+
+const dot = (a: Vector, b: Vector): number => a.x * b.x + a.y * b.y;
+
+// Earliest t in [0, 1] at which a circle moving from origin by displacement
+// touches a fixed point, or null if it never does.
+const sweepCirclePoint = (origin: Vector, displacement: Vector, radius: number, point: Vector): number | null => {
+  const offset = { x: origin.x - point.x, y: origin.y - point.y };
+  const a = dot(displacement, displacement);
+  const b = 2 * dot(offset, displacement);
+  const c = dot(offset, offset) - radius * radius;
+  if (a === 0) return null;
+
+  const discriminant = b * b - 4 * a * c;
+  if (discriminant < 0) return null;
+
+  const t = (-b - Math.sqrt(discriminant)) / (2 * a);
+  return t >= 0 && t <= 1 ? t : null;
+};
+
+// Swept circle against an axis-aligned box, done as a ray against the box
+// grown by the radius with its corners rounded off.
+export const sweepCircleAabb = (
+  origin: Vector,
+  displacement: Vector,
+  radius: number,
+  box: Aabb
+): SweepHit | null => {
+  const grown: Aabb = {
+    minX: box.minX - radius,
+    minY: box.minY - radius,
+    maxX: box.maxX + radius,
+    maxY: box.maxY + radius,
+  };
+
+  const startsInside =
+    origin.x > grown.minX && origin.x < grown.maxX && origin.y > grown.minY && origin.y < grown.maxY;
+
+  if (startsInside) {
+    // Already touching: push out through the nearest face, but only if moving into it
+    const faces: SweepHit[] = [
+      { toi: origin.x - grown.minX, normal: { x: -1, y: 0 } },
+      { toi: grown.maxX - origin.x, normal: { x: 1, y: 0 } },
+      { toi: origin.y - grown.minY, normal: { x: 0, y: -1 } },
+      { toi: grown.maxY - origin.y, normal: { x: 0, y: 1 } },
+    ];
+    const nearest = faces.reduce((best, face) => (face.toi < best.toi ? face : best));
+    return dot(displacement, nearest.normal) < 0 ? { toi: 0, normal: nearest.normal } : null;
+  }
+
+  let tEnter = -Infinity;
+  let tExit = Infinity;
+  let normal: Vector = { x: 0, y: 0 };
+
+  for (const axis of ['x', 'y'] as const) {
+    const min = axis === 'x' ? grown.minX : grown.minY;
+    const max = axis === 'x' ? grown.maxX : grown.maxY;
+    const d = displacement[axis];
+
+    if (d === 0) {
+      if (origin[axis] <= min || origin[axis] >= max) return null;
+      continue;
+    }
+
+    const t1 = (min - origin[axis]) / d;
+    const t2 = (max - origin[axis]) / d;
+    const near = Math.min(t1, t2);
+    if (near > tEnter) {
+      tEnter = near;
+      normal = axis === 'x' ? { x: d > 0 ? -1 : 1, y: 0 } : { x: 0, y: d > 0 ? -1 : 1 };
+    }
+    tExit = Math.min(tExit, Math.max(t1, t2));
+  }
+
+  if (tEnter > tExit || tEnter < 0 || tEnter > 1) return null;
+
+  // Entering through a corner region of the grown box only counts if the
+  // circle actually reaches the box corner
+  const hit = { x: origin.x + displacement.x * tEnter, y: origin.y + displacement.y * tEnter };
+  const cornerX = hit.x < box.minX ? box.minX : hit.x > box.maxX ? box.maxX : null;
+  const cornerY = hit.y < box.minY ? box.minY : hit.y > box.maxY ? box.maxY : null;
+
+  if (cornerX !== null && cornerY !== null) {
+    const corner = { x: cornerX, y: cornerY };
+    const t = sweepCirclePoint(origin, displacement, radius, corner);
+    if (t === null) return null;
+
+    const contact = { x: origin.x + displacement.x * t, y: origin.y + displacement.y * t };
+    return {
+      toi: t,
+      normal: { x: (contact.x - corner.x) / radius, y: (contact.y - corner.y) / radius },
+    };
+  }
+
+  return { toi: tEnter, normal };
+};
+
+// Swept circle against a round obstacle: the ball touches it once their
+// centres are the two radii apart
+const sweepCircleCircle = (
+  origin: Vector,
+  displacement: Vector,
+  radius: number,
+  center: Vector,
+  obstacleRadius: number
+): SweepHit | null => {
+  const reach = radius + obstacleRadius;
+  const offset = { x: origin.x - center.x, y: origin.y - center.y };
+  const distance = Math.sqrt(dot(offset, offset));
+
+  if (distance < reach) {
+    // Already touching: push out along the line between the centres, but only if moving into it
+    if (distance === 0) return null;
+    const normal = { x: offset.x / distance, y: offset.y / distance };
+    return dot(displacement, normal) < 0 ? { toi: 0, normal } : null;
+  }
+
+  const t = sweepCirclePoint(origin, displacement, reach, center);
+  if (t === null) return null;
+
+  const contact = { x: origin.x + displacement.x * t, y: origin.y + displacement.y * t };
+  return { toi: t, normal: { x: (contact.x - center.x) / reach, y: (contact.y - center.y) / reach } };
+};
+
+// Swept circle against the inside of one playfield boundary
+const sweepCircleBoundary = (
+  origin: Vector,
+  displacement: Vector,
+  radius: number,
+  collider: Extract<Collider, { kind: 'wall' | 'ceiling' }>,
+  config: GameConfig
+): SweepHit | null => {
+  const axis = collider.kind === 'ceiling' ? 'y' : 'x';
+  const limit = collider.kind === 'wall' && collider.side === 'right' ? config.canvasWidth - radius : radius;
+  const direction = collider.kind === 'wall' && collider.side === 'right' ? -1 : 1; // normal along axis
+  const normal = axis === 'x' ? { x: direction, y: 0 } : { x: 0, y: direction };
+
+  const gap = (origin[axis] - limit) * direction; // negative once past the boundary
+  const approach = displacement[axis] * direction;
+  if (approach >= 0) return null;
+  if (gap <= 0) return { toi: 0, normal };
+
+  const toi = gap / -approach;
+  return toi <= 1 ? { toi, normal } : null;
+};
+
+// `start` and `duration` place the displacement within the step (in deltaTime
+// units) so moving obstacles are swept from where they are at that moment
+export const sweepCollider = (
+  origin: Vector,
+  displacement: Vector,
+  start: number,
+  duration: number,
+  radius: number,
+  collider: Collider,
+  config: GameConfig
+): SweepHit | null => {
+  switch (collider.kind) {
+    case 'wall':
+    case 'ceiling':
+      return sweepCircleBoundary(origin, displacement, radius, collider, config);
+    case 'platform':
+      return sweepCircleAabb(origin, displacement, radius, collider.bounds);
+    case 'obstacle': {
+      // Sweep in the obstacle's frame of reference so moving barriers are handled too
+      const relativeOrigin = {
+        x: origin.x - collider.velocity.x * start,
+        y: origin.y - collider.velocity.y * start,
+      };
+      const relative = {
+        x: displacement.x - collider.velocity.x * duration,
+        y: displacement.y - collider.velocity.y * duration,
+      };
+      if (!collider.round) return sweepCircleAabb(relativeOrigin, relative, radius, collider.bounds);
+
+      const { obstacle } = collider;
+      return sweepCircleCircle(relativeOrigin, relative, radius, obstacle, getObstacleRadius(obstacle));
+    }
+  }
+};
+
+export const getCenteredBounds = (x: number, y: number, width: number, height: number): Aabb => ({
+  minX: x - width / 2,
+  minY: y - height / 2,
+  maxX: x + width / 2,
+  maxY: y + height / 2,
+});
+
+export const createObstacleCollider = (obstacle: Obstacle): Collider => ({
+  kind: 'obstacle',
+  obstacle,
+  bounds: getCenteredBounds(obstacle.x, obstacle.y, obstacle.width, obstacle.height),
+  velocity: { x: obstacle.vx ?? 0, y: obstacle.vy ?? 0 },
+  solid: isSolidObstacle(obstacle),
+  round: isRoundObstacle(obstacle),
+});
+
+export const createFrameColliders = (platforms: Platform[], obstacles: Obstacle[]): Collider[] => [
+  { kind: 'wall', side: 'left' },
+  { kind: 'wall', side: 'right' },
+  { kind: 'ceiling' },
+  ...platforms.map(
+    (platform, paddle): Collider => ({
+      kind: 'platform',
+      bounds: getCenteredBounds(platform.x, platform.y, platform.width, platform.height),
+      paddle,
+    })
+  ),
+  ...obstacles.map(createObstacleCollider),
+];
+
+// Reflects the ball's velocity relative to the surface it hit. Bumpers kick
+// the ball back out on top of the bounce.
+export const reflectVelocity = (ball: BallPhysics, contact: Contact): BallPhysics['velocity'] => {
+  const { collider } = contact;
+  const surfaceVelocity = collider.kind === 'obstacle' ? collider.velocity : { x: 0, y: 0 };
+  const relative = { x: ball.velocity.vx - surfaceVelocity.x, y: ball.velocity.vy - surfaceVelocity.y };
+  const approach = dot(relative, contact.normal);
+  if (approach >= 0) return ball.velocity;
+
+  const kick = collider.kind === 'obstacle' && collider.obstacle.type === 'bumper' ? BUMPER_IMPULSE : 0;
+  const impulse = (1 + ball.bounceCoefficient) * approach - kick;
+  return {
+    vx: ball.velocity.vx - impulse * contact.normal.x,
+    vy: ball.velocity.vy - impulse * contact.normal.y,
+  };
+};
+
+// Moves the ball through one step of its current velocity, resolving every
+// contact in time-of-impact order. Non-solid colliders are reported as they
+// are crossed but do not deflect the ball.
+export const moveBall = (
+  ball: BallPhysics,
+  deltaTime: number,
+  colliders: Collider[],
+  config: GameConfig,
+  respond: (ball: BallPhysics, contact: Contact) => BallPhysics = (current, contact) => ({
+    ...current,
+    velocity: reflectVelocity(current, contact),
+  })
+): { ballPhysics: BallPhysics; contacts: Contact[] } => {
+  let current = ball;
+  let remaining = deltaTime;
+  const contacts: Contact[] = [];
+  const crossed = new Set<Collider>();
+  let solidContacts = 0;
+
+  while (remaining > 0) {
+    const origin = current.position;
+    const displacement = { x: current.velocity.vx * remaining, y: current.velocity.vy * remaining };
+
+    let earliest: Contact | null = null;
+    for (const collider of colliders) {
+      if (crossed.has(collider)) continue;
+      const hit = sweepCollider(origin, displacement, deltaTime - remaining, remaining, current.radius, collider, config);
+      if (hit && (!earliest || hit.toi < earliest.toi)) {
+        earliest = {
+          ...hit,
+          collider,
+          position: { x: origin.x + displacement.x * hit.toi, y: origin.y + displacement.y * hit.toi },
+        };
+      }
+    }
+
+    if (!earliest) {
+      current = { ...current, position: { x: origin.x + displacement.x, y: origin.y + displacement.y } };
+      break;
+    }
+
+    contacts.push(earliest);
+    const isSolid = earliest.collider.kind !== 'obstacle' || earliest.collider.solid;
+
+    if (!isSolid) {
+      crossed.add(earliest.collider);
+      continue;
+    }
+
+    current = respond({ ...current, position: earliest.position }, earliest);
+    remaining *= 1 - earliest.toi;
+    solidContacts += 1;
+
+    // Out of budget: stop at the last contact rather than risk tunneling.
+    // Zones the ball passes through are crossed at most once each, so only
+    // solid contacts count.
+    if (solidContacts >= MAX_CONTACTS_PER_STEP) break;
+  }
+
+  return { ballPhysics: current, contacts };
+};
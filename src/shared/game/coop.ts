@@ -0,0 +1,58 @@
+// Local co-op: two paddles share one ball and one set of lives. Each paddle
+// keeps to its own half of the playfield, so they never overlap, and the
+// points of every platform bounce are credited to the paddle that made it.
+
+import type { GameConfig, LevelConfig, PaddleScore, Platform, ScoreData } from './types';
+import { clamp, createInitialPlatform } from './physics';
+
+export const COOP_PADDLES = 2;
+
+// Gap kept between a paddle and the edge of its lane
+const LANE_MARGIN = 10;
+
+export const createCoopGameConfig = (config: GameConfig): GameConfig => ({ ...config, coop: true });
+
+export const isCoopConfig = (config: GameConfig): boolean => config.coop === true;
+
+// Paddle 0 plays the left half, paddle 1 the right half
+const getLane = (config: GameConfig, paddle: number): { minX: number; maxX: number } => {
+  const laneWidth = config.canvasWidth / COOP_PADDLES;
+  return { minX: laneWidth * paddle, maxX: laneWidth * (paddle + 1) };
+};
+
+export const moveCoopPlatform = (platform: Platform, targetX: number, config: GameConfig, paddle: number): Platform => {
+  const { minX, maxX } = getLane(config, paddle);
+  const halfWidth = platform.width / 2;
+  return { ...platform, x: clamp(targetX, minX + halfWidth + LANE_MARGIN, maxX - halfWidth - LANE_MARGIN) };
+};
+
+// Both paddles start in the middle of their lanes
+export const createCoopPlatforms = (config: GameConfig, level: LevelConfig): [Platform, Platform] => {
+  const platform = createInitialPlatform(config, level);
+  const center = (paddle: number) => {
+    const { minX, maxX } = getLane(config, paddle);
+    return moveCoopPlatform(platform, (minX + maxX) / 2, config, paddle);
+  };
+  return [center(0), center(1)];
+};
+
+export const createPaddleScores = (): PaddleScore[] =>
+  Array.from({ length: COOP_PADDLES }, () => ({ score: 0, bounces: 0, bestCombo: 0 }));
+
+// Credits a platform bounce, scored from `before` into `after`, to `paddle`
+export const creditPaddle = (before: ScoreData, after: ScoreData, paddle: number): ScoreData => {
+  if (!after.paddles?.[paddle]) return after;
+
+  return {
+    ...after,
+    paddles: after.paddles.map((paddleScore, index) =>
+      index === paddle
+        ? {
+            score: paddleScore.score + after.score - before.score,
+            bounces: paddleScore.bounces + 1,
+            bestCombo: Math.max(paddleScore.bestCombo, after.consecutiveBounces),
+          }
+        : paddleScore
+    ),
+  };
+};
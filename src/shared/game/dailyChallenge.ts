@@ -0,0 +1,86 @@
+// Daily challenges: one post per UTC day whose levels, obstacles and power-up
+// spawns are all generated from a seed derived from the date, so every player
+// faces the same run and the server can replay it to verify scores.
+
+import type { LevelBackground, LevelConfig, PowerUpSpawnTable } from './types';
+import type { LevelPack, LevelPackLevel } from './levelPack';
+import type { LevelPlayfield } from './levelGenerator';
+import { LEVEL_PACK_VERSION } from './levelPack';
+import { generateObstacle, randomInt } from './levelGenerator';
+import { createLevelConfigs } from './physics';
+import { createRandomSource, hashSeed } from './random';
+import { POWER_UP_DEFINITIONS, POWER_UP_TYPES } from './powerUps';
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+export const DAILY_CHALLENGE_LEVELS = 3;
+
+export type DailyChallenge = {
+  date: string; // UTC day, YYYY-MM-DD
+  seed: number;
+};
+
+const BACKGROUNDS: LevelBackground[] = [
+  { top: '#1e3c72', bottom: '#2a5298' },
+  { top: '#42275a', bottom: '#734b6d' },
+  { top: '#0f2027', bottom: '#2c5364' },
+  { top: '#3a1c71', bottom: '#d76d77' },
+  { top: '#134e5e', bottom: '#71b280' },
+];
+
+export const getChallengeDate = (time: number): string => new Date(time).toISOString().slice(0, 10);
+
+const getChallengeStartTime = (date: string): number => Date.parse(`${date}T00:00:00.000Z`);
+
+export const getChallengeEndTime = (date: string): number => getChallengeStartTime(date) + DAY_MS;
+
+export const getPreviousChallengeDate = (date: string): string => getChallengeDate(getChallengeStartTime(date) - DAY_MS);
+
+// Scores only count towards the daily leaderboard until the day is over
+export const isChallengeOpen = (challenge: DailyChallenge, now: number): boolean =>
+  now < getChallengeEndTime(challenge.date);
+
+export const createDailyChallenge = (date: string): DailyChallenge => ({
+  date,
+  seed: hashSeed('daily', date),
+});
+
+// Each power-up keeps its usual chance of spawning, scaled up by up to three times
+const generatePowerUps = (random: () => number): PowerUpSpawnTable => {
+  const minInterval = randomInt(random, 8, 15);
+
+  return {
+    minInterval,
+    maxInterval: minInterval + randomInt(random, 5, 15),
+    weights: Object.fromEntries(
+      POWER_UP_TYPES.map(type => [type, POWER_UP_DEFINITIONS[type].spawnWeight * randomInt(random, 1, 3)])
+    ),
+  };
+};
+
+// Tuning follows the built-in level of the same number; the layout is random
+const generateLevel = (random: () => number, base: LevelConfig, index: number, playfield: LevelPlayfield): LevelPackLevel => ({
+  ballSpeed: base.ballSpeed,
+  platformWidth: base.platformWidth,
+  platformSpeed: base.platformSpeed,
+  gravity: base.gravity,
+  bounceCoefficient: base.bounceCoefficient,
+  targetBounces: base.targetBounces,
+  timeLimit: base.timeLimit,
+  obstacles: Array.from({ length: index + 2 }, () => generateObstacle(random, playfield)),
+  powerUps: generatePowerUps(random),
+  background: BACKGROUNDS[Math.floor(random() * BACKGROUNDS.length)]!,
+});
+
+export const generateDailyLevelPack = (challenge: DailyChallenge, playfield: LevelPlayfield): LevelPack => {
+  const random = createRandomSource(challenge.seed);
+  const levels = createLevelConfigs()
+    .slice(0, DAILY_CHALLENGE_LEVELS)
+    .map((base, index) => generateLevel(random, base, index, playfield));
+
+  return {
+    version: LEVEL_PACK_VERSION,
+    id: `daily-${challenge.date}`,
+    name: `Daily Challenge ${challenge.date}`,
+    levels,
+  };
+};
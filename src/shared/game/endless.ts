@@ -0,0 +1,63 @@
+// Endless survival mode. Each wave is a 'survive' level generated when it
+// starts, from a seed drawn off the world's RNG, so replaying a run on the
+// server produces the same waves. Difficulty ramps smoothly up to a ceiling.
+
+import type { GameConfig, LevelConfig } from './types';
+import type { GeneratedObstacleType } from './levelGenerator';
+import { generateObstacle, pickWeighted } from './levelGenerator';
+import { createRandomSource } from './random';
+
+// Difficulty stops increasing after this many waves
+export const ENDLESS_RAMP_WAVES = 30;
+export const MAX_ENDLESS_OBSTACLES = 12;
+
+const lerp = (from: number, to: number, t: number): number => from + (to - from) * t;
+
+const round = (value: number, decimals: number): number => Number(value.toFixed(decimals));
+
+// 0 on the first wave, easing towards 1 at ENDLESS_RAMP_WAVES
+export const getEndlessDifficulty = (wave: number): number => {
+  const t = Math.min(1, Math.max(0, (wave - 1) / (ENDLESS_RAMP_WAVES - 1)));
+  return t * (2 - t); // ease-out: the early waves ramp up fastest
+};
+
+// Early waves only have blocks, boost zones and bumpers; barriers, bricks, wind
+// and gravity wells come in later
+const getObstacleWeights = (t: number): Record<GeneratedObstacleType, number> => ({
+  'static-block': 3,
+  'speed-boost': 1 + 2 * t,
+  'bumper': 1 + t,
+  'moving-barrier': t < 0.15 ? 0 : 1 + 4 * t,
+  'breakable-brick': t < 0.3 ? 0 : 2 * t,
+  'wind-zone': t < 0.3 ? 0 : 1 + t,
+  'gravity-well': t < 0.5 ? 0 : 2 * t,
+});
+
+export const createEndlessGameConfig = (config: GameConfig): GameConfig => ({ ...config, mode: 'endless' });
+
+export const isEndlessConfig = (config: GameConfig): boolean => config.mode === 'endless';
+
+export const generateEndlessWave = (wave: number, seed: number, config: GameConfig): LevelConfig => {
+  const random = createRandomSource(seed);
+  const t = getEndlessDifficulty(wave);
+  const obstacleCount = Math.min(MAX_ENDLESS_OBSTACLES, Math.round(lerp(0, MAX_ENDLESS_OBSTACLES, t)));
+  const maxSpeed = Math.round(lerp(1, 5, t));
+  const weights = getObstacleWeights(t);
+
+  return {
+    level: wave,
+    name: `Wave ${wave}`,
+    ballSpeed: round(lerp(8, 18, t), 1),
+    platformWidth: Math.round(lerp(110, 50, t)),
+    platformSpeed: round(lerp(8, 13, t), 1),
+    gravity: round(lerp(9.8, 12.5, t), 2),
+    bounceCoefficient: round(lerp(0.75, 0.88, t), 2),
+    targetBounces: 10, // waves are won by surviving, so this is only shown
+    timeLimit: Math.round(lerp(20, 40, t)),
+    winCondition: { type: 'survive' },
+    obstacles: Array.from({ length: obstacleCount }, (_, index) => {
+      const obstacle = generateObstacle(random, config, pickWeighted(random, weights), maxSpeed);
+      return { ...obstacle, id: `wave${wave}_${obstacle.type}_${index}` };
+    }),
+  };
+};
@@ -0,0 +1,114 @@
+// Remappable keyboard controls. Each action is bound to one KeyboardEvent.code
+// and is only active in one context, so the same key can do different things
+// while aiming and while playing (Space launches, then pauses). Bindings are
+// saved in the player profile, which is untrusted input for the server.
+
+export type KeyAction =
+  | 'moveLeft'
+  | 'moveRight'
+  | 'partnerLeft'
+  | 'partnerRight'
+  | 'pause'
+  | 'launch'
+  | 'aimLeft'
+  | 'aimRight'
+  | 'powerUp'
+  | 'powerDown';
+
+export type KeyBindings = Record<KeyAction, string>;
+
+export type KeyContext = 'aiming' | 'playing';
+
+export const KEY_ACTIONS: KeyAction[] = [
+  'moveLeft',
+  'moveRight',
+  'partnerLeft',
+  'partnerRight',
+  'pause',
+  'launch',
+  'aimLeft',
+  'aimRight',
+  'powerUp',
+  'powerDown',
+];
+
+const KEY_ACTION_CONTEXTS: Record<KeyAction, KeyContext> = {
+  moveLeft: 'playing',
+  moveRight: 'playing',
+  partnerLeft: 'playing',
+  partnerRight: 'playing',
+  pause: 'playing',
+  launch: 'aiming',
+  aimLeft: 'aiming',
+  aimRight: 'aiming',
+  powerUp: 'aiming',
+  powerDown: 'aiming',
+};
+
+export const KEY_ACTION_LABELS: Record<KeyAction, string> = {
+  moveLeft: 'Move left',
+  moveRight: 'Move right',
+  partnerLeft: 'Move left (P2 in co-op)',
+  partnerRight: 'Move right (P2 in co-op)',
+  pause: 'Pause / resume',
+  launch: 'Launch',
+  aimLeft: 'Aim left',
+  aimRight: 'Aim right',
+  powerUp: 'More power',
+  powerDown: 'Less power',
+};
+
+export const DEFAULT_KEY_BINDINGS: KeyBindings = {
+  moveLeft: 'KeyA',
+  moveRight: 'KeyD',
+  partnerLeft: 'ArrowLeft',
+  partnerRight: 'ArrowRight',
+  pause: 'Space',
+  launch: 'Space',
+  aimLeft: 'ArrowLeft',
+  aimRight: 'ArrowRight',
+  powerUp: 'ArrowUp',
+  powerDown: 'ArrowDown',
+};
+
+const KEY_CODE_PATTERN = /^[A-Za-z0-9]{1,32}$/;
+
+export const getKeyActionContext = (action: KeyAction): KeyContext => KEY_ACTION_CONTEXTS[action];
+
+// The action `code` triggers in `context`, if any
+export const getBoundAction = (bindings: KeyBindings, code: string, context: KeyContext): KeyAction | null =>
+  KEY_ACTIONS.find(action => bindings[action] === code && KEY_ACTION_CONTEXTS[action] === context) ?? null;
+
+// The action that already uses `code` in the same context as `action`, which
+// binding `code` to `action` would clash with
+export const findBindingConflict = (bindings: KeyBindings, action: KeyAction, code: string): KeyAction | null =>
+  KEY_ACTIONS.find(
+    other =>
+      other !== action && bindings[other] === code && KEY_ACTION_CONTEXTS[other] === KEY_ACTION_CONTEXTS[action]
+  ) ?? null;
+
+// Readable name of a key code, e.g. "KeyA" → "A", "ArrowLeft" → "←"
+export const getKeyLabel = (code: string): string => {
+  const arrows: Record<string, string> = { ArrowLeft: '←', ArrowRight: '→', ArrowUp: '↑', ArrowDown: '↓' };
+  const arrow = arrows[code];
+  if (arrow) return arrow;
+  if (/^Key[A-Z]$/.test(code)) return code.slice(3);
+  if (/^Digit[0-9]$/.test(code)) return code.slice(5);
+  return code;
+};
+
+// Fills missing or malformed bindings with the defaults. Falls back to the
+// defaults entirely when the stored bindings clash with each other.
+export const normalizeKeyBindings = (value: unknown): KeyBindings => {
+  if (!value || typeof value !== 'object') return { ...DEFAULT_KEY_BINDINGS };
+
+  const stored = value as Record<string, unknown>;
+  const bindings = { ...DEFAULT_KEY_BINDINGS };
+  for (const action of KEY_ACTIONS) {
+    const code = stored[action];
+    if (typeof code === 'string' && KEY_CODE_PATTERN.test(code)) bindings[action] = code;
+  }
+
+  const clashes = KEY_ACTIONS.some(action => findBindingConflict(bindings, action, bindings[action]) !== null);
+  return clashes ? { ...DEFAULT_KEY_BINDINGS } : bindings;
+};
@@ -0,0 +1,66 @@
+// Building blocks for procedurally generated levels. Everything draws from a
+// caller-supplied random source so a seed always produces the same layout.
+
+import type { GameConfig, ObstacleType } from './types';
+import type { ObstacleLayout } from './levelPack';
+import { OBSTACLE_TYPES } from './levelPack';
+
+export type LevelPlayfield = Pick<GameConfig, 'canvasWidth' | 'canvasHeight' | 'platformY'>;
+
+// A portal is only useful with a partner, so obstacles are generated one at a time from the other types
+export type GeneratedObstacleType = Exclude<ObstacleType, 'portal'>;
+
+const GENERATED_OBSTACLE_TYPES = OBSTACLE_TYPES.filter(
+  (type): type is GeneratedObstacleType => type !== 'portal'
+);
+
+export const randomInt = (random: () => number, min: number, max: number): number =>
+  min + Math.floor(random() * (max - min + 1));
+
+// Picks a key in proportion to its weight; weights of 0 are never picked
+export const pickWeighted = <T extends string>(random: () => number, weights: Record<T, number>): T => {
+  const entries = (Object.entries(weights) as [T, number][]).filter(([, weight]) => weight > 0);
+  let roll = random() * entries.reduce((total, [, weight]) => total + weight, 0);
+  for (const [key, weight] of entries) {
+    roll -= weight;
+    if (roll < 0) return key;
+  }
+  return entries[entries.length - 1]![0];
+};
+
+// Obstacles stay in a band below the top wall and well clear of the platform.
+// `maxSpeed` caps how fast moving barriers travel.
+export const generateObstacle = (
+  random: () => number,
+  playfield: LevelPlayfield,
+  type: GeneratedObstacleType = GENERATED_OBSTACLE_TYPES[Math.floor(random() * GENERATED_OBSTACLE_TYPES.length)]!,
+  maxSpeed = 3
+): ObstacleLayout => {
+  const width = randomInt(random, 40, 100);
+  const height = randomInt(random, 15, 25);
+  const x = randomInt(random, width / 2 + 10, playfield.canvasWidth - width / 2 - 10);
+  const y = randomInt(random, 80, playfield.canvasHeight - playfield.platformY - 200);
+
+  switch (type) {
+    case 'moving-barrier':
+      return { type, x, y, width, height, vx: (random() < 0.5 ? -1 : 1) * randomInt(random, 1, maxSpeed) };
+    case 'breakable-brick': {
+      const health = randomInt(random, 1, 3);
+      return { type, x, y, width, height, health, maxHealth: health, points: health * 50 };
+    }
+    case 'bumper': {
+      const size = randomInt(random, 30, 50);
+      return { type, x, y, width: size, height: size, points: 25 };
+    }
+    case 'wind-zone': {
+      const force = (random() < 0.5 ? -1 : 1) * randomInt(random, 10, 25) / 100;
+      return { type, x, y, width: width * 2, height: height * 3, force };
+    }
+    case 'gravity-well': {
+      const size = randomInt(random, 80, 140);
+      return { type, x, y, width: size, height: size, force: randomInt(random, 20, 50) / 100 };
+    }
+    default:
+      return { type, x, y, width, height };
+  }
+};
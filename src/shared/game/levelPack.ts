@@ -0,0 +1,498 @@
+// Versioned JSON format for sets of levels. A pack lists levels in play order;
+// each one carries the tuning fields of a LevelConfig plus an optional obstacle
+// layout, power-up spawn table, win condition and background. Packs come from
+// untrusted sources, so they are validated field by field before loading.
+// Bricks can also be laid out as a grid, which is expanded into obstacles.
+
+import type {
+  GameConfig,
+  LevelBackground,
+  LevelConfig,
+  Obstacle,
+  ObstacleType,
+  PowerUpSpawnTable,
+  PowerUpType,
+  WinCondition,
+} from './types';
+import type { BrickGrid } from './brickBreaker';
+import {
+  BRICK_CELL_PATTERN,
+  MAX_BRICK_COLUMNS,
+  MAX_BRICK_ROWS,
+  getBrickGridBottom,
+  layoutBrickGrid,
+} from './brickBreaker';
+import { POWER_UP_TYPES } from './powerUps';
+
+export const LEVEL_PACK_VERSION = 1;
+
+export const MAX_PACK_LEVELS = 50;
+export const MAX_LEVEL_OBSTACLES = 40;
+
+export const OBSTACLE_TYPES: ObstacleType[] = [
+  'static-block',
+  'moving-barrier',
+  'breakable-brick',
+  'speed-boost',
+  'portal',
+  'bumper',
+  'wind-zone',
+  'gravity-well',
+];
+
+// An obstacle as written in a pack; ids are assigned when the pack is loaded.
+// x and y are the obstacle's centre in playfield pixels.
+export type ObstacleLayout = Omit<Obstacle, 'id'>;
+
+export type LevelPackLevel = {
+  name?: string;
+  ballSpeed: number;
+  platformWidth: number;
+  platformSpeed: number;
+  gravity: number;
+  bounceCoefficient: number;
+  targetBounces: number;
+  timeLimit: number; // seconds
+  winCondition?: WinCondition; // defaults to { type: 'bounces' }
+  obstacles?: ObstacleLayout[];
+  bricks?: BrickGrid; // added to the obstacles when the pack is loaded
+  powerUps?: PowerUpSpawnTable;
+  background?: LevelBackground;
+};
+
+export type LevelPack = {
+  version: number;
+  id: string;
+  name: string;
+  author?: string;
+  levels: LevelPackLevel[];
+};
+
+export type LoadedLevelPack = {
+  id: string;
+  name: string;
+  author?: string;
+  levels: LevelConfig[];
+};
+
+export type LevelPackError = {
+  path: string; // e.g. "levels[2].obstacles[0].width"
+  message: string;
+};
+
+export type LevelPackLoadResult = { ok: true; pack: LoadedLevelPack } | { ok: false; errors: LevelPackError[] };
+
+type Playfield = Pick<GameConfig, 'canvasWidth' | 'canvasHeight'>;
+
+type Fields = Record<string, unknown>;
+
+const PACK_ID_PATTERN = /^[a-z0-9][a-z0-9-]{0,39}$/;
+const COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+
+const isObject = (value: unknown): value is Fields =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const describe = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  if (typeof value === 'string') return `"${value.length > 20 ? `${value.slice(0, 20)}...` : value}"`;
+  if (typeof value === 'object') return 'an object';
+  return String(value);
+};
+
+// Collects errors while walking a pack so every problem is reported at once
+const createChecker = (errors: LevelPackError[]) => {
+  const fail = (path: string, message: string) => {
+    errors.push({ path, message });
+  };
+
+  const number = (fields: Fields, key: string, path: string, min: number, max: number, integer = false) => {
+    const value = fields[key];
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      fail(`${path}${key}`, value === undefined ? 'is required' : `must be a number, got ${describe(value)}`);
+    } else if (integer && !Number.isInteger(value)) {
+      fail(`${path}${key}`, `must be a whole number, got ${value}`);
+    } else if (value < min || value > max) {
+      fail(`${path}${key}`, `must be between ${min} and ${max}, got ${value}`);
+    }
+  };
+
+  const optionalNumber = (fields: Fields, key: string, path: string, min: number, max: number, integer = false) => {
+    if (fields[key] !== undefined) number(fields, key, path, min, max, integer);
+  };
+
+  const text = (fields: Fields, key: string, path: string, maxLength: number, required: boolean) => {
+    const value = fields[key];
+    if (value === undefined && !required) return;
+    if (typeof value !== 'string' || value.trim().length === 0) {
+      fail(`${path}${key}`, value === undefined ? 'is required' : 'must be a non-empty string');
+    } else if (value.length > maxLength) {
+      fail(`${path}${key}`, `must be at most ${maxLength} characters`);
+    }
+  };
+
+  return { fail, number, optionalNumber, text };
+};
+
+type Checker = ReturnType<typeof createChecker>;
+
+const checkWinCondition = (check: Checker, value: unknown, path: string) => {
+  if (value === undefined) return;
+  if (!isObject(value)) {
+    check.fail(path, `must be an object, got ${describe(value)}`);
+    return;
+  }
+
+  switch (value.type) {
+    case 'bounces':
+    case 'survive':
+    case 'bricks':
+      return;
+    case 'score':
+      check.number(value, 'points', `${path}.`, 1, 1_000_000, true);
+      return;
+    default:
+      check.fail(`${path}.type`, `must be one of "bounces", "score", "survive" or "bricks", got ${describe(value.type)}`);
+  }
+};
+
+// A patrol has to fit the playfield and leave the obstacle room to move along each axis
+const checkPatrol = (check: Checker, obstacle: Fields, path: string, playfield: Playfield) => {
+  const value = obstacle.patrol;
+  if (value === undefined) return;
+  if (!isObject(value)) {
+    check.fail(path, `must be an object, got ${describe(value)}`);
+    return;
+  }
+
+  const prefix = `${path}.`;
+  check.number(value, 'minX', prefix, 0, playfield.canvasWidth);
+  check.number(value, 'maxX', prefix, 0, playfield.canvasWidth);
+  check.number(value, 'minY', prefix, 0, playfield.canvasHeight);
+  check.number(value, 'maxY', prefix, 0, playfield.canvasHeight);
+
+  const axes = [
+    ['minX', 'maxX', 'width'],
+    ['minY', 'maxY', 'height'],
+  ] as const;
+  for (const [min, max, size] of axes) {
+    const [low, high, length] = [value[min], value[max], obstacle[size]];
+    if (typeof low === 'number' && typeof high === 'number' && typeof length === 'number' && high - low < length) {
+      check.fail(`${prefix}${max}`, `must be at least the obstacle's ${size} (${length}) past ${min}`);
+    }
+  }
+};
+
+const checkObstacle = (check: Checker, value: unknown, path: string, playfield: Playfield) => {
+  if (!isObject(value)) {
+    check.fail(path, `must be an object, got ${describe(value)}`);
+    return;
+  }
+
+  const prefix = `${path}.`;
+  if (!OBSTACLE_TYPES.includes(value.type as ObstacleType)) {
+    check.fail(`${prefix}type`, `must be one of ${OBSTACLE_TYPES.join(', ')}, got ${describe(value.type)}`);
+  }
+  check.number(value, 'x', prefix, 0, playfield.canvasWidth);
+  check.number(value, 'y', prefix, 0, playfield.canvasHeight);
+  check.number(value, 'width', prefix, 4, playfield.canvasWidth);
+  check.number(value, 'height', prefix, 4, playfield.canvasHeight);
+  check.optionalNumber(value, 'vx', prefix, -10, 10);
+  check.optionalNumber(value, 'vy', prefix, -10, 10);
+  check.optionalNumber(value, 'health', prefix, 1, 10, true);
+  check.optionalNumber(value, 'maxHealth', prefix, 1, 10, true);
+  check.optionalNumber(value, 'points', prefix, 0, 10_000, true);
+  check.optionalNumber(value, 'force', prefix, -2, 2);
+  check.text(value, 'link', prefix, 40, value.type === 'portal');
+  if (value.dropsPowerUp !== undefined && typeof value.dropsPowerUp !== 'boolean') {
+    check.fail(`${prefix}dropsPowerUp`, `must be true or false, got ${describe(value.dropsPowerUp)}`);
+  }
+
+  if (typeof value.health === 'number' && typeof value.maxHealth === 'number' && value.health > value.maxHealth) {
+    check.fail(`${prefix}health`, `must not exceed maxHealth (${value.maxHealth})`);
+  }
+  checkPatrol(check, value, `${prefix}patrol`, playfield);
+};
+
+// A ball entering a portal comes out of the other one with the same link,
+// so every link has to be shared by exactly two portals
+const checkPortalPairs = (check: Checker, obstacles: unknown[], path: string) => {
+  const links = new Map<string, number[]>();
+  obstacles.forEach((obstacle, index) => {
+    if (!isObject(obstacle) || obstacle.type !== 'portal' || typeof obstacle.link !== 'string') return;
+    links.set(obstacle.link, [...(links.get(obstacle.link) ?? []), index]);
+  });
+
+  for (const [link, indexes] of links) {
+    if (indexes.length !== 2) {
+      check.fail(`${path}[${indexes[0]}].link`, `must be shared by exactly 2 portals, "${link}" has ${indexes.length}`);
+    }
+  }
+};
+
+// Rows of equal length, made only of cell characters, ending well above the platform
+const checkBrickGrid = (check: Checker, value: unknown, path: string, playfield: Playfield) => {
+  if (value === undefined) return;
+  if (!isObject(value)) {
+    check.fail(path, `must be an object, got ${describe(value)}`);
+    return;
+  }
+
+  const prefix = `${path}.`;
+  check.optionalNumber(value, 'top', prefix, 0, playfield.canvasHeight);
+  check.optionalNumber(value, 'cellHeight', prefix, 8, 60);
+  check.optionalNumber(value, 'gap', prefix, 0, 4);
+
+  const { rows } = value;
+  if (!Array.isArray(rows) || rows.length === 0 || rows.length > MAX_BRICK_ROWS) {
+    check.fail(`${prefix}rows`, `must be an array of 1 to ${MAX_BRICK_ROWS} strings`);
+    return;
+  }
+
+  const columns = typeof rows[0] === 'string' ? rows[0].length : 0;
+  rows.forEach((row, index) => {
+    if (typeof row !== 'string' || !BRICK_CELL_PATTERN.test(row)) {
+      check.fail(`${prefix}rows[${index}]`, 'must only contain ".", "#", "*" and the digits 1-9');
+    } else if (row.length !== columns || row.length > MAX_BRICK_COLUMNS) {
+      check.fail(`${prefix}rows[${index}]`, `must be as long as the first row, and at most ${MAX_BRICK_COLUMNS} cells`);
+    }
+  });
+
+  const { top, cellHeight } = value;
+  const bottom = getBrickGridBottom({
+    rows: rows as string[],
+    ...(typeof top === 'number' && { top }),
+    ...(typeof cellHeight === 'number' && { cellHeight }),
+  });
+  if (bottom > playfield.canvasHeight * 0.6) {
+    check.fail(`${prefix}rows`, `must end in the top 60% of the playfield, but reach y ${bottom}`);
+  }
+};
+
+// A level won by clearing its bricks needs at least one to break
+const checkBricksToClear = (check: Checker, level: Fields, path: string) => {
+  if (!isObject(level.winCondition) || level.winCondition.type !== 'bricks') return;
+
+  const { obstacles, bricks } = level;
+  const isBrick = (obstacle: unknown) => isObject(obstacle) && obstacle.type === 'breakable-brick';
+  const isBrickRow = (row: unknown) => typeof row === 'string' && /[*1-9]/.test(row);
+  const hasBrick = Array.isArray(obstacles) && obstacles.some(isBrick);
+  const hasGridBrick = isObject(bricks) && Array.isArray(bricks.rows) && bricks.rows.some(isBrickRow);
+  if (!hasBrick && !hasGridBrick) {
+    check.fail(`${path}winCondition`, 'needs at least one breakable brick in obstacles or bricks');
+  }
+};
+
+const checkPowerUps = (check: Checker, value: unknown, path: string) => {
+  if (value === undefined) return;
+  if (!isObject(value)) {
+    check.fail(path, `must be an object, got ${describe(value)}`);
+    return;
+  }
+
+  const prefix = `${path}.`;
+  check.number(value, 'minInterval', prefix, 1, 300);
+  check.number(value, 'maxInterval', prefix, 1, 300);
+  if (
+    typeof value.minInterval === 'number' &&
+    typeof value.maxInterval === 'number' &&
+    value.minInterval > value.maxInterval
+  ) {
+    check.fail(`${prefix}maxInterval`, 'must not be less than minInterval');
+  }
+
+  const { weights } = value;
+  if (!isObject(weights)) {
+    check.fail(`${prefix}weights`, weights === undefined ? 'is required' : `must be an object, got ${describe(weights)}`);
+    return;
+  }
+
+  let total = 0;
+  for (const [type, weight] of Object.entries(weights)) {
+    if (!POWER_UP_TYPES.includes(type as PowerUpType)) {
+      check.fail(`${prefix}weights.${type}`, `is not a power-up type; use one of ${POWER_UP_TYPES.join(', ')}`);
+      continue;
+    }
+    check.number(weights, type, `${prefix}weights.`, 0, 100);
+    if (typeof weight === 'number' && weight > 0) total += weight;
+  }
+  if (total === 0) {
+    check.fail(`${prefix}weights`, 'must give at least one power-up a weight above 0');
+  }
+};
+
+const checkBackground = (check: Checker, value: unknown, path: string) => {
+  if (value === undefined) return;
+  if (!isObject(value)) {
+    check.fail(path, `must be an object, got ${describe(value)}`);
+    return;
+  }
+
+  for (const key of ['top', 'bottom']) {
+    if (typeof value[key] !== 'string' || !COLOR_PATTERN.test(value[key] as string)) {
+      check.fail(`${path}.${key}`, `must be a colour like "#2c3e50", got ${describe(value[key])}`);
+    }
+  }
+};
+
+const checkLevel = (check: Checker, value: unknown, path: string, playfield: Playfield) => {
+  if (!isObject(value)) {
+    check.fail(path, `must be an object, got ${describe(value)}`);
+    return;
+  }
+
+  const prefix = `${path}.`;
+  check.text(value, 'name', prefix, 60, false);
+  check.number(value, 'ballSpeed', prefix, 1, 40);
+  check.number(value, 'platformWidth', prefix, 20, playfield.canvasWidth / 2);
+  check.number(value, 'platformSpeed', prefix, 1, 40);
+  check.number(value, 'gravity', prefix, 0, 30);
+  check.number(value, 'bounceCoefficient', prefix, 0.1, 1);
+  check.number(value, 'targetBounces', prefix, 1, 1000, true);
+  check.number(value, 'timeLimit', prefix, 5, 600);
+  checkWinCondition(check, value.winCondition, `${prefix}winCondition`);
+  checkPowerUps(check, value.powerUps, `${prefix}powerUps`);
+  checkBackground(check, value.background, `${prefix}background`);
+  checkBrickGrid(check, value.bricks, `${prefix}bricks`, playfield);
+  checkBricksToClear(check, value, prefix);
+
+  const { obstacles } = value;
+  if (obstacles === undefined) return;
+  if (!Array.isArray(obstacles)) {
+    check.fail(`${prefix}obstacles`, `must be an array, got ${describe(obstacles)}`);
+  } else if (obstacles.length > MAX_LEVEL_OBSTACLES) {
+    check.fail(`${prefix}obstacles`, `must have at most ${MAX_LEVEL_OBSTACLES} entries, got ${obstacles.length}`);
+  } else {
+    obstacles.forEach((obstacle, index) => checkObstacle(check, obstacle, `${prefix}obstacles[${index}]`, playfield));
+    checkPortalPairs(check, obstacles, `${prefix}obstacles`);
+  }
+};
+
+// Returns every problem found in the pack; an empty list means it is valid
+export const validateLevelPack = (data: unknown, playfield: Playfield): LevelPackError[] => {
+  const errors: LevelPackError[] = [];
+  const check = createChecker(errors);
+
+  if (!isObject(data)) {
+    check.fail('(root)', `must be an object, got ${describe(data)}`);
+    return errors;
+  }
+
+  if (data.version !== LEVEL_PACK_VERSION) {
+    check.fail('version', `must be ${LEVEL_PACK_VERSION}, got ${describe(data.version)}`);
+    return errors; // Other versions may lay their fields out differently
+  }
+
+  if (typeof data.id !== 'string' || !PACK_ID_PATTERN.test(data.id)) {
+    check.fail('id', 'must be 1-40 lowercase letters, digits or dashes');
+  }
+  check.text(data, 'name', '', 60, true);
+  check.text(data, 'author', '', 60, false);
+
+  const { levels } = data;
+  if (!Array.isArray(levels) || levels.length === 0) {
+    check.fail('levels', 'must be a non-empty array');
+  } else if (levels.length > MAX_PACK_LEVELS) {
+    check.fail('levels', `must have at most ${MAX_PACK_LEVELS} entries, got ${levels.length}`);
+  } else {
+    levels.forEach((level, index) => checkLevel(check, level, `levels[${index}]`, playfield));
+  }
+
+  return errors;
+};
+
+export const formatLevelPackError = ({ path, message }: LevelPackError): string => `${path} ${message}`;
+
+// Copies only the known fields, so anything else in the JSON is dropped
+const toObstacle = (obstacle: ObstacleLayout, id: string): Obstacle => {
+  const { type, x, y, width, height, vx, vy, patrol, health, maxHealth, points, link, force, dropsPowerUp } = obstacle;
+  const isBrick = type === 'breakable-brick';
+
+  return {
+    id,
+    type,
+    x,
+    y,
+    width,
+    height,
+    ...(vx !== undefined && { vx }),
+    ...(vy !== undefined && { vy }),
+    ...(patrol && { patrol: { minX: patrol.minX, maxX: patrol.maxX, minY: patrol.minY, maxY: patrol.maxY } }),
+    ...(isBrick && { health: health ?? maxHealth ?? 1, maxHealth: maxHealth ?? health ?? 1 }),
+    ...(isBrick && dropsPowerUp === true && { dropsPowerUp }),
+    ...(points !== undefined && { points }),
+    ...(type === 'portal' && link !== undefined && { link }),
+    ...(force !== undefined && { force }),
+  };
+};
+
+// Levels are numbered by their position in the pack
+const toLevelConfig = (level: LevelPackLevel, index: number, playfield: Playfield): LevelConfig => {
+  const number = index + 1;
+  const { name, winCondition, powerUps, background } = level;
+  const obstacles = level.bricks
+    ? [...(level.obstacles ?? []), ...layoutBrickGrid(level.bricks, playfield)]
+    : level.obstacles;
+
+  return {
+    level: number,
+    ballSpeed: level.ballSpeed,
+    platformWidth: level.platformWidth,
+    platformSpeed: level.platformSpeed,
+    gravity: level.gravity,
+    bounceCoefficient: level.bounceCoefficient,
+    targetBounces: level.targetBounces,
+    timeLimit: level.timeLimit,
+    ...(name !== undefined && { name }),
+    ...(winCondition && {
+      winCondition: winCondition.type === 'score' ? { type: 'score', points: winCondition.points } : { type: winCondition.type },
+    }),
+    ...(obstacles && {
+      obstacles: obstacles.map((obstacle, obstacleIndex) =>
+        toObstacle(obstacle, `level${number}_${obstacle.type}_${obstacleIndex}`)
+      ),
+    }),
+    ...(powerUps && {
+      powerUpSpawns: {
+        minInterval: powerUps.minInterval,
+        maxInterval: powerUps.maxInterval,
+        weights: Object.fromEntries(POWER_UP_TYPES.flatMap(type => {
+          const weight = powerUps.weights[type];
+          return weight ? [[type, weight]] : [];
+        })),
+      },
+    }),
+    ...(background && { background: { top: background.top, bottom: background.bottom } }),
+  };
+};
+
+// Validates raw pack JSON (already parsed) and turns it into level configs
+export const loadLevelPack = (data: unknown, playfield: Playfield): LevelPackLoadResult => {
+  const errors = validateLevelPack(data, playfield);
+  if (errors.length > 0) return { ok: false, errors };
+
+  const pack = data as LevelPack;
+  return {
+    ok: true,
+    pack: {
+      id: pack.id,
+      name: pack.name,
+      ...(pack.author !== undefined && { author: pack.author }),
+      levels: pack.levels.map((level, index) => toLevelConfig(level, index, playfield)),
+    },
+  };
+};
+
+export const parseLevelPack = (json: string, playfield: Playfield): LevelPackLoadResult => {
+  try {
+    return loadLevelPack(JSON.parse(json), playfield);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'could not be parsed';
+    return { ok: false, errors: [{ path: '(root)', message: `is not valid JSON: ${message}` }] };
+  }
+};
+
+export const createPackGameConfig = (config: GameConfig, pack: LoadedLevelPack): GameConfig => ({
+  ...config,
+  levels: pack.levels,
+});
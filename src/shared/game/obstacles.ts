@@ -0,0 +1,230 @@
+// Obstacles are part of the world step: moving ones patrol, breakable bricks
+// take damage from the balls that hit them, bumpers kick them away,
+// speed-boost zones and portals act on a ball as it enters, and wind zones
+// and gravity wells push it for as long as it is in range.
+
+import type { BallPhysics, GameConfig, Obstacle, ObstaclePatrol, ObstacleType } from './types';
+import type { LevelPlayfield } from './levelGenerator';
+
+export const SPEED_BOOST_MULTIPLIER = 1.5;
+export const DEFAULT_BRICK_POINTS = 50;
+export const DEFAULT_BUMPER_POINTS = 25;
+export const BUMPER_IMPULSE = 4; // speed a bumper adds along the contact normal
+export const DEFAULT_WIND_FORCE = 0.15;
+export const DEFAULT_GRAVITY_WELL_FORCE = 0.4; // pull at the centre, fading to nothing at the edge
+
+// Areas the ball passes through; every other obstacle is solid
+const PASS_THROUGH_TYPES: ObstacleType[] = ['speed-boost', 'portal', 'wind-zone', 'gravity-well'];
+
+// Areas that act on a ball once, as it enters
+const ENTRY_ZONE_TYPES: ObstacleType[] = ['speed-boost', 'portal'];
+
+export const isSolidObstacle = (obstacle: Obstacle): boolean => !PASS_THROUGH_TYPES.includes(obstacle.type);
+
+// Bumpers and gravity wells are circles as wide as the smaller side of their box
+export const isRoundObstacle = (obstacle: Pick<Obstacle, 'type'>): boolean =>
+  obstacle.type === 'bumper' || obstacle.type === 'gravity-well';
+
+export const getObstacleRadius = (obstacle: Pick<Obstacle, 'width' | 'height'>): number =>
+  Math.min(obstacle.width, obstacle.height) / 2;
+
+export const getPatrolBounds = (obstacle: Obstacle, config: GameConfig): ObstaclePatrol =>
+  obstacle.patrol ?? { minX: 0, maxX: config.canvasWidth, minY: 0, maxY: config.canvasHeight };
+
+// One axis of a patrol: an edge that reaches its bound stops there and turns around
+const patrolAxis = (position: number, halfSize: number, velocity: number, min: number, max: number) => {
+  if (velocity < 0 && position - halfSize <= min) return { position: min + halfSize, velocity: -velocity };
+  if (velocity > 0 && position + halfSize >= max) return { position: max - halfSize, velocity: -velocity };
+  return { position, velocity };
+};
+
+// Moves an obstacle through one step of its velocity within its patrol
+export const moveObstacle = (obstacle: Obstacle, config: GameConfig, deltaTime: number): Obstacle => {
+  const { vx = 0, vy = 0 } = obstacle;
+  if (vx === 0 && vy === 0) return obstacle;
+
+  const bounds = getPatrolBounds(obstacle, config);
+  const x = patrolAxis(obstacle.x + vx * deltaTime, obstacle.width / 2, vx, bounds.minX, bounds.maxX);
+  const y = patrolAxis(obstacle.y + vy * deltaTime, obstacle.height / 2, vy, bounds.minY, bounds.maxY);
+
+  return {
+    ...obstacle,
+    x: x.position,
+    y: y.position,
+    ...(vx !== 0 && { vx: x.velocity }),
+    ...(vy !== 0 && { vy: y.velocity }),
+  };
+};
+
+// A brick loses one point of health per hit; null once it breaks
+export const damageObstacle = (obstacle: Obstacle): Obstacle | null => {
+  const health = (obstacle.health ?? 1) - 1;
+  return health > 0 ? { ...obstacle, health } : null;
+};
+
+export const getBrickPoints = (obstacle: Obstacle): number => obstacle.points ?? DEFAULT_BRICK_POINTS;
+
+export const getBumperPoints = (obstacle: Obstacle): number => obstacle.points ?? DEFAULT_BUMPER_POINTS;
+
+export const overlapsObstacle = (ball: BallPhysics, obstacle: Obstacle): boolean => {
+  if (isRoundObstacle(obstacle)) {
+    const reach = ball.radius + getObstacleRadius(obstacle);
+    const dx = ball.position.x - obstacle.x;
+    const dy = ball.position.y - obstacle.y;
+    return dx * dx + dy * dy < reach * reach;
+  }
+
+  const halfWidth = obstacle.width / 2;
+  const halfHeight = obstacle.height / 2;
+  const dx = ball.position.x - Math.max(obstacle.x - halfWidth, Math.min(ball.position.x, obstacle.x + halfWidth));
+  const dy = ball.position.y - Math.max(obstacle.y - halfHeight, Math.min(ball.position.y, obstacle.y + halfHeight));
+  return dx * dx + dy * dy < ball.radius * ball.radius;
+};
+
+export const boostBall = (ball: BallPhysics): BallPhysics => ({
+  ...ball,
+  velocity: { vx: ball.velocity.vx * SPEED_BOOST_MULTIPLIER, vy: ball.velocity.vy * SPEED_BOOST_MULTIPLIER },
+});
+
+// A wind zone pushes sideways on a ball inside it. A gravity well pulls a
+// ball towards its centre from anywhere within its radius, harder the closer
+// the ball gets. Applied once per frame, like the magnetic paddle.
+export const applyObstacleForces = (ball: BallPhysics, obstacles: Obstacle[]): BallPhysics => {
+  let { vx, vy } = ball.velocity;
+
+  for (const obstacle of obstacles) {
+    if (obstacle.type === 'wind-zone' && overlapsObstacle(ball, obstacle)) {
+      vx += obstacle.force ?? DEFAULT_WIND_FORCE;
+    } else if (obstacle.type === 'gravity-well') {
+      const dx = obstacle.x - ball.position.x;
+      const dy = obstacle.y - ball.position.y;
+      const distance = Math.sqrt(dx * dx + dy * dy);
+      const range = getObstacleRadius(obstacle);
+      if (distance === 0 || distance >= range) continue;
+
+      const pull = (obstacle.force ?? DEFAULT_GRAVITY_WELL_FORCE) * (1 - distance / range);
+      vx += (dx / distance) * pull;
+      vy += (dy / distance) * pull;
+    }
+  }
+
+  return vx === ball.velocity.vx && vy === ball.velocity.vy ? ball : { ...ball, velocity: { vx, vy } };
+};
+
+// The other portal with the same link, if the layout has one
+export const findPortalExit = (portal: Obstacle, obstacles: Obstacle[]): Obstacle | undefined =>
+  obstacles.find(
+    obstacle => obstacle.type === 'portal' && obstacle.link === portal.link && obstacle.id !== portal.id
+  );
+
+export type ZoneEntry = {
+  zone: Obstacle;
+  exit?: Obstacle; // the portal a ball that entered a portal came out of
+};
+
+export type ZonePass = {
+  ballPhysics: BallPhysics;
+  inside: string[]; // ids of the entry zones the ball is inside after the step
+  entries: ZoneEntry[];
+};
+
+// Applies the entry zones a ball reached during a step: a speed boost speeds it
+// up and a portal moves it to the centre of its partner, keeping its velocity.
+// Zones the ball was already inside do nothing, so a ball is only boosted once
+// per pass and does not bounce straight back through the portal it came out of.
+// A ball goes through at most one portal per step.
+export const passThroughZones = (
+  ball: BallPhysics,
+  obstacles: Obstacle[],
+  crossed: string[], // zones the step moved the ball through
+  wasInside: string[]
+): ZonePass => {
+  // A zone the ball only touched at the end of the step counts as entered,
+  // so it is not entered again on the next step
+  const zones = obstacles.filter(obstacle => ENTRY_ZONE_TYPES.includes(obstacle.type));
+  const reached = zones.filter(zone => crossed.includes(zone.id) || overlapsObstacle(ball, zone));
+  const inside = new Set(reached.map(zone => zone.id));
+  const entries: ZoneEntry[] = [];
+  let ballPhysics = ball;
+  let teleported = false;
+
+  for (const zone of reached) {
+    if (wasInside.includes(zone.id)) continue;
+
+    if (zone.type === 'speed-boost') {
+      ballPhysics = boostBall(ballPhysics);
+      entries.push({ zone });
+      continue;
+    }
+
+    const exit = !teleported && findPortalExit(zone, obstacles);
+    if (!exit) continue;
+    ballPhysics = { ...ballPhysics, position: { x: exit.x, y: exit.y } };
+    inside.add(exit.id);
+    teleported = true;
+    entries.push({ zone, exit });
+  }
+
+  return { ballPhysics, inside: [...inside], entries };
+};
+
+// The built-in levels' layouts: static blocks and a bumper from level 2, a
+// moving barrier and a wind zone from level 3, breakable bricks and a gravity
+// well from level 4 and a speed-boost zone and a pair of portals from level 5
+export const spawnLevelObstacles = (level: number, playfield: LevelPlayfield): Obstacle[] => {
+  const { canvasWidth, canvasHeight } = playfield;
+  const obstacles: Omit<Obstacle, 'id'>[] = [];
+
+  if (level >= 2) {
+    for (let i = 0; i < Math.min(level - 1, 3); i++) {
+      const x = (canvasWidth / 4) * (i + 1);
+      obstacles.push({ type: 'static-block', x, y: canvasHeight / 2, width: 60, height: 20 });
+    }
+    obstacles.push({ type: 'bumper', x: canvasWidth / 2, y: canvasHeight * 0.2, width: 40, height: 40, points: 25 });
+  }
+
+  if (level >= 3) {
+    const y = canvasHeight / 3;
+    obstacles.push({ type: 'moving-barrier', x: canvasWidth / 2, y, width: 80, height: 15, vx: 2, vy: 0 });
+    obstacles.push({
+      type: 'wind-zone',
+      x: canvasWidth * 0.25,
+      y: canvasHeight * 0.6,
+      width: 160,
+      height: 60,
+      force: DEFAULT_WIND_FORCE,
+    });
+  }
+
+  if (level >= 4) {
+    for (let i = 0; i < 2; i++) {
+      obstacles.push({
+        type: 'breakable-brick',
+        x: canvasWidth * 0.2 + i * canvasWidth * 0.6,
+        y: canvasHeight * 0.3,
+        width: 40,
+        height: 20,
+        health: 2,
+        maxHealth: 2,
+        points: 50,
+      });
+    }
+    obstacles.push({
+      type: 'gravity-well',
+      x: canvasWidth * 0.75,
+      y: canvasHeight * 0.65,
+      width: 120,
+      height: 120,
+      force: DEFAULT_GRAVITY_WELL_FORCE,
+    });
+  }
+
+  if (level >= 5) {
+    obstacles.push({ type: 'speed-boost', x: canvasWidth / 2, y: canvasHeight * 0.7, width: 100, height: 30 });
+    for (const x of [canvasWidth * 0.08, canvasWidth * 0.92]) {
+      obstacles.push({ type: 'portal', x, y: canvasHeight * 0.42, width: 40, height: 60, link: 'sides' });
+    }
+  }
+
+  return obstacles.map((obstacle, index) => ({ ...obstacle, id: `level${level}_${obstacle.type}_${index}` }));
+};
@@ -0,0 +1,350 @@
+import type {
+  BallPhysics,
+  BounceSurface,
+  CollisionState,
+  GameConfig,
+  LevelConfig,
+  Platform,
+  ScoreData,
+} from './types';
+import { spawnLevelObstacles } from './obstacles';
+
+export const createLevelConfigs = (): LevelConfig[] => [
+  {
+    level: 1,
+    ballSpeed: 8,
+    platformWidth: 100,
+    platformSpeed: 8,
+    gravity: 9.8,
+    bounceCoefficient: 0.75,
+    targetBounces: 10,
+    timeLimit: 60,
+  },
+  {
+    level: 2,
+    ballSpeed: 10,
+    platformWidth: 90,
+    platformSpeed: 9,
+    gravity: 10,
+    bounceCoefficient: 0.78,
+    targetBounces: 12,
+    timeLimit: 55,
+  },
+  {
+    level: 3,
+    ballSpeed: 12,
+    platformWidth: 80,
+    platformSpeed: 10,
+    gravity: 10.2,
+    bounceCoefficient: 0.8,
+    targetBounces: 15,
+    timeLimit: 50,
+  },
+  {
+    level: 4,
+    ballSpeed: 14,
+    platformWidth: 70,
+    platformSpeed: 11,
+    gravity: 10.5,
+    bounceCoefficient: 0.82,
+    targetBounces: 18,
+    timeLimit: 45,
+  },
+  {
+    level: 5,
+    ballSpeed: 16,
+    platformWidth: 60,
+    platformSpeed: 12,
+    gravity: 10.8,
+    bounceCoefficient: 0.85,
+    targetBounces: 20,
+    timeLimit: 40,
+  },
+];
+
+// The built-in levels are laid out with spawnLevelObstacles
+export const createDefaultGameConfig = (): GameConfig => {
+  const config: GameConfig = {
+    canvasWidth: 800,
+    canvasHeight: 600,
+    ballRadius: 20,
+    platformHeight: 15,
+    platformY: 50, // Distance from bottom
+    maxVelocity: 20, // Increased for higher levels
+    initialBallY: 0, // Will be set to bottom center
+    levels: createLevelConfigs(),
+  };
+
+  return {
+    ...config,
+    levels: config.levels.map(level => ({ ...level, obstacles: spawnLevelObstacles(level.level, config) })),
+  };
+};
+
+export const INITIAL_BALL_ID = 'ball_0';
+
+export const createInitialBallPhysics = (config: GameConfig, levelConfig: LevelConfig): BallPhysics => {
+  const initialY = config.canvasHeight - config.platformY - config.platformHeight - config.ballRadius - 10;
+  return {
+    id: INITIAL_BALL_ID,
+    position: {
+      x: config.canvasWidth / 2,
+      y: initialY,
+    },
+    velocity: {
+      vx: 0,
+      vy: 0,
+    },
+    radius: config.ballRadius,
+    gravity: levelConfig.gravity,
+    bounceCoefficient: levelConfig.bounceCoefficient,
+    maxVelocity: config.maxVelocity,
+  };
+};
+
+export const createInitialPlatform = (config: GameConfig, levelConfig: LevelConfig): Platform => ({
+  x: config.canvasWidth / 2,
+  y: config.canvasHeight - config.platformY,
+  width: levelConfig.platformWidth,
+  height: config.platformHeight,
+  speed: levelConfig.platformSpeed,
+});
+
+export const createInitialCollisionState = (): CollisionState => ({
+  wall: false,
+  ceiling: false,
+  platform: false,
+  floor: false,
+  hitPosition: 0,
+});
+
+export const createInitialScoreData = (): ScoreData => ({
+  score: 0,
+  lives: 3,
+  level: 1,
+  highScore: 0,
+  bounceCount: 0,
+  timeElapsed: 0,
+  multiplier: 1,
+  consecutiveBounces: 0,
+  comboCount: 0,
+});
+
+export const updateBallPhysics = (ball: BallPhysics, deltaTime: number): BallPhysics => {
+  const { gravity, maxVelocity } = ball;
+  const position = { ...ball.position };
+  const velocity = { ...ball.velocity };
+
+  // Apply gravity
+  velocity.vy += gravity * deltaTime * 0.1; // Scale gravity effect
+
+  // Update position
+  position.x += velocity.vx * deltaTime;
+  position.y += velocity.vy * deltaTime;
+
+  // Clamp velocity to maxVelocity
+  velocity.vx = clamp(velocity.vx, -maxVelocity, maxVelocity);
+  velocity.vy = clamp(velocity.vy, -maxVelocity, maxVelocity);
+
+  return { ...ball, position, velocity };
+};
+
+// Applies gravity and the speed cap for one step without moving the ball;
+// the move itself is swept against the colliders in collision.ts
+export const integrateVelocity = (ball: BallPhysics, deltaTime: number): BallPhysics => {
+  const { gravity, maxVelocity } = ball;
+  const vy = ball.velocity.vy + gravity * deltaTime * 0.1; // Scale gravity effect
+
+  return {
+    ...ball,
+    velocity: {
+      vx: clamp(ball.velocity.vx, -maxVelocity, maxVelocity),
+      vy: clamp(vy, -maxVelocity, maxVelocity),
+    },
+  };
+};
+
+export const launchBall = (ball: BallPhysics, angle: number, power: number, config: GameConfig): BallPhysics => {
+  const launchSpeed = power * (config.maxVelocity / 100); // Scale power to maxVelocity
+  const angleRad = (angle * Math.PI) / 180;
+
+  return {
+    ...ball,
+    velocity: {
+      vx: launchSpeed * Math.cos(angleRad),
+      vy: -launchSpeed * Math.sin(angleRad), // Negative because Y-axis is inverted
+    },
+  };
+};
+
+export const checkWallCollision = (ball: BallPhysics, config: GameConfig) => {
+  const newPosition = { ...ball.position };
+  const newVelocity = { ...ball.velocity };
+  let hit = false;
+
+  if (ball.position.x - ball.radius < 0) {
+    newPosition.x = ball.radius;
+    newVelocity.vx *= -ball.bounceCoefficient;
+    hit = true;
+  } else if (ball.position.x + ball.radius > config.canvasWidth) {
+    newPosition.x = config.canvasWidth - ball.radius;
+    newVelocity.vx *= -ball.bounceCoefficient;
+    hit = true;
+  }
+  return { hit, newPosition, newVelocity };
+};
+
+export const checkCeilingCollision = (ball: BallPhysics) => {
+  const newPosition = { ...ball.position };
+  const newVelocity = { ...ball.velocity };
+  let hit = false;
+
+  if (ball.position.y - ball.radius < 0) {
+    newPosition.y = ball.radius;
+    newVelocity.vy *= -ball.bounceCoefficient;
+    hit = true;
+  }
+  return { hit, newPosition, newVelocity };
+};
+
+export const checkPlatformCollision = (ball: BallPhysics, platform: Platform) => {
+  let hit = false;
+  const newPosition = { ...ball.position };
+  const newVelocity = { ...ball.velocity };
+  let hitPosition = 0; // -1 (left edge) to 1 (right edge)
+
+  // Check if ball is within platform's X range
+  if (
+    ball.position.x + ball.radius > platform.x - platform.width / 2 &&
+    ball.position.x - ball.radius < platform.x + platform.width / 2
+  ) {
+    // Check if ball is hitting the top of the platform
+    if (
+      ball.position.y + ball.radius > platform.y - platform.height / 2 &&
+      ball.position.y - ball.radius < platform.y + platform.height / 2 &&
+      ball.velocity.vy > 0 // Only bounce if moving downwards
+    ) {
+      // Adjust ball position to be on top of the platform
+      newPosition.y = platform.y - platform.height / 2 - ball.radius;
+      newVelocity.vy *= -ball.bounceCoefficient; // Reverse and reduce vertical velocity
+
+      // Adjust horizontal velocity based on hit position on platform
+      const hitPoint = ball.position.x - platform.x; // Distance from platform center
+      hitPosition = hitPoint / (platform.width / 2); // Normalize to -1 to 1
+      newVelocity.vx += hitPosition * 2; // Angle adjustment
+
+      hit = true;
+    }
+  }
+  return { hit, newPosition, newVelocity, hitPosition };
+};
+
+export const checkFloorCollision = (ball: BallPhysics, config: GameConfig) => {
+  return ball.position.y + ball.radius > config.canvasHeight;
+};
+
+export const updatePlatformPosition = (platform: Platform, targetX: number, config: GameConfig): Platform => {
+  const halfWidth = platform.width / 2;
+  const minX = halfWidth;
+  const maxX = config.canvasWidth - halfWidth;
+
+  let newX = targetX;
+
+  // Clamp platform to screen boundaries with a buffer
+  newX = clamp(newX, minX + 10, maxX - 10); // 10px buffer
+
+  return { ...platform, x: newX };
+};
+
+export const clamp = (value: number, min: number, max: number): number => {
+  return Math.max(min, Math.min(value, max));
+};
+
+export const calculateBounceScore = (
+  surface: BounceSurface,
+  hitPosition: number = 0,
+  multiplier: number = 1
+): number => {
+  const baseScore = 10;
+  let bonus = 0;
+
+  if (surface === 'platform') {
+    const centerBonus = Math.max(0, 1 - Math.abs(hitPosition)) * 5; // Closer to center, higher bonus
+    bonus += centerBonus;
+  }
+  return Math.floor((baseScore + bonus) * multiplier);
+};
+
+export const calculateComboMultiplier = (consecutiveBounces: number): number => {
+  if (consecutiveBounces <= 1) return 1;
+  if (consecutiveBounces <= 3) return 1.5;
+  if (consecutiveBounces <= 5) return 2;
+  if (consecutiveBounces <= 10) return 2.5;
+  return 3;
+};
+
+export const calculateTimeBonus = (
+  timeElapsed: number,
+  timeLimit: number
+): number => {
+  const remainingTime = Math.max(0, timeLimit - timeElapsed);
+  return Math.floor(remainingTime * 2); // 2 points per second remaining
+};
+
+// Brick levels are completed by clearing them rather than by their bounce target
+export const calculateLevelScore = (
+  bounceCount: number,
+  targetBounces: number,
+  timeElapsed: number,
+  timeLimit: number,
+  completed = bounceCount >= targetBounces
+): number => {
+  const completionBonus = completed ? 100 : 0;
+  const timeBonus = calculateTimeBonus(timeElapsed, timeLimit);
+  return completionBonus + timeBonus;
+};
+
+export const updateScoreData = (
+  currentScore: ScoreData,
+  bounceScore: number,
+  surface: BounceSurface,
+  _hitPosition: number = 0
+): ScoreData => {
+  const newConsecutiveBounces = surface === 'platform' ? currentScore.consecutiveBounces + 1 : 0;
+  const newMultiplier = calculateComboMultiplier(newConsecutiveBounces);
+  const newComboCount = newConsecutiveBounces > currentScore.consecutiveBounces ? currentScore.comboCount + 1 : currentScore.comboCount;
+
+  return {
+    ...currentScore,
+    score: currentScore.score + bounceScore,
+    bounceCount: currentScore.bounceCount + 1,
+    consecutiveBounces: newConsecutiveBounces,
+    multiplier: newMultiplier,
+    comboCount: newComboCount,
+  };
+};
+
+export const resetCombo = (scoreData: ScoreData): ScoreData => ({
+  ...scoreData,
+  consecutiveBounces: 0,
+  multiplier: 1,
+});
+
+export const loseLife = (scoreData: ScoreData): ScoreData => ({
+  ...scoreData,
+  lives: Math.max(0, scoreData.lives - 1),
+});
+
+export const nextLevel = (scoreData: ScoreData): ScoreData => ({
+  ...scoreData,
+  level: scoreData.level + 1,
+  bounceCount: 0,
+  timeElapsed: 0,
+  consecutiveBounces: 0,
+  multiplier: 1,
+});
+
+export const updateHighScore = (scoreData: ScoreData): ScoreData => ({
+  ...scoreData,
+  highScore: Math.max(scoreData.highScore, scoreData.score),
+});
@@ -0,0 +1,207 @@
+import { describe, expect, it } from 'vitest';
+import type { PhysicsWorld } from './world';
+import type { PowerUpType } from './types';
+import { createDefaultGameConfig } from './physics';
+import { createPhysicsWorld, launchWorldBall, stepWorld } from './world';
+import {
+  BENEFICIAL_POWER_UP_TYPES,
+  LARGER_PADDLE_SCALE,
+  MAGNETIC_RANGE,
+  POWER_UP_DEFINITIONS,
+  SCORE_MULTIPLIER,
+  SHIELD_BOUNCES,
+  SHRUNK_PADDLE_SCALE,
+  SLOW_MO_SCALE,
+  activatePowerUp,
+  applyPowerUp,
+  endPowerUp,
+  getPowerUpModifiers,
+  tickPowerUps,
+} from './powerUps';
+
+const createPlayingWorld = (): PhysicsWorld =>
+  launchWorldBall(createPhysicsWorld(createDefaultGameConfig(), 1), { angle: 90, power: 50 });
+
+// Starts `kind` on a ball in play without it having to be collected
+const withPowerUp = (world: PhysicsWorld, kind: PowerUpType): PhysicsWorld =>
+  applyPowerUp(world, kind, world.ballPhysics, world.tick);
+
+describe('activatePowerUp', () => {
+  it('starts an effect that is not running', () => {
+    expect(activatePowerUp([], 'slow-mo', 100)).toEqual([
+      { kind: 'slow-mo', expiresAt: 100 + POWER_UP_DEFINITIONS['slow-mo'].durationTicks },
+    ]);
+  });
+
+  it('restarts the timer of a running effect that does not stack', () => {
+    const { durationTicks } = POWER_UP_DEFINITIONS['slow-mo'];
+    const active = activatePowerUp(activatePowerUp([], 'slow-mo', 0), 'slow-mo', 100);
+
+    expect(active).toEqual([{ kind: 'slow-mo', expiresAt: 100 + durationTicks }]);
+  });
+
+  it('adds to the time a stackable effect has left', () => {
+    const { durationTicks } = POWER_UP_DEFINITIONS['score-multiplier'];
+    const active = activatePowerUp(activatePowerUp([], 'score-multiplier', 0), 'score-multiplier', 100);
+
+    expect(active).toEqual([{ kind: 'score-multiplier', expiresAt: durationTicks * 2 }]);
+  });
+
+  it('leaves the other running effects alone', () => {
+    const active = activatePowerUp(activatePowerUp([], 'shield', 0), 'slow-mo', 50);
+
+    expect(active.map(powerUp => powerUp.kind)).toEqual(['shield', 'slow-mo']);
+    expect(active[0]?.expiresAt).toBe(POWER_UP_DEFINITIONS.shield.durationTicks);
+  });
+});
+
+describe('BENEFICIAL_POWER_UP_TYPES', () => {
+  it('leaves out the power-ups that hinder the player', () => {
+    expect(BENEFICIAL_POWER_UP_TYPES).not.toContain('shrink-paddle');
+    expect(BENEFICIAL_POWER_UP_TYPES).not.toContain('reverse-controls');
+    expect(BENEFICIAL_POWER_UP_TYPES).toContain('multi-ball');
+  });
+});
+
+describe('getPowerUpModifiers', () => {
+  it('changes nothing without running effects', () => {
+    expect(getPowerUpModifiers([])).toEqual({
+      platformWidthScale: 1,
+      ballTimeScale: 1,
+      scoreMultiplier: 1,
+      magneticRange: 0,
+      reversedControls: false,
+    });
+  });
+
+  it('combines the modifiers of every running effect', () => {
+    const kinds: PowerUpType[] = ['slow-mo', 'score-multiplier', 'magnetic-paddle', 'reverse-controls'];
+    const active = kinds.map(kind => ({ kind, expiresAt: 600 }));
+
+    expect(getPowerUpModifiers(active)).toEqual({
+      platformWidthScale: 1,
+      ballTimeScale: SLOW_MO_SCALE,
+      scoreMultiplier: SCORE_MULTIPLIER,
+      magneticRange: MAGNETIC_RANGE,
+      reversedControls: true,
+    });
+  });
+
+  it('multiplies paddle scales, so a larger and a shrunk paddle partly cancel out', () => {
+    const active = [
+      { kind: 'larger-paddle' as const, expiresAt: 600 },
+      { kind: 'shrink-paddle' as const, expiresAt: 600 },
+    ];
+
+    expect(getPowerUpModifiers(active).platformWidthScale).toBeCloseTo(LARGER_PADDLE_SCALE * SHRUNK_PADDLE_SCALE);
+  });
+});
+
+describe('power-up hooks', () => {
+  it('runs the apply hook when a power-up is collected', () => {
+    const world = createPlayingWorld();
+
+    const shielded = withPowerUp(world, 'shield');
+    expect(shielded.shieldBounces).toBe(SHIELD_BOUNCES);
+    expect(shielded.activePowerUps.map(powerUp => powerUp.kind)).toEqual(['shield']);
+
+    const split = withPowerUp(world, 'multi-ball');
+    expect(split.extraBalls).toHaveLength(2);
+    expect(split.activePowerUps).toEqual([]); // acts once, so it never runs
+  });
+
+  it('runs the tick hook of each running effect', () => {
+    const world = createPlayingWorld();
+    const { platform } = world;
+    const falling = {
+      ...world,
+      ballPhysics: {
+        ...world.ballPhysics,
+        position: { x: platform.x + 20, y: platform.y - 20 },
+        velocity: { vx: 0, vy: 2 },
+      },
+    };
+
+    expect(tickPowerUps(falling, falling.tick)).toBe(falling);
+
+    const pulled = tickPowerUps(withPowerUp(falling, 'magnetic-paddle'), falling.tick).ballPhysics.velocity;
+    expect(pulled.vx).toBeLessThan(0);
+    expect(pulled.vy).toBeGreaterThan(2);
+  });
+
+  it('pulls with the range the modifiers give', () => {
+    const world = createPlayingWorld();
+    const { platform } = world;
+    const falling = withPowerUp(
+      {
+        ...world,
+        ballPhysics: {
+          ...world.ballPhysics,
+          position: { x: platform.x + 60, y: platform.y - 60 },
+          velocity: { vx: 0, vy: 2 },
+        },
+      },
+      'magnetic-paddle'
+    );
+    const modifiers = getPowerUpModifiers(falling.activePowerUps);
+    const pull = (magneticRange: number) =>
+      POWER_UP_DEFINITIONS['magnetic-paddle'].tick!(falling, falling.tick, { ...modifiers, magneticRange }).ballPhysics
+        .velocity.vx;
+
+    const defaultPull = pull(MAGNETIC_RANGE);
+    expect(defaultPull).toBeLessThan(0);
+    expect(pull(MAGNETIC_RANGE * 2)).toBeLessThan(defaultPull);
+    expect(pull(50)).toBe(0); // the ball is about 85 pixels away
+  });
+
+  it('runs the expire hook when an effect ends', () => {
+    const shielded = withPowerUp(createPlayingWorld(), 'shield');
+    const ended = endPowerUp(shielded, 'shield', shielded.tick);
+
+    expect(ended.shieldBounces).toBe(0);
+    expect(ended.activePowerUps).toEqual([]);
+  });
+
+  it('runs the expire hook of every running effect when the level ends', () => {
+    // The shield's expire hook clears its bounces, and it is not the first effect running
+    const world = withPowerUp(withPowerUp(createPlayingWorld(), 'slow-mo'), 'shield');
+    const winning = {
+      ...world,
+      scoreData: { ...world.scoreData, bounceCount: world.currentLevel.targetBounces },
+    };
+
+    const next = stepWorld(winning, { platformX: world.platform.x }).world;
+    expect(next.scoreData.level).toBe(world.scoreData.level + 1);
+    expect(next.activePowerUps).toEqual([]);
+    expect(next.shieldBounces).toBe(0);
+  });
+
+  it('mirrors the paddle move while the controls are reversed', () => {
+    const world = createPlayingWorld();
+    const startX = world.platform.x;
+
+    const normal = stepWorld(world, { platformX: startX + 8 }).world;
+    expect(normal.platform.x).toBe(startX + 8);
+
+    const reversed = stepWorld(withPowerUp(world, 'reverse-controls'), { platformX: startX + 8 }).world;
+    expect(reversed.platform.x).toBe(startX - 8);
+  });
+
+  it('shrinks the paddle while running and restores its width once it expires', () => {
+    const world = createPlayingWorld();
+    const baseWidth = world.currentLevel.platformWidth;
+    const input = { platformX: world.platform.x };
+    const shrunk = {
+      ...withPowerUp(world, 'shrink-paddle'),
+      activePowerUps: [{ kind: 'shrink-paddle' as const, expiresAt: world.tick + 1 }],
+    };
+
+    const during = stepWorld(shrunk, input);
+    expect(during.world.platform.width).toBeCloseTo(baseWidth * SHRUNK_PADDLE_SCALE);
+
+    const after = stepWorld(during.world, input);
+    expect(after.events).toContainEqual({ type: 'powerUpExpired', tick: world.tick + 1, kind: 'shrink-paddle' });
+    expect(after.world.activePowerUps).toEqual([]);
+    expect(after.world.platform.width).toBe(baseWidth);
+  });
+});
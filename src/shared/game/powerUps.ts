@@ -0,0 +1,346 @@
+// Power-ups are part of the world step: the world spawns them on a seeded
+// schedule, a ball collects one by touching it and timed effects last a fixed
+// number of steps. Every power-up is defined once, in POWER_UP_DEFINITIONS,
+// and the world and the client both read it from there.
+
+import type { BallPhysics, BallPosition, GameConfig, Platform, PowerUpSpawnTable, PowerUpType } from './types';
+import type { PhysicsWorld } from './world';
+import { createRandomSource, hashSeed } from './random';
+import { FRAME_MS } from './simulation';
+
+export type ActivePowerUp = {
+  kind: PowerUpType;
+  expiresAt: number; // the tick the effect ends on
+};
+
+export type PowerUpSpawn = {
+  delayTicks: number; // ticks of play after the previous spawn, or the level start for the first
+  kind: PowerUpType;
+  position: BallPosition;
+};
+
+export const POWER_UP_RADIUS = 15;
+
+// Uncollected power-ups disappear after this long
+export const PICKUP_LIFETIME_TICKS = Math.round(10000 / FRAME_MS);
+
+export const LARGER_PADDLE_SCALE = 1.5;
+export const SHRUNK_PADDLE_SCALE = 0.6;
+export const SLOW_MO_SCALE = 0.6; // fraction of each step the balls move
+export const SHIELD_BOUNCES = 5; // floor hits a shield absorbs before it breaks
+export const SCORE_MULTIPLIER = 2;
+export const MAGNETIC_RANGE = 100;
+
+// What the running effects change about a step. Each active effect's
+// modifiers are combined with the others' by getPowerUpModifiers.
+export type PowerUpModifiers = {
+  platformWidthScale: number;
+  ballTimeScale: number; // fraction of each step the balls move
+  scoreMultiplier: number; // applied to bounce and obstacle points
+  magneticRange: number; // 0 without a magnet
+  reversedControls: boolean; // paddles move the opposite way to their input
+};
+
+export type PowerUpDefinition = {
+  name: string;
+  icon: string;
+  color: string;
+  description: string;
+  negative: boolean; // hinders the player rather than helping
+  spawnWeight: number; // relative chance of spawning on levels without a spawn table
+  durationTicks: number; // 0 for power-ups that act once, when collected
+  stackable: boolean; // collecting it while it runs adds its duration instead of restarting the timer
+  modifiers?: Partial<PowerUpModifiers>;
+  apply?: (world: PhysicsWorld, collector: BallPhysics, tick: number) => PhysicsWorld; // when collected
+  // Every step it is active, before the balls move, with the combined modifiers of the running effects
+  tick?: (world: PhysicsWorld, tick: number, modifiers: PowerUpModifiers) => PhysicsWorld;
+  expire?: (world: PhysicsWorld, tick: number) => PhysicsWorld; // when its timer runs out or it breaks
+};
+
+const msToTicks = (ms: number): number => Math.round(ms / FRAME_MS);
+
+const getWorldPlatforms = (world: PhysicsWorld): Platform[] =>
+  world.partnerPlatform ? [world.platform, world.partnerPlatform] : [world.platform];
+
+export const POWER_UP_DEFINITIONS: Record<PowerUpType, PowerUpDefinition> = {
+  'multi-ball': {
+    name: 'Multi-ball',
+    icon: '⚽⚽',
+    color: '#ff6b6b',
+    description: 'Split ball into multiple balls',
+    negative: false,
+    spawnWeight: 1,
+    durationTicks: 0,
+    stackable: false,
+    // Splits the ball that collected it at once
+    apply: (world, collector) => {
+      const split = splitBall(collector).map((copy, index) => ({ ...copy, id: `ball_${world.nextBallId + index}` }));
+      return { ...world, extraBalls: [...world.extraBalls, ...split], nextBallId: world.nextBallId + split.length };
+    },
+  },
+  'larger-paddle': {
+    name: 'Larger Paddle',
+    icon: '📏',
+    color: '#4ecdc4',
+    description: 'Increase platform width by 50%',
+    negative: false,
+    spawnWeight: 1,
+    durationTicks: msToTicks(10000),
+    stackable: false,
+    modifiers: { platformWidthScale: LARGER_PADDLE_SCALE },
+  },
+  'slow-mo': {
+    name: 'Slow-mo',
+    icon: '🐌',
+    color: '#45b7d1',
+    description: 'Reduce ball speed by 40%',
+    negative: false,
+    spawnWeight: 1,
+    durationTicks: msToTicks(10000),
+    stackable: false,
+    modifiers: { ballTimeScale: SLOW_MO_SCALE },
+  },
+  'shield': {
+    name: 'Shield',
+    icon: '🛡️',
+    color: '#96ceb4',
+    description: 'Extra life protection for 5 bounces',
+    negative: false,
+    spawnWeight: 1,
+    durationTicks: msToTicks(10000),
+    stackable: false,
+    apply: world => ({ ...world, shieldBounces: SHIELD_BOUNCES }),
+    expire: world => ({ ...world, shieldBounces: 0 }),
+  },
+  'score-multiplier': {
+    name: 'Score Multiplier',
+    icon: '✨',
+    color: '#feca57',
+    description: '2x points for 15 seconds',
+    negative: false,
+    spawnWeight: 1,
+    durationTicks: msToTicks(15000),
+    stackable: true,
+    modifiers: { scoreMultiplier: SCORE_MULTIPLIER },
+  },
+  'magnetic-paddle': {
+    name: 'Magnetic Paddle',
+    icon: '🧲',
+    color: '#ff9ff3',
+    description: 'Ball auto-attracts to paddle',
+    negative: false,
+    spawnWeight: 1,
+    durationTicks: msToTicks(10000),
+    stackable: false,
+    modifiers: { magneticRange: MAGNETIC_RANGE },
+    tick: (world, _tick, { magneticRange }) => {
+      const platforms = getWorldPlatforms(world);
+      return {
+        ...world,
+        ballPhysics: applyMagnet(world.ballPhysics, platforms, magneticRange),
+        extraBalls: world.extraBalls.map(ball => applyMagnet(ball, platforms, magneticRange)),
+      };
+    },
+  },
+  'shrink-paddle': {
+    name: 'Shrink Paddle',
+    icon: '🤏',
+    color: '#e74c3c',
+    description: 'Shrink platform width by 40%',
+    negative: true,
+    spawnWeight: 0.5,
+    durationTicks: msToTicks(8000),
+    stackable: false,
+    modifiers: { platformWidthScale: SHRUNK_PADDLE_SCALE },
+  },
+  'reverse-controls': {
+    name: 'Reverse Controls',
+    icon: '🔄',
+    color: '#c0392b',
+    description: 'Paddle controls are reversed',
+    negative: true,
+    spawnWeight: 0.5,
+    durationTicks: msToTicks(6000),
+    stackable: false,
+    modifiers: { reversedControls: true },
+  },
+};
+
+export const POWER_UP_TYPES = Object.keys(POWER_UP_DEFINITIONS) as PowerUpType[];
+
+// The power-ups that help the player, which the collector achievement asks for
+export const BENEFICIAL_POWER_UP_TYPES = POWER_UP_TYPES.filter(type => !POWER_UP_DEFINITIONS[type].negative);
+
+// Picks a type in proportion to the level's spawn weights, or to each
+// power-up's own spawnWeight without a table
+export const pickPowerUpType = (spawns?: PowerUpSpawnTable, random: () => number = Math.random): PowerUpType => {
+  const weighted = POWER_UP_TYPES.map(
+    type => [type, spawns ? spawns.weights[type] ?? 0 : POWER_UP_DEFINITIONS[type].spawnWeight] as const
+  ).filter(([, weight]) => weight > 0);
+  let roll = random() * weighted.reduce((total, [, weight]) => total + weight, 0);
+  for (const [type, weight] of weighted) {
+    roll -= weight;
+    if (roll < 0) return type;
+  }
+  return weighted[weighted.length - 1]?.[0] ?? 'multi-ball';
+};
+
+// Milliseconds until the next spawn; levels without a table use 15-25 seconds
+export const getPowerUpSpawnDelay = (spawns?: PowerUpSpawnTable, random: () => number = Math.random): number => {
+  const min = spawns?.minInterval ?? 15;
+  const max = spawns?.maxInterval ?? 25;
+  return (min + random() * (max - min)) * 1000;
+};
+
+// Each power-up spawn gets its own seed so a spawn's type and position don't
+// depend on how many spawns an earlier, longer level went through. Daily
+// challenge runs share the day's seed, so their spawns are the same for everyone.
+export const getPowerUpSpawnSeed = (runSeed: number, level: number, spawnIndex: number): number =>
+  hashSeed(runSeed, level, spawnIndex);
+
+export const rollPowerUpSpawn = (
+  runSeed: number,
+  level: number,
+  spawnIndex: number,
+  config: GameConfig,
+  spawns?: PowerUpSpawnTable
+): PowerUpSpawn => {
+  const random = createRandomSource(getPowerUpSpawnSeed(runSeed, level, spawnIndex));
+  const delayTicks = Math.max(1, Math.round(getPowerUpSpawnDelay(spawns, random) / FRAME_MS));
+  const kind = pickPowerUpType(spawns, random);
+  const x = random() * (config.canvasWidth - 40) + 20;
+  const y = random() * (config.canvasHeight - 200) + 100;
+
+  return { delayTicks, kind, position: { x, y } };
+};
+
+// A brick's drop is seeded by the brick, so it does not depend on the order bricks break in
+export const rollPowerUpDrop = (
+  runSeed: number,
+  level: number,
+  brickId: string,
+  spawns?: PowerUpSpawnTable
+): PowerUpType => pickPowerUpType(spawns, createRandomSource(hashSeed(runSeed, level, 'drop', brickId)));
+
+export const isPowerUpActive = (active: ActivePowerUp[], kind: PowerUpType): boolean =>
+  active.some(powerUp => powerUp.kind === kind);
+
+// Collecting an effect that is already running restarts its timer, or adds
+// to the time it has left when it is stackable
+export const activatePowerUp = (active: ActivePowerUp[], kind: PowerUpType, tick: number): ActivePowerUp[] => {
+  const { durationTicks, stackable } = POWER_UP_DEFINITIONS[kind];
+  const running = active.find(powerUp => powerUp.kind === kind);
+  const from = running && stackable ? running.expiresAt : tick;
+  return [...active.filter(powerUp => powerUp.kind !== kind), { kind, expiresAt: from + durationTicks }];
+};
+
+const NO_MODIFIERS: PowerUpModifiers = {
+  platformWidthScale: 1,
+  ballTimeScale: 1,
+  scoreMultiplier: 1,
+  magneticRange: 0,
+  reversedControls: false,
+};
+
+// Scales multiply, so a larger and a shrunk paddle partly cancel out
+export const getPowerUpModifiers = (active: ActivePowerUp[]): PowerUpModifiers =>
+  active.reduce((combined, { kind }) => {
+    const { modifiers } = POWER_UP_DEFINITIONS[kind];
+    if (!modifiers) return combined;
+    return {
+      platformWidthScale: combined.platformWidthScale * (modifiers.platformWidthScale ?? 1),
+      ballTimeScale: combined.ballTimeScale * (modifiers.ballTimeScale ?? 1),
+      scoreMultiplier: combined.scoreMultiplier * (modifiers.scoreMultiplier ?? 1),
+      magneticRange: Math.max(combined.magneticRange, modifiers.magneticRange ?? 0),
+      reversedControls: combined.reversedControls || (modifiers.reversedControls ?? false),
+    };
+  }, NO_MODIFIERS);
+
+export const getMagneticRange = (active: ActivePowerUp[]): number => getPowerUpModifiers(active).magneticRange;
+
+// Starts a collected power-up: a timed one joins the active effects, then its apply hook runs
+export const applyPowerUp = (
+  world: PhysicsWorld,
+  kind: PowerUpType,
+  collector: BallPhysics,
+  tick: number
+): PhysicsWorld => {
+  const { durationTicks, apply } = POWER_UP_DEFINITIONS[kind];
+  const started =
+    durationTicks > 0 ? { ...world, activePowerUps: activatePowerUp(world.activePowerUps, kind, tick) } : world;
+  return apply ? apply(started, collector, tick) : started;
+};
+
+// Runs the tick hook of every active effect, in the order they were collected,
+// with the modifiers the running effects combine to
+export const tickPowerUps = (
+  world: PhysicsWorld,
+  tick: number,
+  modifiers: PowerUpModifiers = getPowerUpModifiers(world.activePowerUps)
+): PhysicsWorld =>
+  world.activePowerUps.reduce(
+    (current, { kind }) => POWER_UP_DEFINITIONS[kind].tick?.(current, tick, modifiers) ?? current,
+    world
+  );
+
+// Ends one active effect early, as the shield does once it has absorbed its last hit
+export const endPowerUp = (world: PhysicsWorld, kind: PowerUpType, tick: number): PhysicsWorld => {
+  const ended = { ...world, activePowerUps: world.activePowerUps.filter(powerUp => powerUp.kind !== kind) };
+  return POWER_UP_DEFINITIONS[kind].expire?.(ended, tick) ?? ended;
+};
+
+export const createMultiBall = (originalBall: BallPhysics, angleOffset: number): BallPhysics => {
+  const angle = Math.atan2(originalBall.velocity.vy, originalBall.velocity.vx) + angleOffset;
+  const speed = Math.sqrt(originalBall.velocity.vx ** 2 + originalBall.velocity.vy ** 2);
+
+  return {
+    ...originalBall,
+    velocity: {
+      vx: Math.cos(angle) * speed,
+      vy: Math.sin(angle) * speed,
+    },
+  };
+};
+
+export const splitBall = (ball: BallPhysics): BallPhysics[] => {
+  const balls: BallPhysics[] = [];
+
+  // Create 2 additional balls with different angles
+  balls.push(createMultiBall(ball, Math.PI / 6)); // 30 degrees
+  balls.push(createMultiBall(ball, -Math.PI / 6)); // -30 degrees
+
+  return balls;
+};
+
+export const calculateMagneticForce = (
+  ball: BallPhysics,
+  platform: { x: number; y: number },
+  range: number
+): { vx: number; vy: number } => {
+  const dx = platform.x - ball.position.x;
+  const dy = platform.y - ball.position.y;
+  const distance = Math.sqrt(dx * dx + dy * dy);
+
+  if (distance > range || distance === 0) {
+    return { vx: 0, vy: 0 };
+  }
+
+  const force = ((range - distance) / range) * 0.5; // Max force of 0.5
+  return {
+    vx: (dx / distance) * force,
+    vy: (dy / distance) * force,
+  };
+};
+
+// A falling ball within `range` is pulled towards the nearest paddle; a rising one is left alone
+export const applyMagnet = (ball: BallPhysics, platforms: Platform[], range: number): BallPhysics => {
+  if (ball.velocity.vy <= 0) return ball;
+
+  const nearest = platforms.reduce((closest, platform) =>
+    Math.abs(platform.x - ball.position.x) < Math.abs(closest.x - ball.position.x) ? platform : closest
+  );
+  const force = calculateMagneticForce(ball, nearest, range);
+  if (force.vx === 0 && force.vy === 0) return ball;
+
+  return { ...ball, velocity: { vx: ball.velocity.vx + force.vx, vy: ball.velocity.vy + force.vy } };
+};
@@ -0,0 +1,40 @@
+// Seeded PRNG (mulberry32). The state is a plain number so it can live inside
+// immutable world snapshots and produce identical sequences on client and server.
+
+export type RngState = number;
+
+export const createRng = (seed: number): RngState => seed >>> 0;
+
+// Returns a float in [0, 1) and the state to use for the next draw
+export const nextRandom = (state: RngState): [value: number, next: RngState] => {
+  const next = (state + 0x6d2b79f5) >>> 0;
+  let t = next;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return [((t ^ (t >>> 14)) >>> 0) / 4294967296, next];
+};
+
+export const nextRandomRange = (state: RngState, min: number, max: number): [value: number, next: RngState] => {
+  const [value, next] = nextRandom(state);
+  return [min + value * (max - min), next];
+};
+
+// Stateful wrapper for code that draws many values in a row, such as level generation
+export const createRandomSource = (seed: number): (() => number) => {
+  let state = createRng(seed);
+  return () => {
+    const [value, next] = nextRandom(state);
+    state = next;
+    return value;
+  };
+};
+
+// FNV-1a over the parts, for deriving stable seeds from dates and counters
+export const hashSeed = (...parts: (string | number)[]): number => {
+  let hash = 0x811c9dc5;
+  for (const char of parts.join(':')) {
+    hash ^= char.charCodeAt(0);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
@@ -0,0 +1,211 @@
+// Replays are a run log plus the mode and levels it was played on. Playback
+// re-simulates the run in the fixed-step world, so a replay is only a few
+// kilobytes and plays back exactly as the run happened.
+
+import type { GameConfig, GameMode } from './types';
+import type { DecodedRunLog, RunLog } from './runLog';
+import type { PhysicsWorld, WorldCommand } from './world';
+import { RUN_LOG_VERSION, decodeRunLog, getRunConfig, getRunStepInput } from './runLog';
+import { createPhysicsWorld, isValidLaunch, launchWorldBall, stepWorld } from './world';
+
+export const REPLAY_VERSION = 5;
+
+// Seeking re-simulates from the nearest keyframe before the target tick
+export const REPLAY_KEYFRAME_INTERVAL = 600;
+
+export type Replay = {
+  version: typeof REPLAY_VERSION;
+  mode: GameMode;
+  levelPackId: string | null; // null for the built-in levels
+  score: number;
+  runLog: RunLog;
+};
+
+// Serialised form: [version, mode, levelPackId, score, seed, ticks, launches, platformX, partnerPlatformX, commands].
+// Launches and paddle moves are flattened, with each tick stored as the gap since the previous entry;
+// partnerPlatformX is null for runs without a second paddle. Commands keep their [gap, command] pairs.
+type SerializedReplay = [
+  number,
+  GameMode,
+  string | null,
+  number,
+  number,
+  number,
+  number[],
+  number[],
+  number[] | null,
+  [number, WorldCommand][],
+];
+
+export type ReplayTimeline = {
+  run: DecodedRunLog;
+  keyframes: PhysicsWorld[]; // keyframes[i] is the world at tick i * REPLAY_KEYFRAME_INTERVAL
+};
+
+export const createReplay = (runLog: RunLog, mode: GameMode, levelPackId: string | null, score: number): Replay => ({
+  version: REPLAY_VERSION,
+  mode,
+  levelPackId,
+  score,
+  runLog,
+});
+
+const flattenEntries = (entries: number[][]): number[] => {
+  let lastTick = 0;
+  return entries.flatMap(([tick, ...values]) => {
+    const gap = tick! - lastTick;
+    lastTick = tick!;
+    return [gap, ...values];
+  });
+};
+
+const unflattenEntries = (flat: number[], size: number): number[][] | null => {
+  if (flat.length % size !== 0) return null;
+
+  const entries: number[][] = [];
+  let tick = 0;
+  for (let index = 0; index < flat.length; index += size) {
+    tick += flat[index]!;
+    entries.push([tick, ...flat.slice(index + 1, index + size)]);
+  }
+  return entries;
+};
+
+const toCommandGaps = (commands: RunLog['commands']): [number, WorldCommand][] => {
+  let lastTick = 0;
+  return commands.map(([tick, command]) => {
+    const gap = tick - lastTick;
+    lastTick = tick;
+    return [gap, command];
+  });
+};
+
+// Leaves checking the commands themselves to decodeRunLog
+const fromCommandGaps = (entries: unknown[]): RunLog['commands'] | null => {
+  let tick = 0;
+  const commands: RunLog['commands'] = [];
+  for (const entry of entries) {
+    if (!Array.isArray(entry) || entry.length !== 2 || typeof entry[0] !== 'number') return null;
+    tick += entry[0];
+    commands.push([tick, entry[1] as WorldCommand]);
+  }
+  return commands;
+};
+
+export const serializeReplay = (replay: Replay): string => {
+  const { runLog } = replay;
+  const serialized: SerializedReplay = [
+    replay.version,
+    replay.mode,
+    replay.levelPackId,
+    replay.score,
+    runLog.seed,
+    runLog.ticks,
+    flattenEntries(runLog.launches),
+    flattenEntries(runLog.platformX),
+    runLog.partnerPlatformX && flattenEntries(runLog.partnerPlatformX),
+    toCommandGaps(runLog.commands),
+  ];
+  return JSON.stringify(serialized);
+};
+
+const isNumberArray = (value: unknown): value is number[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'number' && Number.isFinite(item));
+
+// Returns null for anything that is not a replay of the current version. The
+// run log itself is checked when the replay is loaded for playback.
+export const parseReplay = (text: string): Replay | null => {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (!Array.isArray(value) || value.length !== 10) return null;
+
+  const [version, mode, levelPackId, score, seed, ticks, launches, platformX, partnerPlatformX, commands] =
+    value as unknown[];
+  if (
+    version !== REPLAY_VERSION ||
+    (mode !== 'campaign' && mode !== 'endless' && mode !== 'bricks') ||
+    (levelPackId !== null && typeof levelPackId !== 'string') ||
+    typeof score !== 'number' ||
+    typeof seed !== 'number' ||
+    typeof ticks !== 'number' ||
+    !isNumberArray(launches) ||
+    !isNumberArray(platformX) ||
+    (partnerPlatformX !== null && !isNumberArray(partnerPlatformX)) ||
+    !Array.isArray(commands)
+  ) {
+    return null;
+  }
+
+  const launchEntries = unflattenEntries(launches, 3);
+  const platformEntries = unflattenEntries(platformX, 2);
+  const partnerEntries = partnerPlatformX === null ? null : unflattenEntries(partnerPlatformX, 2);
+  const commandEntries = fromCommandGaps(commands);
+  if (!launchEntries || !platformEntries || (partnerPlatformX !== null && !partnerEntries) || !commandEntries) {
+    return null;
+  }
+
+  return createReplay(
+    {
+      version: RUN_LOG_VERSION,
+      seed,
+      ticks,
+      launches: launchEntries as RunLog['launches'],
+      platformX: platformEntries as RunLog['platformX'],
+      partnerPlatformX: partnerEntries as RunLog['partnerPlatformX'],
+      commands: commandEntries,
+    },
+    mode,
+    levelPackId,
+    score
+  );
+};
+
+// Applies one tick of recorded input the way the client and verifier do:
+// a launch first, then a step while the ball is in play
+const playReplayTick = (world: PhysicsWorld, run: DecodedRunLog): PhysicsWorld => {
+  const launch = run.launches.get(world.tick);
+  const launched = launch && isValidLaunch(launch) ? launchWorldBall(world, launch) : world;
+  if (world.tick >= run.ticks || launched.phase !== 'playing') return launched;
+
+  return stepWorld(launched, getRunStepInput(run, world.tick)).world;
+};
+
+// Simulates the whole run once up front, keeping a keyframe every
+// REPLAY_KEYFRAME_INTERVAL ticks. Returns null if the run log is malformed or
+// `config` is not the one the run was played with.
+export const createReplayTimeline = (replay: Replay, config: GameConfig, maxTicks: number): ReplayTimeline | null => {
+  if (replay.runLog.version !== RUN_LOG_VERSION || config.levels.length === 0) return null;
+
+  const run = decodeRunLog(replay.runLog, maxTicks);
+  if (!run) return null;
+
+  let world = createPhysicsWorld(getRunConfig(run, config), run.seed);
+  const keyframes = [world];
+  while (world.tick < run.ticks) {
+    const next = playReplayTick(world, run);
+    if (next.tick === world.tick) return null; // the run stalls before its end, so it desynced
+    world = next;
+    if (world.tick % REPLAY_KEYFRAME_INTERVAL === 0) keyframes.push(world);
+  }
+
+  return { run, keyframes };
+};
+
+export const getReplayLength = (timeline: ReplayTimeline): number => timeline.run.ticks;
+
+// Returns the world at `tick`, stepping on from `current` when that is closer
+// than the nearest keyframe (as it is during normal playback)
+export const seekReplay = (timeline: ReplayTimeline, tick: number, current?: PhysicsWorld): PhysicsWorld => {
+  const target = Math.max(0, Math.min(Math.floor(tick), timeline.run.ticks));
+  const keyframe = timeline.keyframes[Math.floor(target / REPLAY_KEYFRAME_INTERVAL)]!;
+
+  let world = current && current.tick <= target && current.tick >= keyframe.tick ? current : keyframe;
+  while (world.tick < target) {
+    world = playReplayTick(world, timeline.run);
+  }
+  return world;
+};
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { createCoopGameConfig } from './coop';
+import { createDefaultGameConfig } from './physics';
+import { createReplay, createReplayTimeline, parseReplay, seekReplay, serializeReplay } from './replay';
+import { createRunRecorder, encodeRunLog, recordRunLaunch, recordRunStep } from './runLog';
+import { verifyRunLog } from './verifyRun';
+import { createPhysicsWorld, launchWorldBall, stepWorld } from './world';
+
+const config = createDefaultGameConfig();
+
+// Plays a co-op run where only the second paddle follows the ball, recording it as the client does
+const playCoopRun = (steps: number) => {
+  const recorder = createRunRecorder(3);
+  const launch = { angle: 70, power: 70 };
+  recordRunLaunch(recorder, 0, launch);
+  let world = launchWorldBall(createPhysicsWorld(createCoopGameConfig(config), recorder.seed), launch);
+
+  for (let step = 0; step < steps && world.phase === 'playing'; step++) {
+    const { x } = world.ballPhysics.position;
+    const input = { platformX: 0, partnerPlatformX: x };
+    recordRunStep(recorder, world.tick, input.platformX, input.partnerPlatformX);
+    world = stepWorld(world, input).world;
+  }
+  return { world, runLog: encodeRunLog(recorder) };
+};
+
+describe('co-op run logs', () => {
+  it('record the second paddle, so the run verifies with both paddles', () => {
+    const { world, runLog } = playCoopRun(600);
+    const options = { config, maxTicks: 1000, scoreTolerance: 0 };
+    expect(runLog.partnerPlatformX).not.toBeNull();
+
+    expect(verifyRunLog(runLog, world.scoreData.score, options)).toEqual({ valid: true, scoreData: world.scoreData });
+    expect(verifyRunLog({ ...runLog, partnerPlatformX: null }, world.scoreData.score, options).valid).toBe(false);
+  });
+
+  it('replay with the second paddle where it was', () => {
+    const { world, runLog } = playCoopRun(50);
+    const replay = parseReplay(serializeReplay(createReplay(runLog, 'campaign', null, world.scoreData.score)));
+    const timeline = replay && createReplayTimeline(replay, config, 1000);
+    if (!timeline) throw new Error('The replay did not load');
+
+    expect(seekReplay(timeline, world.tick).partnerPlatform).toEqual(world.partnerPlatform);
+  });
+
+  it('leave the second paddle out of solo runs', () => {
+    const recorder = createRunRecorder(3);
+    recordRunStep(recorder, 0, 400);
+
+    expect(encodeRunLog(recorder).partnerPlatformX).toBeNull();
+  });
+});
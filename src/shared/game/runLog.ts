@@ -0,0 +1,184 @@
+// Compact record of the inputs that drove a run, sufficient to re-simulate it
+// with the fixed-step PhysicsWorld.
+
+import type { GameConfig } from './types';
+import type { WorldCommand, WorldInput } from './world';
+import { isWorldCommand } from './world';
+import { createCoopGameConfig } from './coop';
+
+export const RUN_LOG_VERSION = 6;
+
+// The world runs 60 steps per second and a launch lasts at most one level time
+// limit, so this comfortably covers a full campaign.
+export const MAX_RUN_TICKS = 200_000;
+
+export type RunLog = {
+  version: typeof RUN_LOG_VERSION;
+  seed: number;
+  ticks: number;
+  launches: [tick: number, angle: number, power: number][];
+  platformX: [tick: number, x: number][]; // only the ticks where the platform moved
+  partnerPlatformX: [tick: number, x: number][] | null; // the second paddle, in co-op runs only
+  commands: [tick: number, command: WorldCommand][]; // in the order they were applied
+};
+
+export type RunLaunch = {
+  angle: number;
+  power: number;
+};
+
+// Mutable accumulator used while a run is in progress. Steps and launches are
+// keyed by tick so recording the same tick twice overwrites instead of appending.
+export type RunRecorder = {
+  seed: number;
+  platformXs: number[];
+  partnerPlatformXs: number[]; // empty unless the run is co-op
+  launches: Map<number, RunLaunch>;
+  commands: Map<number, WorldCommand[]>;
+};
+
+export type DecodedRunLog = Omit<RunRecorder, 'partnerPlatformXs'> & {
+  ticks: number;
+  partnerPlatformXs: number[] | null;
+};
+
+export const createRunSeed = (): number => Math.floor(Math.random() * 0xffffffff);
+
+export const createRunRecorder = (seed: number): RunRecorder => ({
+  seed,
+  platformXs: [],
+  partnerPlatformXs: [],
+  launches: new Map(),
+  commands: new Map(),
+});
+
+export const recordRunStep = (
+  recorder: RunRecorder,
+  tick: number,
+  platformX: number,
+  partnerPlatformX?: number
+): void => {
+  recorder.platformXs[tick] = platformX;
+  if (partnerPlatformX !== undefined) recorder.partnerPlatformXs[tick] = partnerPlatformX;
+};
+
+export const recordRunCommands = (recorder: RunRecorder, tick: number, commands: WorldCommand[]): void => {
+  if (commands.length > 0) recorder.commands.set(tick, commands);
+};
+
+export const recordRunLaunch = (recorder: RunRecorder, tick: number, launch: RunLaunch): void => {
+  recorder.launches.set(tick, launch);
+};
+
+// Keeps only the ticks where a paddle moved
+const encodePlatformXs = (xs: number[], ticks: number): RunLog['platformX'] => {
+  const entries: RunLog['platformX'] = [];
+  for (let tick = 0; tick < ticks; tick++) {
+    const x = xs[tick] ?? 0;
+    if (tick === 0 || x !== xs[tick - 1]) {
+      entries.push([tick, x]);
+    }
+  }
+  return entries;
+};
+
+export const encodeRunLog = (recorder: RunRecorder): RunLog => {
+  const ticks = recorder.platformXs.length;
+  const platformX = encodePlatformXs(recorder.platformXs, ticks);
+  const partnerPlatformX =
+    recorder.partnerPlatformXs.length > 0 ? encodePlatformXs(recorder.partnerPlatformXs, ticks) : null;
+
+  const launches: RunLog['launches'] = [...recorder.launches.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([tick, { angle, power }]) => [tick, angle, power]);
+
+  const commands: RunLog['commands'] = [...recorder.commands.entries()]
+    .sort(([a], [b]) => a - b)
+    .flatMap(([tick, tickCommands]) => tickCommands.map((command): [number, WorldCommand] => [tick, command]));
+
+  return {
+    version: RUN_LOG_VERSION,
+    seed: recorder.seed,
+    ticks,
+    launches,
+    platformX,
+    partnerPlatformX,
+    commands,
+  };
+};
+
+const isNumberTuple = (value: unknown, length: number): value is number[] =>
+  Array.isArray(value) && value.length === length && value.every(item => typeof item === 'number' && Number.isFinite(item));
+
+// Expands a paddle's moves into one x per tick, or null if they are malformed
+const decodePlatformXs = (entries: unknown[], ticks: number): number[] | null => {
+  const xs: number[] = [];
+  let lastTick = -1;
+  for (const entry of entries) {
+    if (!isNumberTuple(entry, 2)) return null;
+    const [tick, x] = entry as [number, number];
+    if (!Number.isInteger(tick) || tick <= lastTick || tick >= ticks) return null;
+    for (let fill = lastTick + 1; fill < tick; fill++) xs.push(xs[fill - 1] ?? x);
+    xs.push(x);
+    lastTick = tick;
+  }
+  if (ticks > 0 && (entries[0] as number[] | undefined)?.[0] !== 0) return null;
+  while (xs.length < ticks) xs.push(xs[xs.length - 1] ?? 0);
+  return xs;
+};
+
+// Expands a log into per-tick arrays. Returns null if the log is structurally invalid.
+export const decodeRunLog = (log: RunLog, maxTicks: number): DecodedRunLog | null => {
+  if (
+    !Number.isInteger(log.seed) ||
+    !Number.isInteger(log.ticks) ||
+    log.ticks < 0 ||
+    log.ticks > maxTicks ||
+    !Array.isArray(log.platformX) ||
+    (log.partnerPlatformX !== null && !Array.isArray(log.partnerPlatformX)) ||
+    !Array.isArray(log.launches) ||
+    !Array.isArray(log.commands)
+  ) {
+    return null;
+  }
+
+  const platformXs = decodePlatformXs(log.platformX, log.ticks);
+  const partnerPlatformXs = log.partnerPlatformX === null ? null : decodePlatformXs(log.partnerPlatformX, log.ticks);
+  if (!platformXs || (log.partnerPlatformX !== null && !partnerPlatformXs)) return null;
+
+  const launches = new Map<number, RunLaunch>();
+  for (const entry of log.launches) {
+    if (!isNumberTuple(entry, 3)) return null;
+    const [tick, angle, power] = entry as [number, number, number];
+    if (!Number.isInteger(tick) || tick < 0 || tick > log.ticks || launches.has(tick)) return null;
+    launches.set(tick, { angle, power });
+  }
+
+  // Commands are applied by steps, so each one needs a step to land on
+  const commands = new Map<number, WorldCommand[]>();
+  let lastCommandTick = 0;
+  for (const entry of log.commands) {
+    if (!Array.isArray(entry) || entry.length !== 2) return null;
+    const [tick, command] = entry as unknown[];
+    if (typeof tick !== 'number' || !Number.isInteger(tick) || tick < lastCommandTick || tick >= log.ticks) return null;
+    if (!isWorldCommand(command)) return null;
+    lastCommandTick = tick;
+    commands.set(tick, [...(commands.get(tick) ?? []), command]);
+  }
+
+  return { seed: log.seed, ticks: log.ticks, platformXs, partnerPlatformXs, launches, commands };
+};
+
+// Co-op runs record the second paddle's moves, and are played with both paddles
+export const getRunConfig = (run: DecodedRunLog, config: GameConfig): GameConfig =>
+  run.partnerPlatformXs ? createCoopGameConfig(config) : config;
+
+// The input the run recorded for the step on `tick`
+export const getRunStepInput = (run: DecodedRunLog, tick: number): WorldInput => {
+  const partnerPlatformX = run.partnerPlatformXs?.[tick];
+  return {
+    platformX: run.platformXs[tick]!,
+    ...(partnerPlatformX !== undefined && { partnerPlatformX }),
+    commands: run.commands.get(tick) ?? [],
+  };
+};
@@ -0,0 +1,223 @@
+import type {
+  BallPhysics,
+  BallPosition,
+  BounceSurface,
+  CollisionState,
+  GameConfig,
+  LevelConfig,
+  Obstacle,
+  Platform,
+  ScoreData,
+} from './types';
+import type { Contact } from './collision';
+import { createFrameColliders, moveBall, reflectVelocity } from './collision';
+import { countBricksLeft } from './brickBreaker';
+import {
+  integrateVelocity,
+  checkFloorCollision,
+  calculateBounceScore,
+  updateScoreData,
+  clamp,
+} from './physics';
+
+// One unit of deltaTime is a 60 Hz frame
+export const FRAME_MS = 1000 / 60;
+
+export type FrameState = {
+  ballPhysics: BallPhysics;
+  platform: Platform;
+  collisionState: CollisionState;
+  scoreData: ScoreData;
+  currentLevel: LevelConfig;
+  config: GameConfig;
+  obstacles?: Obstacle[];
+  partnerPlatform?: Platform | null; // the second paddle in co-op
+  ballTimeScale?: number; // fraction of the step the ball moves, below 1 in slow motion
+};
+
+export type FrameBounce = {
+  surface: BounceSurface;
+  hitPosition?: number;
+  paddle?: number; // which paddle a platform bounce was off, 0 outside co-op
+  position: BallPosition;
+};
+
+export type FrameOutcome = 'continue' | 'lifeLost' | 'levelComplete';
+
+export type FrameResult = {
+  ballPhysics: BallPhysics;
+  collisionState: CollisionState;
+  timeElapsed: number;
+  bounces: FrameBounce[];
+  contacts: Contact[]; // every surface touched this frame, in time-of-impact order
+  outcome: FrameOutcome;
+};
+
+// -1 at the platform's left edge to 1 at its right edge
+const getPlatformHitPosition = (x: number, platform: Platform): number =>
+  clamp((x - platform.x) / (platform.width / 2), -1, 1);
+
+// Bounces off the top of a platform are steered by where the ball lands
+const respondToContact =
+  (platforms: Platform[]) =>
+  (ball: BallPhysics, contact: Contact): BallPhysics => {
+    const velocity = reflectVelocity(ball, contact);
+    const { collider } = contact;
+    if (collider.kind !== 'platform' || contact.normal.y >= 0 || velocity === ball.velocity) {
+      return { ...ball, velocity };
+    }
+
+    const hitPosition = getPlatformHitPosition(contact.position.x, platforms[collider.paddle]!);
+    return { ...ball, velocity: { ...velocity, vx: velocity.vx + hitPosition * 2 } }; // Angle adjustment
+  };
+
+// Levels without a win condition are won by reaching targetBounces
+export const isLevelWon = (level: LevelConfig, scoreData: ScoreData, obstacles: Obstacle[] = []): boolean => {
+  const condition = level.winCondition ?? { type: 'bounces' };
+  switch (condition.type) {
+    case 'bounces':
+      return scoreData.bounceCount >= level.targetBounces;
+    case 'score':
+      return scoreData.score >= condition.points;
+    case 'survive':
+      return scoreData.timeElapsed >= level.timeLimit;
+    case 'bricks':
+      return countBricksLeft(obstacles) === 0;
+  }
+};
+
+export type BallStep = {
+  ballPhysics: BallPhysics;
+  bounces: FrameBounce[];
+  contacts: Contact[];
+};
+
+// Moves one ball for a frame against the walls, ceiling, paddles and obstacles
+export const stepBall = (state: FrameState, ball: BallPhysics, deltaTime: number): BallStep => {
+  const platforms = state.partnerPlatform ? [state.platform, state.partnerPlatform] : [state.platform];
+  const ballDeltaTime = deltaTime * (state.ballTimeScale ?? 1);
+  const { ballPhysics, contacts } = moveBall(
+    integrateVelocity(ball, ballDeltaTime),
+    ballDeltaTime,
+    createFrameColliders(platforms, state.obstacles ?? []),
+    state.config,
+    respondToContact(platforms)
+  );
+
+  const bounces: FrameBounce[] = [];
+  for (const contact of contacts) {
+    const { collider, position } = contact;
+    if (collider.kind === 'wall' || collider.kind === 'ceiling') {
+      bounces.push({ surface: collider.kind, position });
+    } else if (collider.kind === 'platform' && contact.normal.y < 0) {
+      const hitPosition = getPlatformHitPosition(position.x, platforms[collider.paddle]!);
+      bounces.push({ surface: 'platform', hitPosition, paddle: collider.paddle, position });
+    }
+  }
+
+  return { ballPhysics, bounces, contacts };
+};
+
+export type BallCollisions = {
+  balls: BallPhysics[];
+  hits: BallPosition[]; // where each pair touched
+};
+
+// Overlapping balls that are moving towards each other are pushed apart and
+// trade the part of their velocity along the line between their centres, as
+// two equal masses do. Balls that are already separating, like the ones a
+// multi-ball split leaves on top of each other, are left to drift apart.
+export const collideBalls = (balls: BallPhysics[]): BallCollisions => {
+  const next = [...balls];
+  const hits: BallPosition[] = [];
+
+  for (let i = 0; i < next.length; i++) {
+    for (let j = i + 1; j < next.length; j++) {
+      const a = next[i]!;
+      const b = next[j]!;
+      const dx = b.position.x - a.position.x;
+      const dy = b.position.y - a.position.y;
+      const distance = Math.sqrt(dx * dx + dy * dy);
+      const reach = a.radius + b.radius;
+      if (distance === 0 || distance >= reach) continue;
+
+      const nx = dx / distance;
+      const ny = dy / distance;
+      const approach = (a.velocity.vx - b.velocity.vx) * nx + (a.velocity.vy - b.velocity.vy) * ny;
+      if (approach <= 0) continue;
+
+      const push = (reach - distance) / 2;
+      next[i] = {
+        ...a,
+        position: { x: a.position.x - nx * push, y: a.position.y - ny * push },
+        velocity: { vx: a.velocity.vx - approach * nx, vy: a.velocity.vy - approach * ny },
+      };
+      next[j] = {
+        ...b,
+        position: { x: b.position.x + nx * push, y: b.position.y + ny * push },
+        velocity: { vx: b.velocity.vx + approach * nx, vy: b.velocity.vy + approach * ny },
+      };
+      hits.push({ x: a.position.x + nx * a.radius, y: a.position.y + ny * a.radius });
+    }
+  }
+
+  return { balls: next, hits };
+};
+
+// Advances a ball in play by one frame. Bounces are reported rather than
+// scored so the caller can apply them through its own state transitions.
+export const stepPlayingFrame = (state: FrameState, deltaTime: number): FrameResult => {
+  const timeElapsed = state.scoreData.timeElapsed + (deltaTime * FRAME_MS) / 1000;
+
+  if (timeElapsed >= state.currentLevel.timeLimit) {
+    // Running out the clock only completes the level when surviving is the goal
+    const survived = isLevelWon(state.currentLevel, { ...state.scoreData, timeElapsed }, state.obstacles);
+    return {
+      ballPhysics: state.ballPhysics,
+      collisionState: state.collisionState,
+      timeElapsed,
+      bounces: [],
+      contacts: [],
+      outcome: survived ? 'levelComplete' : 'lifeLost',
+    };
+  }
+
+  const { ballPhysics, bounces, contacts } = stepBall(state, state.ballPhysics, deltaTime);
+
+  const collisionState: CollisionState = {
+    ...state.collisionState,
+    wall: false,
+    ceiling: false,
+    platform: false,
+    floor: false,
+  };
+
+  for (const bounce of bounces) {
+    if (bounce.surface === 'platform') {
+      collisionState.platform = true;
+      collisionState.hitPosition = bounce.hitPosition ?? 0;
+    } else if (bounce.surface === 'wall' || bounce.surface === 'ceiling') {
+      collisionState[bounce.surface] = true;
+    }
+  }
+
+  collisionState.floor = checkFloorCollision(ballPhysics, state.config);
+
+  // The level is judged on the score after this frame's bounces, so the
+  // bounce that wins it completes it even if the ball then reaches the floor
+  const scored = bounces.reduce(applyBounce, { ...state.scoreData, timeElapsed });
+  let outcome: FrameOutcome = 'continue';
+  if (isLevelWon(state.currentLevel, scored, state.obstacles)) {
+    outcome = 'levelComplete';
+  } else if (collisionState.floor) {
+    outcome = 'lifeLost';
+  }
+
+  return { ballPhysics, collisionState, timeElapsed, bounces, contacts, outcome };
+};
+
+export const applyBounce = (scoreData: ScoreData, bounce: FrameBounce): ScoreData => {
+  const hitPosition = bounce.hitPosition || 0;
+  const bounceScore = calculateBounceScore(bounce.surface, hitPosition, scoreData.multiplier);
+  return updateScoreData(scoreData, bounceScore, bounce.surface, hitPosition);
+};
@@ -0,0 +1,79 @@
+// Predicts where a launch will go by running the world's own collision code
+// on a copy of the ball: it moves frame by frame with the current level's
+// gravity and bounce, reflecting off the walls, the ceiling and solid
+// obstacles, pushed by wind zones and gravity wells and carried through
+// speed boosts and portals. Obstacles are taken where they are at the moment
+// of aiming.
+
+import type { BallPhysics, BallPosition, GameConfig, Obstacle } from './types';
+import type { RunLaunch } from './runLog';
+import { createFrameColliders, moveBall } from './collision';
+import { integrateVelocity, launchBall } from './physics';
+import { applyObstacleForces, passThroughZones } from './obstacles';
+
+export type TrajectoryContact = {
+  surface: 'wall' | 'ceiling' | 'obstacle';
+  position: BallPosition;
+};
+
+export type TrajectoryPreview = {
+  points: BallPosition[]; // the ball's centre after each frame
+  teleports: number[]; // indexes of the points the ball reached through a portal, where the path jumps
+  contacts: TrajectoryContact[]; // predicted bounces, in order
+  landing: BallPosition | null; // where the ball comes back down to the platform, if it does in time
+};
+
+export type TrajectoryOptions = {
+  maxBounces: number; // bounces followed before the preview stops at the next contact
+  maxFrames?: number;
+};
+
+// Four seconds of flight at 60 Hz
+const DEFAULT_MAX_FRAMES = 240;
+
+export const predictTrajectory = (
+  ball: BallPhysics,
+  launch: RunLaunch,
+  config: GameConfig,
+  obstacles: Obstacle[],
+  { maxBounces, maxFrames = DEFAULT_MAX_FRAMES }: TrajectoryOptions
+): TrajectoryPreview => {
+  // No platform: the preview shows the flight up to the point the player has to catch it
+  const colliders = createFrameColliders([], obstacles);
+  const platformTop = config.canvasHeight - config.platformY - config.platformHeight / 2;
+  const points: BallPosition[] = [];
+  const contacts: TrajectoryContact[] = [];
+  const teleports: number[] = [];
+  let current = launchBall(ball, launch.angle, launch.power, config);
+  let zones: string[] = [];
+
+  for (let frame = 0; frame < maxFrames; frame++) {
+    const moved = moveBall(integrateVelocity(applyObstacleForces(current, obstacles), 1), 1, colliders, config);
+    const crossed: string[] = [];
+
+    for (const { collider, position } of moved.contacts) {
+      if (collider.kind === 'obstacle' && !collider.solid) {
+        crossed.push(collider.obstacle.id);
+        continue;
+      }
+      const surface = collider.kind === 'obstacle' ? 'obstacle' : collider.kind === 'ceiling' ? 'ceiling' : 'wall';
+      contacts.push({ surface, position });
+      if (contacts.length > maxBounces) {
+        points.push(position);
+        return { points, teleports, contacts, landing: null };
+      }
+    }
+
+    const pass = passThroughZones(moved.ballPhysics, obstacles, crossed, zones);
+    current = pass.ballPhysics;
+    zones = pass.inside;
+    if (pass.entries.some(entry => entry.exit)) teleports.push(points.length);
+
+    points.push(current.position);
+    if (current.velocity.vy > 0 && current.position.y + current.radius >= platformTop) {
+      return { points, teleports, contacts, landing: current.position };
+    }
+  }
+
+  return { points, teleports, contacts, landing: null };
+};
@@ -0,0 +1,159 @@
+// Physics and scoring types shared by the client game loop and server-side run verification.
+
+export type BallPosition = {
+  x: number;
+  y: number;
+};
+
+export type BallVelocity = {
+  vx: number;
+  vy: number;
+};
+
+export type BallPhysics = {
+  id: string; // tells the balls in play apart once multi-ball splits one
+  position: BallPosition;
+  velocity: BallVelocity;
+  radius: number;
+  gravity: number;
+  bounceCoefficient: number;
+  maxVelocity: number;
+};
+
+export type Platform = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  speed: number;
+};
+
+// How a level is won. 'bounces' uses targetBounces; 'survive' completes the
+// level when the time limit runs out instead of costing a life.
+export type WinCondition =
+  | { type: 'bounces' }
+  | { type: 'score'; points: number }
+  | { type: 'survive' }
+  | { type: 'bricks' }; // break every breakable brick
+
+export type LevelBackground = {
+  top: string; // CSS hex colour at the top of the playfield
+  bottom: string;
+};
+
+export type PowerUpSpawnTable = {
+  minInterval: number; // seconds between spawns
+  maxInterval: number;
+  weights: Partial<Record<PowerUpType, number>>; // types left out never spawn
+};
+
+export type LevelConfig = {
+  level: number;
+  ballSpeed: number;
+  platformWidth: number;
+  platformSpeed: number;
+  gravity: number;
+  bounceCoefficient: number;
+  targetBounces: number;
+  timeLimit: number; // seconds
+  // Optional layout from a level pack; built-in levels leave these unset
+  name?: string;
+  winCondition?: WinCondition;
+  obstacles?: Obstacle[];
+  powerUpSpawns?: PowerUpSpawnTable;
+  background?: LevelBackground;
+};
+
+// Campaign plays the config's levels in order; endless generates waves as it
+// goes; bricks plays the brick-breaker levels
+export type GameMode = 'campaign' | 'endless' | 'bricks';
+
+export type GameConfig = {
+  mode?: GameMode; // defaults to 'campaign'
+  coop?: boolean; // two paddles on one device
+  canvasWidth: number;
+  canvasHeight: number;
+  ballRadius: number;
+  platformHeight: number;
+  platformY: number; // Distance from bottom
+  maxVelocity: number;
+  initialBallY: number; // Starting Y position
+  levels: LevelConfig[]; // not played in endless mode
+};
+
+export type CollisionState = {
+  wall: boolean;
+  ceiling: boolean;
+  platform: boolean;
+  floor: boolean;
+  hitPosition?: number;
+};
+
+export type ScoreData = {
+  score: number;
+  lives: number;
+  level: number;
+  highScore: number;
+  bounceCount: number;
+  timeElapsed: number;
+  multiplier: number;
+  consecutiveBounces: number;
+  comboCount: number;
+  paddles?: PaddleScore[]; // co-op only, one per paddle
+};
+
+// A co-op paddle's share of the run: the platform bounces it made, the points
+// they scored and the longest combo it extended
+export type PaddleScore = {
+  score: number;
+  bounces: number;
+  bestCombo: number;
+};
+
+export type BounceSurface = 'platform' | 'wall' | 'ceiling' | 'floor';
+
+export type PowerUpType =
+  | 'multi-ball'
+  | 'larger-paddle'
+  | 'slow-mo'
+  | 'shield'
+  | 'score-multiplier'
+  | 'magnetic-paddle'
+  | 'shrink-paddle'
+  | 'reverse-controls';
+
+export type ObstacleType =
+  | 'static-block'
+  | 'moving-barrier'
+  | 'breakable-brick'
+  | 'speed-boost'
+  | 'portal'
+  | 'bumper'
+  | 'wind-zone'
+  | 'gravity-well';
+
+// The box a moving obstacle's edges stay within, in playfield pixels
+export type ObstaclePatrol = {
+  minX: number;
+  maxX: number;
+  minY: number;
+  maxY: number;
+};
+
+export type Obstacle = {
+  id: string;
+  type: ObstacleType;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  vx?: number;
+  vy?: number;
+  patrol?: ObstaclePatrol; // defaults to the whole playfield
+  health?: number;
+  maxHealth?: number;
+  points?: number; // scored for breaking a brick or hitting a bumper
+  dropsPowerUp?: boolean; // a brick that leaves a power-up where it breaks
+  link?: string; // portals with the same link are a pair
+  force?: number; // a wind zone's push (positive is rightwards) or a gravity well's pull, per frame
+};
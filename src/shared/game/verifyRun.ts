@@ -0,0 +1,85 @@
+import type { GameConfig, ScoreData } from './types';
+import type { DecodedRunLog, RunLog } from './runLog';
+import { RUN_LOG_VERSION, decodeRunLog, getRunConfig, getRunStepInput } from './runLog';
+import { createPhysicsWorld, isValidLaunch, launchWorldBall, stepWorld } from './world';
+
+export type RunRejectionReason =
+  | 'unsupported_version'
+  | 'malformed_log'
+  | 'invalid_input'
+  | 'desync'
+  | 'score_mismatch';
+
+export type RunVerificationResult =
+  | { valid: true; scoreData: ScoreData }
+  | { valid: false; reason: RunRejectionReason; message: string };
+
+export type RunVerificationOptions = {
+  config: GameConfig;
+  maxTicks: number;
+  scoreTolerance: number; // absolute number of points the claim may differ by
+};
+
+type SimulationResult =
+  | { valid: true; scoreData: ScoreData }
+  | { valid: false; reason: 'invalid_input' | 'desync'; message: string };
+
+// Replays the recorded inputs through the same fixed-step world the client runs.
+export const simulateRun = (run: DecodedRunLog, config: GameConfig): SimulationResult => {
+  if (config.levels.length === 0) {
+    return { valid: false, reason: 'invalid_input', message: 'Game config has no levels' };
+  }
+
+  let world = createPhysicsWorld(getRunConfig(run, config), run.seed);
+
+  for (let tick = 0; tick <= run.ticks; tick++) {
+    const launch = run.launches.get(tick);
+    if (launch) {
+      if (world.phase !== 'aiming') {
+        return { valid: false, reason: 'desync', message: `Launch at tick ${tick} while ${world.phase}` };
+      }
+      if (!isValidLaunch(launch)) {
+        return { valid: false, reason: 'invalid_input', message: `Launch at tick ${tick} is out of range` };
+      }
+      world = launchWorldBall(world, launch);
+    }
+
+    if (tick === run.ticks) break;
+
+    if (world.phase !== 'playing') {
+      return { valid: false, reason: 'desync', message: `Step at tick ${tick} while ${world.phase}` };
+    }
+
+    world = stepWorld(world, getRunStepInput(run, tick)).world;
+  }
+
+  return { valid: true, scoreData: world.scoreData };
+};
+
+export const verifyRunLog = (
+  log: RunLog,
+  claimedScore: number,
+  options: RunVerificationOptions
+): RunVerificationResult => {
+  if (log.version !== RUN_LOG_VERSION) {
+    return { valid: false, reason: 'unsupported_version', message: `Unsupported run log version ${log.version}` };
+  }
+
+  const run = decodeRunLog(log, options.maxTicks);
+  if (!run) {
+    return { valid: false, reason: 'malformed_log', message: 'Run log could not be decoded' };
+  }
+
+  const result = simulateRun(run, options.config);
+  if (!result.valid) return result;
+
+  if (Math.abs(result.scoreData.score - claimedScore) > options.scoreTolerance) {
+    return {
+      valid: false,
+      reason: 'score_mismatch',
+      message: `Claimed score ${claimedScore} does not match replayed score ${result.scoreData.score}`,
+    };
+  }
+
+  return result;
+};
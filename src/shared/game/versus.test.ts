@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import type { LevelPack } from './levelPack';
+import { MAX_BRICK_COLUMNS, MAX_BRICK_ROWS } from './brickBreaker';
+import { MAX_LEVEL_OBSTACLES, createPackGameConfig, loadLevelPack } from './levelPack';
+import { createDefaultGameConfig } from './physics';
+import { MAX_VERSUS_OBSTACLES, applyVersusAttack, createVersusField, isVersusPlayerMessage } from './versus';
+import type { WorldCommand } from './world';
+import { createPhysicsWorld, launchWorldBall, stepWorld } from './world';
+import { createRunRecorder, encodeRunLog, recordRunCommands, recordRunLaunch, recordRunStep } from './runLog';
+import { createReplay, createReplayTimeline, parseReplay, seekReplay, serializeReplay } from './replay';
+
+const config = createDefaultGameConfig();
+
+// One level with as many obstacles as a pack allows and a full brick grid under them
+const fullPack: LevelPack = {
+  version: 1,
+  id: 'full-grid',
+  name: 'Full Grid',
+  levels: [
+    {
+      ballSpeed: 10,
+      platformWidth: 100,
+      platformSpeed: 10,
+      gravity: 3,
+      bounceCoefficient: 1,
+      targetBounces: 10,
+      timeLimit: 120,
+      obstacles: Array.from({ length: MAX_LEVEL_OBSTACLES }, (_, index) => ({
+        type: 'static-block' as const,
+        x: 20 + (index % 20) * 38,
+        y: 400 + Math.floor(index / 20) * 30,
+        width: 20,
+        height: 10,
+      })),
+      bricks: { rows: Array.from({ length: MAX_BRICK_ROWS }, () => '1'.repeat(MAX_BRICK_COLUMNS)) },
+    },
+  ],
+};
+
+describe('isVersusPlayerMessage', () => {
+  it('accepts the field of a pack level with a full brick grid and every attack obstacle', () => {
+    const loaded = loadLevelPack(fullPack, config);
+    if (!loaded.ok) throw new Error(loaded.errors.map(error => error.path).join(', '));
+
+    let world = createPhysicsWorld(createPackGameConfig(config, loaded.pack), 1);
+    for (let attack = 0; attack < MAX_VERSUS_OBSTACLES; attack++) {
+      world = applyVersusAttack(world, 'obstacle');
+    }
+    const field = createVersusField(world);
+
+    expect(field.obstacles).toHaveLength(
+      MAX_LEVEL_OBSTACLES + MAX_BRICK_ROWS * MAX_BRICK_COLUMNS + MAX_VERSUS_OBSTACLES
+    );
+    expect(isVersusPlayerMessage({ type: 'field', player: 'u/one', field })).toBe(true);
+  });
+});
+
+describe('versus attacks', () => {
+  it('are recorded in the run log and land again when the run is replayed', () => {
+    const recorder = createRunRecorder(7);
+    const launch = { angle: 80, power: 60 };
+    recordRunLaunch(recorder, 0, launch);
+    let world = launchWorldBall(createPhysicsWorld(config, recorder.seed), launch);
+
+    for (let step = 0; step < 20 && world.phase === 'playing'; step++) {
+      const commands: WorldCommand[] = step === 10 ? [{ type: 'versusAttack', attack: 'obstacle' }] : [];
+      const input = { platformX: world.platform.x, commands };
+      recordRunStep(recorder, world.tick, input.platformX);
+      recordRunCommands(recorder, world.tick, commands);
+      world = stepWorld(world, input).world;
+    }
+    expect(world.obstacles.some(obstacle => obstacle.id.startsWith('versus_'))).toBe(true);
+
+    const replay = parseReplay(serializeReplay(createReplay(encodeRunLog(recorder), 'campaign', null, 0)));
+    const timeline = replay && createReplayTimeline(replay, config, 1000);
+    if (!timeline) throw new Error('The replay did not load');
+
+    expect(seekReplay(timeline, world.tick).obstacles).toEqual(world.obstacles);
+  });
+});
@@ -0,0 +1,187 @@
+// Two-player versus mode. Each player simulates their own field and publishes
+// snapshots of it for the opponent to draw; long combos send attacks that are
+// applied to the opponent's world between steps.
+
+import type { BallPosition, Obstacle, ObstacleType, Platform } from './types';
+import type { PhysicsWorld } from './world';
+import type { GeneratedObstacleType } from './levelGenerator';
+import { generateObstacle } from './levelGenerator';
+import { MAX_LEVEL_OBSTACLES, OBSTACLE_TYPES } from './levelPack';
+import { MAX_BRICK_COLUMNS, MAX_BRICK_ROWS } from './brickBreaker';
+import { createRandomSource, nextRandom } from './random';
+
+// Every this many platform bounces in a row sends one attack
+export const VERSUS_COMBO_STEP = 5;
+export const VERSUS_SPEED_UP = 1.25;
+// Attack obstacles stop piling up past this many on a level
+export const MAX_VERSUS_OBSTACLES = 6;
+export const VERSUS_FIELD_INTERVAL_MS = 200;
+// A pack level's own obstacles, its brick grid laid out in full and the attacks
+const MAX_VERSUS_FIELD_OBSTACLES = MAX_LEVEL_OBSTACLES + MAX_BRICK_ROWS * MAX_BRICK_COLUMNS + MAX_VERSUS_OBSTACLES;
+
+const VERSUS_OBSTACLE_PREFIX = 'versus_';
+const VERSUS_OBSTACLE_TYPES: GeneratedObstacleType[] = ['static-block', 'moving-barrier'];
+
+export type VersusAttack = 'obstacle' | 'speedUp';
+
+export type VersusFieldObstacle = Pick<Obstacle, 'type' | 'x' | 'y' | 'width' | 'height'>;
+
+// What a player's opponent sees of their field
+export type VersusField = {
+  ball: BallPosition;
+  ballRadius: number;
+  platform: Pick<Platform, 'x' | 'y' | 'width' | 'height'>;
+  obstacles: VersusFieldObstacle[];
+  score: number;
+  lives: number;
+  level: number;
+  combo: number;
+};
+
+// Sent on the match's channel. `player` is the sender; the server only relays
+// messages players send as themselves, and sends `start` itself.
+export type VersusMessage =
+  | { type: 'start'; matchId: string; players: [string, string]; seed: number }
+  | { type: 'field'; player: string; field: VersusField }
+  | { type: 'attack'; player: string; attack: VersusAttack }
+  | { type: 'finish'; player: string; score: number }
+  | { type: 'leave'; player: string };
+
+export type VersusPlayerMessage = Exclude<VersusMessage, { type: 'start' }>;
+
+export type VersusResult = 'won' | 'lost' | 'draw';
+
+// Realtime channel names may only contain letters, numbers and underscores
+export const getVersusChannel = (matchId: string): string => `versus_${matchId}`;
+
+// Returns the attack a combo going from `previous` to `current` bounces earns,
+// alternating obstacles and speed-ups as the combo grows
+export const getComboAttack = (previous: number, current: number): VersusAttack | null => {
+  const step = Math.floor(current / VERSUS_COMBO_STEP);
+  if (step === 0 || step <= Math.floor(previous / VERSUS_COMBO_STEP)) return null;
+  return step % 2 === 0 ? 'speedUp' : 'obstacle';
+};
+
+const addAttackObstacle = (world: PhysicsWorld): PhysicsWorld => {
+  const attackObstacles = world.obstacles.filter(obstacle => obstacle.id.startsWith(VERSUS_OBSTACLE_PREFIX));
+  if (attackObstacles.length >= MAX_VERSUS_OBSTACLES) return world;
+
+  const [value, rng] = nextRandom(world.rng);
+  const random = createRandomSource(Math.floor(value * 0x100000000));
+  const type = VERSUS_OBSTACLE_TYPES[Math.floor(random() * VERSUS_OBSTACLE_TYPES.length)]!;
+  const obstacle: Obstacle = {
+    ...generateObstacle(random, world.config, type),
+    id: `${VERSUS_OBSTACLE_PREFIX}${world.tick}_${attackObstacles.length}`,
+  };
+
+  return { ...world, rng, obstacles: [...world.obstacles, obstacle] };
+};
+
+// Speed-ups hit the ball in play. One that lands while the player is aiming
+// drops an obstacle instead, so no attack is wasted.
+export const applyVersusAttack = (world: PhysicsWorld, attack: VersusAttack): PhysicsWorld => {
+  if (world.phase === 'over') return world;
+  if (attack === 'obstacle' || world.phase !== 'playing') return addAttackObstacle(world);
+
+  const { velocity, maxVelocity } = world.ballPhysics;
+  const speedUp = (value: number) => Math.max(-maxVelocity, Math.min(maxVelocity, value * VERSUS_SPEED_UP));
+
+  return {
+    ...world,
+    ballPhysics: { ...world.ballPhysics, velocity: { vx: speedUp(velocity.vx), vy: speedUp(velocity.vy) } },
+  };
+};
+
+export const createVersusField = (
+  world: Pick<PhysicsWorld, 'ballPhysics' | 'platform' | 'obstacles' | 'scoreData'>
+): VersusField => ({
+  ball: world.ballPhysics.position,
+  ballRadius: world.ballPhysics.radius,
+  platform: {
+    x: world.platform.x,
+    y: world.platform.y,
+    width: world.platform.width,
+    height: world.platform.height,
+  },
+  obstacles: world.obstacles.map(({ type, x, y, width, height }) => ({ type, x, y, width, height })),
+  score: world.scoreData.score,
+  lives: world.scoreData.lives,
+  level: world.scoreData.level,
+  combo: world.scoreData.consecutiveBounces,
+});
+
+export const getVersusResult = (score: number, opponentScore: number): VersusResult =>
+  score === opponentScore ? 'draw' : score > opponentScore ? 'won' : 'lost';
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isVersusField = (value: unknown): value is VersusField =>
+  isRecord(value) &&
+  isRecord(value.ball) &&
+  isFiniteNumber(value.ball.x) &&
+  isFiniteNumber(value.ball.y) &&
+  isFiniteNumber(value.ballRadius) &&
+  isRecord(value.platform) &&
+  ['x', 'y', 'width', 'height'].every(key => isFiniteNumber((value.platform as Record<string, unknown>)[key])) &&
+  Array.isArray(value.obstacles) &&
+  value.obstacles.length <= MAX_VERSUS_FIELD_OBSTACLES &&
+  value.obstacles.every(
+    obstacle =>
+      isRecord(obstacle) &&
+      OBSTACLE_TYPES.includes(obstacle.type as ObstacleType) &&
+      ['x', 'y', 'width', 'height'].every(key => isFiniteNumber(obstacle[key]))
+  ) &&
+  ['score', 'lives', 'level', 'combo'].every(key => isFiniteNumber(value[key]));
+
+// Checks a message a player asked to relay. `start` is never accepted from players.
+export const isVersusPlayerMessage = (value: unknown): value is VersusPlayerMessage => {
+  if (!isRecord(value) || typeof value.player !== 'string') return false;
+
+  switch (value.type) {
+    case 'field':
+      return isVersusField(value.field);
+    case 'attack':
+      return value.attack === 'obstacle' || value.attack === 'speedUp';
+    case 'finish':
+      return isFiniteNumber(value.score);
+    case 'leave':
+      return true;
+    default:
+      return false;
+  }
+};
+
+// Copies only the fields each message type carries, so nothing else a sender
+// adds to a checked message is relayed to their opponent
+export const pickVersusPlayerMessage = (message: VersusPlayerMessage): VersusPlayerMessage => {
+  const { player } = message;
+
+  switch (message.type) {
+    case 'field': {
+      const { ball, ballRadius, platform, obstacles, score, lives, level, combo } = message.field;
+      return {
+        type: 'field',
+        player,
+        field: {
+          ball: { x: ball.x, y: ball.y },
+          ballRadius,
+          platform: { x: platform.x, y: platform.y, width: platform.width, height: platform.height },
+          obstacles: obstacles.map(({ type, x, y, width, height }) => ({ type, x, y, width, height })),
+          score,
+          lives,
+          level,
+          combo,
+        },
+      };
+    }
+    case 'attack':
+      return { type: 'attack', player, attack: message.attack };
+    case 'finish':
+      return { type: 'finish', player, score: message.score };
+    case 'leave':
+      return { type: 'leave', player };
+  }
+};
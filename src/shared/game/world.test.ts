@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import type { Obstacle } from './types';
+import type { PhysicsWorld } from './world';
+import { createDefaultGameConfig } from './physics';
+import { applyPowerUp } from './powerUps';
+import { createPhysicsWorld, isWorldCommand, launchWorldBall, stepWorld } from './world';
+
+const createPlayingWorld = (): PhysicsWorld =>
+  launchWorldBall(createPhysicsWorld(createDefaultGameConfig(), 1), { angle: 90, power: 50 });
+
+describe('world commands', () => {
+  it('takes a ball out of play, but never the last one', () => {
+    const world = createPlayingWorld();
+    const split = applyPowerUp(world, 'multi-ball', world.ballPhysics, world.tick);
+    const [first, second] = split.extraBalls;
+    const input = { platformX: world.platform.x };
+
+    const removed = stepWorld(split, { ...input, commands: [{ type: 'removeBall', ballId: first!.id }] }).world;
+    const ballIds = [removed.ballPhysics, ...removed.extraBalls].map(ball => ball.id);
+    expect(ballIds).toEqual([world.ballPhysics.id, second!.id]);
+
+    const lastBall = stepWorld(world, { ...input, commands: [{ type: 'removeBall', ballId: world.ballPhysics.id }] });
+    expect(lastBall.world.ballPhysics.id).toBe(world.ballPhysics.id);
+  });
+
+  it('places, changes and takes away obstacles', () => {
+    const world = createPlayingWorld();
+    const input = { platformX: world.platform.x };
+    const block: Obstacle = { id: 'block', type: 'static-block', x: 100, y: 100, width: 40, height: 20 };
+
+    const placed = stepWorld(world, { ...input, commands: [{ type: 'addObstacle', obstacle: block }] }).world;
+    expect(placed.obstacles).toContainEqual(block);
+
+    const moved = { ...block, x: 200 };
+    const updated = stepWorld(placed, { ...input, commands: [{ type: 'updateObstacle', obstacle: moved }] }).world;
+    expect(updated.obstacles).toContainEqual(moved);
+    expect(updated.obstacles).not.toContainEqual(block);
+
+    const removed = stepWorld(updated, { ...input, commands: [{ type: 'removeObstacle', obstacleId: 'block' }] }).world;
+    expect(removed.obstacles.some(obstacle => obstacle.id === 'block')).toBe(false);
+  });
+
+  it('rejects commands a run log could not have recorded', () => {
+    const block = { id: 'block', type: 'static-block', x: 100, y: 100, width: 40, height: 20 };
+
+    expect(isWorldCommand({ type: 'removeBall', ballId: 'ball_1' })).toBe(true);
+    expect(isWorldCommand({ type: 'removeBall', ballId: 1 })).toBe(false);
+    expect(isWorldCommand({ type: 'addObstacle', obstacle: block })).toBe(true);
+    expect(isWorldCommand({ type: 'addObstacle', obstacle: { ...block, type: 'lava' } })).toBe(false);
+    expect(isWorldCommand({ type: 'updateObstacle', obstacle: { ...block, patrol: { minX: 0 } } })).toBe(false);
+    expect(isWorldCommand({ type: 'setScore', score: 1_000_000 })).toBe(false);
+  });
+});
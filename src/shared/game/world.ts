@@ -0,0 +1,696 @@
+// Framework-free game simulation. The world advances in fixed steps so a run
+// plays out identically at any display refresh rate, and every step returns a
+// new world plus the events it produced for the caller to render or replay.
+// Everything that can change a run, obstacles and power-ups included, is
+// stepped here from the seeded RNG and the recorded input alone, so replays
+// and server-side run verification play a run out exactly as the player did.
+
+import type {
+  BallPhysics,
+  BallPosition,
+  BounceSurface,
+  CollisionState,
+  GameConfig,
+  LevelConfig,
+  Obstacle,
+  ObstacleType,
+  Platform,
+  PowerUpType,
+  ScoreData,
+} from './types';
+import type { RunLaunch } from './runLog';
+import type { RngState } from './random';
+import type { ActivePowerUp, PowerUpModifiers } from './powerUps';
+import type { VersusAttack } from './versus';
+import { applyVersusAttack } from './versus';
+import { OBSTACLE_TYPES } from './levelPack';
+import { createRng, nextRandom } from './random';
+import { generateEndlessWave, isEndlessConfig } from './endless';
+import { createCoopPlatforms, createPaddleScores, creditPaddle, isCoopConfig, moveCoopPlatform } from './coop';
+import {
+  calculateComboMultiplier,
+  calculateLevelScore,
+  checkFloorCollision,
+  createInitialBallPhysics,
+  createInitialCollisionState,
+  createInitialPlatform,
+  createInitialScoreData,
+  launchBall,
+  loseLife,
+  nextLevel,
+  resetCombo,
+  updatePlatformPosition,
+} from './physics';
+import type { BallStep, FrameBounce } from './simulation';
+import { FRAME_MS, applyBounce, collideBalls, isLevelWon, stepBall, stepPlayingFrame } from './simulation';
+import {
+  PICKUP_LIFETIME_TICKS,
+  POWER_UP_RADIUS,
+  applyPowerUp,
+  endPowerUp,
+  getPowerUpModifiers,
+  rollPowerUpDrop,
+  rollPowerUpSpawn,
+  tickPowerUps,
+} from './powerUps';
+import {
+  applyObstacleForces,
+  damageObstacle,
+  getBrickPoints,
+  getBumperPoints,
+  moveObstacle,
+  passThroughZones,
+} from './obstacles';
+
+export const STEP_MS = FRAME_MS;
+export const STEP_DELTA_TIME = 1; // deltaTime units simulated per step
+
+// Caps catch-up after a stall (e.g. a backgrounded tab) at a quarter second
+export const MAX_STEPS_PER_ADVANCE = 15;
+
+export type WorldPhase = 'aiming' | 'playing' | 'over';
+
+export type WorldPickup = {
+  id: string;
+  kind: PowerUpType;
+  position: BallPosition;
+  radius: number;
+  expiresAt: number; // the tick it disappears on if it has not been collected
+};
+
+// The level's next power-up spawn, numbered from 0 at the start of each level
+export type PickupSchedule = {
+  index: number;
+  tick: number;
+};
+
+export type PhysicsWorld = {
+  tick: number;
+  phase: WorldPhase;
+  seed: number; // the run's seed, which power-up spawns are derived from
+  rng: RngState;
+  config: GameConfig;
+  currentLevel: LevelConfig;
+  ballPhysics: BallPhysics; // the lead ball; when it falls with others still in play, the next one takes over
+  platform: Platform;
+  partnerPlatform: Platform | null; // the second paddle in co-op
+  collisionState: CollisionState;
+  scoreData: ScoreData;
+  obstacles: Obstacle[]; // the current level's layout, moved as the world steps
+  pickups: WorldPickup[];
+  nextPickupId: number;
+  nextPickup: PickupSchedule;
+  activePowerUps: ActivePowerUp[];
+  extraBalls: BallPhysics[]; // split off by multi-ball; every ball plays on its own until it reaches the floor
+  nextBallId: number;
+  ballCombos: Record<string, number>; // consecutive platform bounces of each ball in play, by id
+  zones: Record<string, string[]>; // the speed-boost zones and portals each ball is inside, by ball id
+  shieldBounces: number; // floor hits the shield still absorbs
+};
+
+// A change made to the world from outside the simulation, such as an attack
+// from a versus opponent. Commands are recorded in the run log with the step
+// they were applied on, so replays and verification apply them too.
+export type WorldCommand =
+  | { type: 'versusAttack'; attack: VersusAttack }
+  | { type: 'removeBall'; ballId: string }
+  | { type: 'addObstacle'; obstacle: Obstacle } // replaces an obstacle with the same id
+  | { type: 'updateObstacle'; obstacle: Obstacle }
+  | { type: 'removeObstacle'; obstacleId: string };
+
+// Player input sampled once per step
+export type WorldInput = {
+  platformX: number;
+  partnerPlatformX?: number; // co-op only; the partner paddle stays put without it
+  commands?: WorldCommand[]; // applied, in order, before the step plays
+};
+
+export type WorldEvent =
+  | {
+      type: 'bounce';
+      tick: number;
+      surface: BounceSurface;
+      hitPosition?: number;
+      paddle?: number;
+      position: BallPosition;
+    }
+  | { type: 'floorHit'; tick: number; position: BallPosition } // the last ball in play fell
+  | { type: 'ballLost'; tick: number; ballId: string; position: BallPosition } // one of several balls fell
+  | { type: 'ballHit'; tick: number; position: BallPosition } // two balls collided
+  | { type: 'obstacleHit'; tick: number; obstacleId: string; position: BallPosition }
+  | { type: 'brickBroken'; tick: number; obstacle: Obstacle; points: number; position: BallPosition }
+  | { type: 'speedBoost'; tick: number; obstacleId: string; position: BallPosition }
+  | { type: 'bumperHit'; tick: number; obstacleId: string; points: number; position: BallPosition }
+  | { type: 'teleport'; tick: number; obstacleId: string; exitId: string; from: BallPosition; to: BallPosition }
+  | { type: 'timeUp'; tick: number }
+  | { type: 'pickup'; tick: number; pickup: WorldPickup }
+  | { type: 'powerUpExpired'; tick: number; kind: PowerUpType }
+  | { type: 'shieldHit'; tick: number; position: BallPosition }
+  | { type: 'levelComplete'; tick: number; level: number; bonus: number } // bonus is only earned on brick levels
+  | { type: 'gameOver'; tick: number };
+
+export type WorldStepResult = {
+  world: PhysicsWorld;
+  events: WorldEvent[];
+};
+
+// Campaign levels come from the config. Endless waves are generated as they
+// start, seeded from the world's RNG so a replay generates the same ones.
+const getLevelConfig = (config: GameConfig, level: number, rng: RngState): [LevelConfig | undefined, RngState] => {
+  if (!isEndlessConfig(config)) {
+    return [config.levels.find(levelConfig => levelConfig.level === level), rng];
+  }
+
+  const [value, next] = nextRandom(rng);
+  return [generateEndlessWave(level, Math.floor(value * 0x100000000), config), next];
+};
+
+const schedulePickup = (
+  seed: number,
+  config: GameConfig,
+  level: LevelConfig,
+  index: number,
+  fromTick: number
+): PickupSchedule => ({
+  index,
+  tick: fromTick + rollPowerUpSpawn(seed, level.level, index, config, level.powerUpSpawns).delayTicks,
+});
+
+// Places the level's scheduled power-up and schedules the one after it
+const spawnPickup = (world: PhysicsWorld, tick: number): PhysicsWorld => {
+  const { seed, config, currentLevel, nextPickup } = world;
+  const { kind, position } = rollPowerUpSpawn(seed, currentLevel.level, nextPickup.index, config, currentLevel.powerUpSpawns);
+  const pickup: WorldPickup = {
+    id: `pickup_${world.nextPickupId}`,
+    kind,
+    position,
+    radius: POWER_UP_RADIUS,
+    expiresAt: tick + PICKUP_LIFETIME_TICKS,
+  };
+
+  return {
+    ...world,
+    pickups: [...world.pickups, pickup],
+    nextPickupId: world.nextPickupId + 1,
+    nextPickup: schedulePickup(seed, config, currentLevel, nextPickup.index + 1, tick),
+  };
+};
+
+// A brick that drops a power-up leaves it where it broke
+const dropPickup = (world: PhysicsWorld, brick: Obstacle, tick: number): PhysicsWorld => {
+  const { seed, currentLevel } = world;
+  const pickup: WorldPickup = {
+    id: `pickup_${world.nextPickupId}`,
+    kind: rollPowerUpDrop(seed, currentLevel.level, brick.id, currentLevel.powerUpSpawns),
+    position: { x: brick.x, y: brick.y },
+    radius: POWER_UP_RADIUS,
+    expiresAt: tick + PICKUP_LIFETIME_TICKS,
+  };
+
+  return { ...world, pickups: [...world.pickups, pickup], nextPickupId: world.nextPickupId + 1 };
+};
+
+export const createPhysicsWorld = (config: GameConfig, seed: number): PhysicsWorld => {
+  const [currentLevel, rng] = getLevelConfig(config, 1, createRng(seed));
+  if (!currentLevel) {
+    throw new Error('Game config has no levels');
+  }
+
+  const coop = isCoopConfig(config);
+  const [platform, partnerPlatform] = coop
+    ? createCoopPlatforms(config, currentLevel)
+    : [createInitialPlatform(config, currentLevel), null];
+
+  return {
+    tick: 0,
+    phase: 'aiming',
+    seed,
+    rng,
+    config,
+    currentLevel,
+    ballPhysics: createInitialBallPhysics(config, currentLevel),
+    platform,
+    partnerPlatform,
+    collisionState: createInitialCollisionState(),
+    scoreData: coop ? { ...createInitialScoreData(), paddles: createPaddleScores() } : createInitialScoreData(),
+    obstacles: currentLevel.obstacles ?? [],
+    pickups: [],
+    nextPickupId: 0,
+    nextPickup: schedulePickup(seed, config, currentLevel, 0, 0),
+    activePowerUps: [],
+    extraBalls: [],
+    nextBallId: 1,
+    ballCombos: {},
+    zones: {},
+    shieldBounces: 0,
+  };
+};
+
+export const isValidLaunch = ({ angle, power }: RunLaunch): boolean =>
+  Number.isFinite(angle) && Number.isFinite(power) && angle >= 0 && angle <= 180 && power >= 0 && power <= 100;
+
+// Launches happen between steps, so they take effect on the world's current
+// tick. The level's clock keeps running across relaunches; it only restarts
+// when a level starts or runs out.
+export const launchWorldBall = (world: PhysicsWorld, launch: RunLaunch): PhysicsWorld => {
+  if (world.phase !== 'aiming') return world;
+
+  return {
+    ...world,
+    phase: 'playing',
+    ballPhysics: launchBall(world.ballPhysics, launch.angle, launch.power, world.config),
+  };
+};
+
+const overlapsPickup = (ball: BallPhysics, pickup: WorldPickup): boolean => {
+  const dx = ball.position.x - pickup.position.x;
+  const dy = ball.position.y - pickup.position.y;
+  const reach = ball.radius + pickup.radius;
+  return dx * dx + dy * dy <= reach * reach;
+};
+
+const resetBall = (world: PhysicsWorld): BallPhysics => createInitialBallPhysics(world.config, world.currentLevel);
+
+type ObstacleStep = {
+  obstacles: Obstacle[];
+  balls: BallPhysics[];
+  points: number; // scored for bricks broken and bumpers hit this step
+  drops: Obstacle[]; // broken bricks that drop a power-up
+  zones: Record<string, string[]>;
+};
+
+// Applies what each ball's step did to the obstacles it touched. Bricks lose
+// a point of health per hit and break at none, bumpers score on every hit,
+// and speed-boost zones and portals act on a ball once as it enters.
+const applyObstacleContacts = (
+  obstacles: Obstacle[],
+  steps: BallStep[],
+  previousZones: Record<string, string[]>,
+  tick: number,
+  events: WorldEvent[]
+): ObstacleStep => {
+  let remaining = obstacles;
+  let points = 0;
+  const drops: Obstacle[] = [];
+  const zones: Record<string, string[]> = {};
+
+  const balls = steps.map(({ ballPhysics, contacts }) => {
+    const crossed: string[] = [];
+    for (const { collider, position } of contacts) {
+      if (collider.kind !== 'obstacle') continue;
+      const { id, type } = collider.obstacle;
+      if (!collider.solid) {
+        crossed.push(id);
+        continue;
+      }
+      if (type === 'bumper') {
+        points += getBumperPoints(collider.obstacle);
+        events.push({ type: 'bumperHit', tick, obstacleId: id, points: getBumperPoints(collider.obstacle), position });
+        continue;
+      }
+
+      events.push({ type: 'obstacleHit', tick, obstacleId: id, position });
+      const brick = type === 'breakable-brick' && remaining.find(obstacle => obstacle.id === id);
+      if (!brick) continue; // not a brick, or broken by another ball this step
+
+      const damaged = damageObstacle(brick);
+      if (damaged) {
+        remaining = remaining.map(obstacle => (obstacle === brick ? damaged : obstacle));
+      } else {
+        remaining = remaining.filter(obstacle => obstacle !== brick);
+        points += getBrickPoints(brick);
+        events.push({ type: 'brickBroken', tick, obstacle: brick, points: getBrickPoints(brick), position });
+        if (brick.dropsPowerUp) drops.push(brick);
+      }
+    }
+
+    const pass = passThroughZones(ballPhysics, remaining, crossed, previousZones[ballPhysics.id] ?? []);
+    zones[ballPhysics.id] = pass.inside;
+
+    for (const { zone, exit } of pass.entries) {
+      if (exit) {
+        const to = pass.ballPhysics.position;
+        events.push({ type: 'teleport', tick, obstacleId: zone.id, exitId: exit.id, from: ballPhysics.position, to });
+      } else {
+        events.push({ type: 'speedBoost', tick, obstacleId: zone.id, position: ballPhysics.position });
+      }
+    }
+    return pass.ballPhysics;
+  });
+
+  return { obstacles: remaining, balls, points, drops, zones };
+};
+
+// Any ball in play collects the pickups it touches; the rest stay until they expire
+const collectPickups = (world: PhysicsWorld, tick: number, events: WorldEvent[]): PhysicsWorld => {
+  const balls = [world.ballPhysics, ...world.extraBalls];
+  const pickups: WorldPickup[] = [];
+  let next = world;
+
+  for (const pickup of world.pickups) {
+    const collector = balls.find(ball => overlapsPickup(ball, pickup));
+    if (collector) {
+      events.push({ type: 'pickup', tick, pickup });
+      next = applyPowerUp(next, pickup.kind, collector, tick);
+    } else if (pickup.expiresAt > tick) {
+      pickups.push(pickup);
+    }
+  }
+
+  return { ...next, pickups };
+};
+
+// The shield lies along the floor and sends the ball straight back up
+const bounceOffShield = (ball: BallPhysics, config: GameConfig): BallPhysics => ({
+  ...ball,
+  position: { ...ball.position, y: config.canvasHeight - ball.radius },
+  velocity: { ...ball.velocity, vy: -Math.abs(ball.velocity.vy) },
+});
+
+// Scores one ball's bounce against that ball's own combo. The combo shown for
+// the run is the best one among the balls still in play.
+const scoreBallBounce = (
+  scoreData: ScoreData,
+  combos: Record<string, number>,
+  ballId: string,
+  bounce: FrameBounce,
+  scoreMultiplier: number
+): ScoreData => {
+  const combo = combos[ballId] ?? 0;
+  const before = { ...scoreData, consecutiveBounces: combo, multiplier: calculateComboMultiplier(combo) };
+  let after = applyBounce(before, bounce);
+  if (scoreMultiplier !== 1) {
+    after = { ...after, score: before.score + (after.score - before.score) * scoreMultiplier };
+  }
+  if (bounce.surface !== 'platform') {
+    after = resetCombo(after);
+  } else if (bounce.paddle !== undefined) {
+    after = creditPaddle(before, after, bounce.paddle);
+  }
+  combos[ballId] = after.consecutiveBounces;
+  return after;
+};
+
+const getRunCombo = (scoreData: ScoreData, combos: Record<string, number>, balls: BallPhysics[]): ScoreData => {
+  const consecutiveBounces = Math.max(0, ...balls.map(ball => combos[ball.id] ?? 0));
+  return { ...scoreData, consecutiveBounces, multiplier: calculateComboMultiplier(consecutiveBounces) };
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isOptional = (value: unknown, check: (value: unknown) => boolean): boolean => value === undefined || check(value);
+
+const isObstacle = (value: unknown): value is Obstacle =>
+  isRecord(value) &&
+  typeof value.id === 'string' &&
+  OBSTACLE_TYPES.includes(value.type as ObstacleType) &&
+  ['x', 'y', 'width', 'height'].every(key => isFiniteNumber(value[key])) &&
+  ['vx', 'vy', 'health', 'maxHealth', 'points', 'force'].every(key => isOptional(value[key], isFiniteNumber)) &&
+  isOptional(
+    value.patrol,
+    patrol => isRecord(patrol) && ['minX', 'maxX', 'minY', 'maxY'].every(key => isFiniteNumber(patrol[key]))
+  ) &&
+  isOptional(value.dropsPowerUp, dropsPowerUp => typeof dropsPowerUp === 'boolean') &&
+  isOptional(value.link, link => typeof link === 'string');
+
+// Checks a command read from an untrusted run log
+export const isWorldCommand = (value: unknown): value is WorldCommand => {
+  if (!isRecord(value)) return false;
+
+  switch (value.type) {
+    case 'versusAttack':
+      return value.attack === 'obstacle' || value.attack === 'speedUp';
+    case 'removeBall':
+      return typeof value.ballId === 'string';
+    case 'addObstacle':
+    case 'updateObstacle':
+      return isObstacle(value.obstacle);
+    case 'removeObstacle':
+      return typeof value.obstacleId === 'string';
+    default:
+      return false;
+  }
+};
+
+// Takes a ball out of play by id. The last ball in play stays: only reaching
+// the floor ends a life.
+const removeWorldBall = (world: PhysicsWorld, ballId: string): PhysicsWorld => {
+  const balls = [world.ballPhysics, ...world.extraBalls];
+  const remaining = balls.filter(ball => ball.id !== ballId);
+  if (remaining.length === balls.length || remaining.length === 0) return world;
+
+  const { [ballId]: _removed, ...ballCombos } = world.ballCombos;
+  const { [ballId]: _zones, ...zones } = world.zones;
+  return { ...world, ballPhysics: remaining[0]!, extraBalls: remaining.slice(1), ballCombos, zones };
+};
+
+// An update or removal for an id the level does not have is ignored
+const addWorldObstacle = (world: PhysicsWorld, obstacle: Obstacle): PhysicsWorld => ({
+  ...world,
+  obstacles: [...world.obstacles.filter(existing => existing.id !== obstacle.id), obstacle],
+});
+
+const updateWorldObstacle = (world: PhysicsWorld, obstacle: Obstacle): PhysicsWorld => ({
+  ...world,
+  obstacles: world.obstacles.map(existing => (existing.id === obstacle.id ? obstacle : existing)),
+});
+
+const removeWorldObstacle = (world: PhysicsWorld, obstacleId: string): PhysicsWorld => ({
+  ...world,
+  obstacles: world.obstacles.filter(obstacle => obstacle.id !== obstacleId),
+});
+
+const applyWorldCommand = (world: PhysicsWorld, command: WorldCommand): PhysicsWorld => {
+  switch (command.type) {
+    case 'versusAttack':
+      return applyVersusAttack(world, command.attack);
+    case 'removeBall':
+      return removeWorldBall(world, command.ballId);
+    case 'addObstacle':
+      return addWorldObstacle(world, command.obstacle);
+    case 'updateObstacle':
+      return updateWorldObstacle(world, command.obstacle);
+    case 'removeObstacle':
+      return removeWorldObstacle(world, command.obstacleId);
+  }
+};
+
+// Effects that run out end before the step, so it plays without them
+const expirePowerUps = (world: PhysicsWorld, tick: number, events: WorldEvent[]): PhysicsWorld =>
+  world.activePowerUps.reduce((current, powerUp) => {
+    if (powerUp.expiresAt > tick) return current;
+    events.push({ type: 'powerUpExpired', tick, kind: powerUp.kind });
+    return endPowerUp(current, powerUp.kind, tick);
+  }, world);
+
+// Moves the paddles towards the input at the width the running effects give
+// them. Reversed controls mirror the move each paddle was asked to make from
+// where it is; pointers are sampled as moves while they are reversed.
+const movePlatforms = (world: PhysicsWorld, input: WorldInput, modifiers: PowerUpModifiers): PhysicsWorld => {
+  const { partnerPlatform: partner, config } = world;
+  const width = world.currentLevel.platformWidth * modifiers.platformWidthScale;
+  const steer = (platform: Platform, x: number) => (modifiers.reversedControls ? platform.x * 2 - x : x);
+  const platform = partner
+    ? moveCoopPlatform({ ...world.platform, width }, steer(world.platform, input.platformX), config, 0)
+    : updatePlatformPosition({ ...world.platform, width }, steer(world.platform, input.platformX), config);
+  const partnerPlatform =
+    partner && moveCoopPlatform({ ...partner, width }, steer(partner, input.partnerPlatformX ?? partner.x), config, 1);
+  return { ...world, platform, partnerPlatform };
+};
+
+// Advances the world by exactly one fixed step. Only a ball in play moves; in
+// any other phase the world is returned unchanged.
+export const stepWorld = (previous: PhysicsWorld, input: WorldInput): WorldStepResult => {
+  if (previous.phase !== 'playing') return { world: previous, events: [] };
+
+  const tick = previous.tick;
+  const events: WorldEvent[] = [];
+
+  // Commands land first, then the effects still running size and steer the paddles and run their tick hooks
+  const commanded = (input.commands ?? []).reduce(applyWorldCommand, previous);
+  const expired = expirePowerUps(commanded, tick, events);
+  const modifiers = getPowerUpModifiers(expired.activePowerUps);
+  const world = tickPowerUps(movePlatforms(expired, input, modifiers), tick, modifiers);
+  const { partnerPlatform: partner, config } = world;
+  // Wind zones and gravity wells act on each ball's velocity before it moves
+  const applyForces = (ball: BallPhysics) => applyObstacleForces(ball, world.obstacles);
+  const frameState = {
+    ...world,
+    ballPhysics: applyForces(world.ballPhysics),
+    ballTimeScale: modifiers.ballTimeScale,
+  };
+  const frame = stepPlayingFrame(frameState, STEP_DELTA_TIME);
+
+  // Every ball moves and collides on its own. When the clock stops the lead
+  // ball or the level is won, the others stop with it.
+  const moving = frame.outcome === 'continue' || frame.collisionState.floor;
+  const steps = [
+    frame,
+    ...(moving ? world.extraBalls.map(ball => stepBall(frameState, applyForces(ball), STEP_DELTA_TIME)) : []),
+  ];
+
+  const obstacleStep = applyObstacleContacts(
+    world.obstacles.map(obstacle => moveObstacle(obstacle, config, STEP_DELTA_TIME)),
+    steps,
+    world.zones,
+    tick,
+    events
+  );
+
+  // A shield absorbs floor hits for as long as it lasts; any other ball
+  // reaching the floor drops out of play
+  let shieldBounces = world.shieldBounces;
+  let shieldBroken = false;
+  const inPlay: BallPhysics[] = [];
+  const lost: BallPhysics[] = [];
+  for (const ball of obstacleStep.balls) {
+    if (!checkFloorCollision(ball, config)) {
+      inPlay.push(ball);
+    } else if (shieldBounces > 0) {
+      events.push({ type: 'shieldHit', tick, position: ball.position });
+      inPlay.push(bounceOffShield(ball, config));
+      shieldBounces -= 1;
+      // The shield breaks once it has absorbed its last hit
+      if (shieldBounces === 0) {
+        events.push({ type: 'powerUpExpired', tick, kind: 'shield' });
+        shieldBroken = true;
+      }
+    } else {
+      lost.push(ball);
+    }
+  }
+
+  const { scoreMultiplier } = modifiers;
+  const ballCombos = { ...world.ballCombos };
+  let scoreData = world.scoreData;
+  for (const { ballPhysics: ball, bounces } of steps) {
+    for (const bounce of bounces) {
+      scoreData = scoreBallBounce(scoreData, ballCombos, ball.id, bounce, scoreMultiplier);
+      events.push({ type: 'bounce', tick, ...bounce });
+    }
+  }
+  if (obstacleStep.points > 0) {
+    scoreData = { ...scoreData, score: scoreData.score + obstacleStep.points * scoreMultiplier };
+  }
+
+  // The level is judged on this step's score and the bricks still standing,
+  // so the hit that wins it completes it at once, even if a ball also reached
+  // the floor. A life is only lost when the last ball in play reaches the floor.
+  const { currentLevel } = world;
+  const timedOut = frame.timeElapsed >= currentLevel.timeLimit;
+  const won = timedOut
+    ? frame.outcome === 'levelComplete'
+    : isLevelWon(currentLevel, { ...scoreData, timeElapsed: frame.timeElapsed }, obstacleStep.obstacles);
+  const outcome = won ? 'levelComplete' : timedOut || inPlay.length === 0 ? 'lifeLost' : 'continue';
+
+  let next: PhysicsWorld = {
+    ...world,
+    tick: tick + 1,
+    scoreData,
+    obstacles: obstacleStep.obstacles,
+    shieldBounces,
+  };
+  if (shieldBroken) {
+    next = endPowerUp(next, 'shield', tick);
+  }
+  for (const brick of obstacleStep.drops) {
+    next = dropPickup(next, brick, tick);
+  }
+
+  if (outcome === 'continue') {
+    for (const ball of lost) {
+      events.push({ type: 'ballLost', tick, ballId: ball.id, position: ball.position });
+      delete ballCombos[ball.id];
+    }
+
+    const collided = collideBalls(inPlay);
+    for (const position of collided.hits) {
+      events.push({ type: 'ballHit', tick, position });
+    }
+
+    // The first ball still in play leads, so a fallen lead ball hands over to the next
+    const [lead, ...extraBalls] = collided.balls;
+    next = collectPickups(
+      {
+        ...next,
+        ballPhysics: lead!,
+        collisionState: frame.collisionState,
+        scoreData: { ...getRunCombo(scoreData, ballCombos, collided.balls), timeElapsed: frame.timeElapsed },
+        extraBalls,
+        ballCombos,
+        zones: obstacleStep.zones,
+      },
+      tick,
+      events
+    );
+    return { world: tick >= next.nextPickup.tick ? spawnPickup(next, tick) : next, events };
+  }
+
+  // Split-off balls go with the life or level, and so do their combos; timed
+  // effects carry on into the next launch
+  next = { ...next, extraBalls: [], ballCombos: {}, zones: {} };
+
+  if (outcome === 'lifeLost') {
+    const lastBall = lost[lost.length - 1];
+    events.push(lastBall ? { type: 'floorHit', tick, position: lastBall.position } : { type: 'timeUp', tick });
+
+    // Running out of time costs a life and restarts the clock; reaching the floor keeps it running
+    const afterLoss = resetCombo(loseLife({ ...scoreData, timeElapsed: lastBall ? frame.timeElapsed : 0 }));
+    if (afterLoss.lives <= 0) {
+      events.push({ type: 'gameOver', tick });
+      return { world: { ...next, phase: 'over', scoreData: afterLoss, ballPhysics: resetBall(world) }, events };
+    }
+
+    return { world: { ...next, phase: 'aiming', scoreData: afterLoss, ballPhysics: resetBall(world) }, events };
+  }
+
+  // Clearing a brick level earns the level bonus, most of it for the time left
+  const { bounceCount } = scoreData;
+  const bonus =
+    currentLevel.winCondition?.type === 'bricks'
+      ? calculateLevelScore(bounceCount, currentLevel.targetBounces, frame.timeElapsed, currentLevel.timeLimit, true)
+      : 0;
+  scoreData = { ...scoreData, score: scoreData.score + bonus };
+  events.push({ type: 'levelComplete', tick, level: scoreData.level, bonus });
+
+  const [nextLevelConfig, rng] = getLevelConfig(world.config, scoreData.level + 1, world.rng);
+  if (!nextLevelConfig) {
+    events.push({ type: 'gameOver', tick });
+    return { world: { ...next, phase: 'over', scoreData }, events };
+  }
+
+  const [nextPlatform, nextPartnerPlatform] = partner
+    ? createCoopPlatforms(config, nextLevelConfig)
+    : [createInitialPlatform(config, nextLevelConfig), null];
+  // Timed effects end with the level, each through its expire hook
+  const ended = next.activePowerUps.reduce((current, { kind }) => endPowerUp(current, kind, tick), next);
+
+  return {
+    world: {
+      ...ended,
+      phase: 'aiming',
+      rng,
+      scoreData: nextLevel(scoreData),
+      currentLevel: nextLevelConfig,
+      ballPhysics: createInitialBallPhysics(world.config, nextLevelConfig),
+      platform: nextPlatform,
+      partnerPlatform: nextPartnerPlatform,
+      collisionState: createInitialCollisionState(),
+      obstacles: nextLevelConfig.obstacles ?? [],
+      pickups: [],
+      nextPickup: schedulePickup(world.seed, config, nextLevelConfig, 0, tick + 1),
+    },
+    events,
+  };
+};
+
+// Fixed-timestep accumulator: converts elapsed wall-clock time into a whole
+// number of steps and carries the remainder over to the next frame.
+export const advanceClock = (accumulatorMs: number, elapsedMs: number): { steps: number; accumulatorMs: number } => {
+  const total = Math.min(accumulatorMs + Math.max(0, elapsedMs), MAX_STEPS_PER_ADVANCE * STEP_MS);
+  const steps = Math.floor(total / STEP_MS);
+  return { steps, accumulatorMs: total - steps * STEP_MS };
+};
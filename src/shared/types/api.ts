@@ -1,3 +1,10 @@
+import type { DailyChallenge } from '../game/dailyChallenge';
+import type { KeyBindings } from '../game/keyBindings';
+import type { LevelPack, LevelPackError } from '../game/levelPack';
+import type { RunLog } from '../game/runLog';
+import type { GameMode, ScoreData } from '../game/types';
+import type { RunRejectionReason } from '../game/verifyRun';
+
 export type InitResponse = {
   type: 'init';
   postId: string;
@@ -24,10 +31,15 @@ export type GameInitResponse = {
   gameData: {
     gameState: 'initial' | 'playing' | 'paused' | 'gameOver';
     score: number;
-    highScore: number;
     level: number;
   };
   username: string;
+  levelPack: LevelPack | null; // Custom levels this post was created with, null for the built-in ones
+  dailyChallenge: DailyChallenge | null; // Set on daily challenge posts
+  // Each mode's verified best, as stored by POST /api/game/highscore
+  campaignHighScore: number;
+  endlessHighScore: number;
+  bricksHighScore: number;
 };
 
 export type GameUpdateResponse = {
@@ -44,7 +56,6 @@ export type GameUpdateResponse = {
 export type GameActionRequest = {
   action: 'start' | 'pause' | 'resume' | 'reset' | 'updateScore';
   score?: number;
-  highScore?: number;
   level?: number;
   lives?: number;
   bounceCount?: number;
@@ -60,8 +71,221 @@ export type HighScoreResponse = {
 
 export type HighScoreUpdateRequest = {
   score: number;
+  runLog: RunLog;
+  mode?: GameMode; // defaults to 'campaign'
 };
 
 export type HighScoreUpdateResponse = {
   success: boolean;
+  verifiedScore: number;
+};
+
+// Returned with a 422 when a submitted run cannot be reproduced on the server
+export type ScoreRejectedResponse = {
+  status: 'error';
+  message: string;
+  reason: RunRejectionReason;
+};
+
+// Leaderboard API Types
+// daily is only available on daily challenge posts; endless and bricks rank
+// runs of those modes across the subreddit
+export type LeaderboardScope = 'post' | 'subreddit' | 'daily' | 'endless' | 'bricks';
+
+export type GameDifficulty = 'easy' | 'normal' | 'hard';
+
+export type LeaderboardRun = {
+  username: string;
+  score: number;
+  level: number;
+  bounceCount: number;
+  difficulty: GameDifficulty;
+  submittedAt: number;
+};
+
+export type LeaderboardEntry = LeaderboardRun & {
+  rank: number; // 1-based
+};
+
+export type LeaderboardSubmitRequest = {
+  score: number;
+  level: number;
+  bounceCount: number;
+  difficulty: GameDifficulty;
+  runLog: RunLog;
+  mode?: GameMode; // endless and brick-breaker runs only go on their mode's leaderboard
+};
+
+export type LeaderboardSubmitResponse = {
+  type: 'leaderboardSubmit';
+  isPersonalBest: boolean;
+  postRank: number | null;
+  subredditRank: number | null;
+  dailyRank: number | null; // null outside daily challenges, or once the day is over
+  endlessRank: number | null; // set for endless runs, which leave the other ranks null
+  bricksRank: number | null; // likewise for brick-breaker runs
+};
+
+export type LeaderboardResponse = {
+  type: 'leaderboard';
+  scope: LeaderboardScope;
+  entries: LeaderboardEntry[];
+  total: number;
+  offset: number;
+  limit: number;
+};
+
+export type LeaderboardRankResponse = {
+  type: 'leaderboardRank';
+  scope: LeaderboardScope;
+  entry: LeaderboardEntry | null;
+  total: number;
+};
+
+export type LeaderboardAroundResponse = {
+  type: 'leaderboardAround';
+  scope: LeaderboardScope;
+  entries: LeaderboardEntry[];
+  total: number;
+};
+
+// Daily Challenge API Types
+export type DailyChallengeArchive = {
+  date: string;
+  postId: string;
+  players: number;
+  entries: LeaderboardEntry[]; // the top of the day's leaderboard when it closed
+  archivedAt: number;
+};
+
+export type DailyArchiveResponse = {
+  type: 'dailyArchive';
+  challenges: DailyChallengeArchive[]; // newest first
+};
+
+// Player Profile API Types
+export type ProfileAchievement = {
+  id: string;
+  progress: number;
+  unlockedAt: number | null; // epoch ms, null while locked
+};
+
+export type ProfileSettings = {
+  difficulty: GameDifficulty;
+  audio: {
+    enabled: boolean;
+    volume: number; // 0-1
+    mute: boolean;
+  };
+  keyBindings: KeyBindings;
+};
+
+export type PlayerProfile = {
+  version: number;
+  achievements: ProfileAchievement[];
+  lifetimeBounces: number;
+  furthestLevel: number;
+  bestScores: Record<GameDifficulty, number>;
+  settings: ProfileSettings;
+  updatedAt: number;
+};
+
+export type ProfileResponse = {
+  type: 'profile';
+  profile: PlayerProfile;
+};
+
+export type ProfileUpdateRequest = {
+  profile: PlayerProfile;
+};
+
+// Custom Level API Types
+export type CustomLevelSummary = {
+  id: string;
+  name: string;
+  author: string;
+  levelCount: number;
+  updatedAt: number;
+};
+
+export type CustomLevelListResponse = {
+  type: 'customLevels';
+  levels: CustomLevelSummary[];
+  canEdit: boolean; // true for moderators of the subreddit
+};
+
+export type CustomLevelResponse = {
+  type: 'customLevel';
+  pack: LevelPack;
+};
+
+export type CustomLevelSaveRequest = {
+  pack: LevelPack;
+};
+
+export type CustomLevelSaveResponse = {
+  type: 'customLevelSaved';
+  level: CustomLevelSummary;
+};
+
+// Returned with a 400 when a saved level pack fails validation
+export type LevelPackRejectedResponse = {
+  status: 'error';
+  message: string;
+  errors: LevelPackError[];
+};
+
+// Replay API Types
+export type ReplayUploadRequest = {
+  replay: string; // a replay from serializeReplay
+};
+
+export type ReplayUploadResponse = {
+  type: 'replayUploaded';
+  id: string;
+  expiresAt: number;
+};
+
+export type ReplayResponse = {
+  type: 'replay';
+  id: string;
+  replay: string;
+  username: string;
+  scoreData: ScoreData; // as replayed by the server when the replay was shared
+  levelPack: LevelPack | null; // the levels of the post it was recorded on, null for the built-in ones
+  createdAt: number;
+  expiresAt: number;
+};
+
+// Ghost API Types
+export type GhostResponse = {
+  type: 'ghost';
+  replay: string; // the post's top run as a serialised replay
+  username: string;
+  score: number;
+};
+
+// Versus API Types
+export type VersusJoinRequest = {
+  matchId?: string; // the match a waiting player is already subscribed to, when joining again
+};
+
+export type VersusMatchInfo = {
+  matchId: string;
+  players: [string, string];
+  seed: number;
+};
+
+// Waiting players are matched with the next player to join, and told so on the
+// match's channel. Joining again refreshes their place in the lobby.
+export type VersusJoinResponse =
+  | { type: 'versusWaiting'; username: string; matchId: string }
+  | { type: 'versusMatched'; username: string; match: VersusMatchInfo };
+
+export type VersusLeaveResponse = {
+  type: 'versusLeft';
+};
+
+export type VersusMessageResponse = {
+  type: 'versusRelayed';
 };